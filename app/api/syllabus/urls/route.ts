@@ -1,14 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { KOSEN_SCHOOLS } from '@/lib/kosenList';
+import { getSyllabusSource, extractMarkdownLinks, SyllabusSourceError } from '@/lib/syllabusSource';
+import type { SyllabusSource } from '@/lib/syllabusSource';
+import { extractSubjectList } from '@/lib/syllabusMarkdownParser';
+import type { SyllabusListing } from '@/lib/syllabusMarkdownParser';
 
 /**
  * app/api/syllabus/urls/route.ts   ← ファイル名は必ず "route.ts" にすること
  *
  * Stage 1: 科目一覧ページをスクレイピングしてシラバス個別URLリストを取得
+ * 科目表の学年列・前期/後期の列から、指定の学年（semester があればその学期も）に開講される科目だけを返す。
  */
 export async function POST(request: NextRequest) {
   // ── リクエストボディのパース ────────────────────────────────────────────
-  let body: { schoolId?: string; department?: string; grade?: number; year?: number };
+  let body: {
+    schoolId?: string;
+    department?: string;
+    grade?: number;
+    year?: number;
+    semester?: 'spring' | 'fall';
+  };
   try {
     body = await request.json();
   } catch {
@@ -20,6 +31,7 @@ export async function POST(request: NextRequest) {
   }
 
   const { schoolId, department, grade, year } = body;
+  const semester = body.semester === 'spring' || body.semester === 'fall' ? body.semester : undefined;
 
   // ── 必須パラメータチェック ──────────────────────────────────────────────
   if (!schoolId || !department || !grade || !year) {
@@ -38,16 +50,25 @@ export async function POST(request: NextRequest) {
     );
   }
 
-  // ── Firecrawl APIキーチェック ───────────────────────────────────────────
-  const apiKey = process.env.FIRECRAWL_API_KEY;
-  if (!apiKey) {
-    console.error('[urls] FIRECRAWL_API_KEY が環境変数に設定されていません');
+  // year はそのまま取得先の URL に入るので4桁の年度だけ受け付ける
+  if (!/^\d{4}$/.test(String(year))) {
+    console.error(`[urls] year の形式が不正です: ${year}`);
     return NextResponse.json(
-      { error: 'サーバー設定エラー: FIRECRAWL_API_KEY が未設定です。Vercel環境変数を確認してください。' },
-      { status: 500 }
+      { error: `year="${year}" は4桁の年度で指定してください` },
+      { status: 400 }
     );
   }
 
+  // ── 取得元（Firecrawl / 直接取得 / フィクスチャ） ─────────────────────────
+  let source: SyllabusSource;
+  try {
+    source = getSyllabusSource();
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error(`[urls] ${msg}`);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+
   // ── kosenList から department_id を引く ────────────────────────────────
   const school = KOSEN_SCHOOLS.find((s) => s.syllabusId === schoolId);
   if (!school) {
@@ -85,82 +106,54 @@ export async function POST(request: NextRequest) {
   // ── スクレイピング対象URL構築 ───────────────────────────────────────────
   const subjectsUrl = buildSubjectsUrl(schoolId, departmentId, year);
   console.log(`[urls] Scraping: ${subjectsUrl}`);
-  console.log(`[urls] Params: school=${school.name}, dept=${department}(id=${departmentId}), year=${year}, grade=${grade}`);
-
-  // ── Firecrawl API呼び出し ──────────────────────────────────────────────
-  let scrapeResponse: Response;
-  try {
-    scrapeResponse = await fetch('https://api.firecrawl.dev/v1/scrape', {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        url: subjectsUrl,
-        formats: ['links'],
-        timeout: 30000,
-      }),
-    });
-  } catch (fetchErr) {
-    const msg = fetchErr instanceof Error ? fetchErr.message : String(fetchErr);
-    console.error(`[urls] Firecrawl fetch自体が失敗しました: ${msg}`);
-    return NextResponse.json(
-      { error: `Firecrawlへのリクエストが失敗しました: ${msg}` },
-      { status: 502 }
-    );
-  }
-
-  if (!scrapeResponse.ok) {
-    const errorText = await scrapeResponse.text().catch(() => '(レスポンスボディ取得失敗)');
-    console.error(
-      `[urls] Firecrawl APIエラー: HTTP ${scrapeResponse.status} ${scrapeResponse.statusText}\n` +
-      `  URL: ${subjectsUrl}\n` +
-      `  Body: ${errorText.slice(0, 500)}`
-    );
-    return NextResponse.json(
-      {
-        error:
-          `Firecrawl APIエラー (HTTP ${scrapeResponse.status}): ${errorText.slice(0, 200)}`,
-        scrapedUrl: subjectsUrl,
-      },
-      { status: 502 }
-    );
-  }
+  console.log(`[urls] Params: school=${school.name}, dept=${department}(id=${departmentId}), year=${year}, grade=${grade}, semester=${semester ?? '-'}`);
 
-  // ── レスポンスパース ────────────────────────────────────────────────────
-  let scrapeData: Record<string, unknown>;
+  // ── 科目一覧ページ取得 ──────────────────────────────────────────────────
+  let markdown: string;
   try {
-    scrapeData = await scrapeResponse.json();
-  } catch {
-    console.error('[urls] FirecrawlレスポンスのJSONパースに失敗');
-    return NextResponse.json(
-      { error: 'FirecrawlレスポンスのJSONパースに失敗しました' },
-      { status: 502 }
-    );
+    markdown = await source.fetchMarkdown(subjectsUrl);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    const status = err instanceof SyllabusSourceError ? err.status : 502;
+    console.error(`[urls] 科目一覧の取得に失敗しました (${source.id}): ${msg}`);
+    return NextResponse.json({ error: msg, scrapedUrl: subjectsUrl }, { status });
   }
 
-  const allLinks: string[] =
-    (scrapeData?.data as { links?: string[] })?.links ??
-    (scrapeData?.links as string[]) ??
-    [];
-
-  console.log(`[urls] Firecrawlから取得したリンク総数: ${allLinks.length}`);
+  const allLinks = extractMarkdownLinks(markdown, subjectsUrl);
+  console.log(`[urls] ${source.id} から取得したリンク総数: ${allLinks.length}`);
 
   if (allLinks.length === 0) {
     console.warn(
-      `[urls] リンクが0件でした。スクレイピング対象URLを確認してください: ${subjectsUrl}\n` +
-      `  scrapeData keys: ${Object.keys(scrapeData).join(', ')}`
+      `[urls] リンクが0件でした。スクレイピング対象URLを確認してください: ${subjectsUrl}`
     );
   }
 
-  // ── PublicSyllabus URLだけ抽出 ─────────────────────────────────────────
-  const syllabusUrls = extractSyllabusUrls(allLinks, schoolId, departmentId);
-  console.log(
-    `[urls] 抽出したシラバスURL数: ${syllabusUrls.length} / 全リンク: ${allLinks.length}`
+  // ── 科目表から学年・学期で絞り込み ─────────────────────────────────────
+  const validUrls = new Set(
+    extractSyllabusUrls(allLinks, schoolId, departmentId)
   );
+  const listings = extractSubjectList(markdown, subjectsUrl).filter((l) => validUrls.has(l.url));
+  const filtered = listings.length > 0;
+
+  let subjects: SyllabusListing[] = [];
+  let syllabusUrls: string[];
+  if (filtered) {
+    subjects = listings.filter(
+      (l) => l.grade === Number(grade) && (!semester || l.term === 'both' || l.term === semester)
+    );
+    syllabusUrls = [...new Set(subjects.map((l) => l.url))];
+    console.log(
+      `[urls] 科目表 ${listings.length}件 → ${grade}年${semester ? `・${semester}` : ''}: ${syllabusUrls.length}件`
+    );
+  } else {
+    // 科目表を解析できなければ学年で絞り込まずに全URLを返す
+    syllabusUrls = [...validUrls];
+    console.warn(
+      `[urls] 科目表の学年列を解析できませんでした。学年で絞り込まずに ${syllabusUrls.length}件を返します`
+    );
+  }
 
-  if (syllabusUrls.length === 0 && allLinks.length > 0) {
+  if (validUrls.size === 0 && allLinks.length > 0) {
     // リンクはあるが条件に合うURLがない → デバッグ用にサンプルを出力
     const sample = allLinks.slice(0, 5).join('\n  ');
     console.warn(
@@ -174,11 +167,14 @@ export async function POST(request: NextRequest) {
     department,
     departmentId,
     grade,
+    semester,
     year,
     scrapedUrl: subjectsUrl,
     totalLinks: allLinks.length,
+    filtered, // false = 科目表を解析できず学年・学期で絞り込んでいない
     totalUrls: syllabusUrls.length,
     urls: syllabusUrls,
+    subjects,
   });
 }
 
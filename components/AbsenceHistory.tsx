@@ -1,7 +1,8 @@
 'use client';
 
 import { Subject } from '@/lib/types';
-import { gradeCalculatorV2 } from '@/lib/gradeCalculator';
+import { GradeCalculationStrategy, DEFAULT_GRADE_STRATEGY } from '@/lib/gradeStrategy';
+import { ABSENCE_KIND_LABELS, getAbsenceKind } from '@/lib/absencePolicy';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { AlertCircle, Trash2, CheckCircle } from 'lucide-react';
@@ -10,23 +11,35 @@ import { storage } from '@/lib/storage';
 interface AbsenceHistoryProps {
   subject: Subject;
   onUpdate: () => void;
+  gradeStrategy?: GradeCalculationStrategy;
 }
 
-export function AbsenceHistory({ subject, onUpdate }: AbsenceHistoryProps) {
-  const absenceLimit = gradeCalculatorV2.calculateAbsenceLimit(subject);
+export function AbsenceHistory({
+  subject,
+  onUpdate,
+  gradeStrategy = DEFAULT_GRADE_STRATEGY,
+}: AbsenceHistoryProps) {
+  const absenceLimit = gradeStrategy.calculateAbsenceLimit(subject);
+  // 公欠・忌引・認可済みを除き、遅刻を換算した実効欠課数
+  const effectiveAbsences = gradeStrategy.calculateEffectiveAbsences(subject);
   const absencePercentage = Math.min(
     100,
-    Math.round((subject.absences / absenceLimit) * 100)
+    Math.round((effectiveAbsences / absenceLimit) * 100)
   );
-  const isOverLimit = subject.absences > absenceLimit;
+  const isOverLimit = effectiveAbsences > absenceLimit;
 
   const handleRemoveAbsence = (recordId: string) => {
+    const removed = subject.absenceRecords?.find(r => r.id === recordId);
     const updated = {
       ...subject,
       absenceRecords: subject.absenceRecords?.filter(r => r.id !== recordId) || [],
-      absences: Math.max(0, (subject.absences || 0) - 1),
+      absences: Math.max(0, (subject.absences || 0) - (removed?.periods ?? 1)),
     };
-    storage.updateSubject(subject.id, updated);
+    storage.updateSubject(
+      subject.id,
+      { absences: updated.absences, absenceRecords: updated.absenceRecords },
+      '欠課記録を削除'
+    );
     onUpdate();
   };
 
@@ -38,7 +51,7 @@ export function AbsenceHistory({ subject, onUpdate }: AbsenceHistoryProps) {
           r.id === recordId ? { ...r, approved: !r.approved } : r
         ) || [],
     };
-    storage.updateSubject(subject.id, updated);
+    storage.updateSubject(subject.id, { absenceRecords: updated.absenceRecords });
     onUpdate();
   };
 
@@ -51,7 +64,7 @@ export function AbsenceHistory({ subject, onUpdate }: AbsenceHistoryProps) {
             <div>
               <div className="text-sm font-medium text-slate-600">欠席状況</div>
               <div className="text-3xl font-bold text-slate-900 mt-1">
-                {subject.absences} / {absenceLimit}
+                {effectiveAbsences} / {absenceLimit}
               </div>
             </div>
             <div className={`text-center p-4 rounded-lg ${
@@ -116,6 +129,10 @@ export function AbsenceHistory({ subject, onUpdate }: AbsenceHistoryProps) {
                   <div>
                     <div className="text-sm font-medium text-slate-900">
                       {record.date}
+                      <span className="ml-2 text-xs text-slate-600">
+                        {ABSENCE_KIND_LABELS[getAbsenceKind(record)]}
+                        {record.periods && record.periods > 1 && ` ×${record.periods}`}
+                      </span>
                     </div>
                     {record.reason && (
                       <div className="text-xs text-slate-600">
@@ -0,0 +1,303 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { AcademicCalendar, CalendarPeriod, SemesterType } from '@/lib/types';
+import { storage } from '@/lib/storage';
+import { createDefaultCalendar, generateMeetings } from '@/lib/academicCalendar';
+import { toDateKey } from '@/lib/attendanceCalendar';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+interface AcademicCalendarDialogProps {
+  academicYear: number;
+  schoolName: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const WEEKDAYS = ['月', '火', '水', '木', '金'];
+const SEMESTER_LABELS: Record<SemesterType, string> = { spring: '前期', fall: '後期' };
+
+type PeriodListKey = 'holidays' | 'examPeriods';
+
+/**
+ * 年間行事予定の編集
+ * 学期の期間・休日・定期試験・振替授業日を設定すると、各科目の授業回数がこの予定から計算される。
+ */
+export function AcademicCalendarDialog({
+  academicYear,
+  schoolName,
+  isOpen,
+  onClose,
+}: AcademicCalendarDialogProps) {
+  const { toast } = useToast();
+  const [calendar, setCalendar] = useState<AcademicCalendar>(() =>
+    createDefaultCalendar(academicYear, schoolName)
+  );
+
+  useEffect(() => {
+    if (isOpen) setCalendar(storage.getCalendar(academicYear));
+  }, [isOpen, academicYear]);
+
+  // 曜日ごとの授業回数（設定の確認用）
+  const meetingCounts = (['spring', 'fall'] as SemesterType[]).map(semester => ({
+    semester,
+    counts: WEEKDAYS.map((_, dayOfWeek) => generateMeetings({ dayOfWeek, semester }, calendar).length),
+  }));
+
+  const updatePeriod = (key: PeriodListKey, idx: number, changes: Partial<CalendarPeriod>) => {
+    const list = [...calendar[key]];
+    list[idx] = { ...list[idx], ...changes };
+    setCalendar({ ...calendar, [key]: list });
+  };
+
+  const addPeriod = (key: PeriodListKey, name: string) => {
+    const today = toDateKey(new Date());
+    setCalendar({ ...calendar, [key]: [...calendar[key], { start: today, end: today, name }] });
+  };
+
+  const removePeriod = (key: PeriodListKey, idx: number) => {
+    setCalendar({ ...calendar, [key]: calendar[key].filter((_, i) => i !== idx) });
+  };
+
+  const handleSave = () => {
+    const ranges = [
+      calendar.terms.spring,
+      calendar.terms.fall,
+      ...calendar.holidays,
+      ...calendar.examPeriods,
+    ];
+    if (ranges.some(r => !r.start || !r.end || r.start > r.end)) {
+      toast({
+        title: 'エラー',
+        description: '期間の開始日は終了日以前にしてください',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    storage.saveCalendar(calendar);
+    toast({
+      title: '成功',
+      description: '年間行事予定を保存しました',
+    });
+    onClose();
+  };
+
+  const renderPeriodList = (key: PeriodListKey, emptyLabel: string, defaultName: string) => (
+    <div className="space-y-2">
+      {calendar[key].length === 0 && (
+        <div className="text-sm text-slate-500 text-center py-2">{emptyLabel}</div>
+      )}
+      {calendar[key].map((period, idx) => (
+        <div key={idx} className="grid grid-cols-[1fr_auto_auto_auto] gap-2 items-center">
+          <Input
+            value={period.name}
+            onChange={e => updatePeriod(key, idx, { name: e.target.value })}
+            placeholder="名前"
+          />
+          <Input
+            type="date"
+            value={period.start}
+            onChange={e => updatePeriod(key, idx, { start: e.target.value })}
+          />
+          <Input
+            type="date"
+            value={period.end}
+            onChange={e => updatePeriod(key, idx, { end: e.target.value })}
+          />
+          <Button variant="ghost" size="sm" onClick={() => removePeriod(key, idx)}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <Button variant="outline" size="sm" onClick={() => addPeriod(key, defaultName)}>
+        <Plus className="w-4 h-4 mr-1" />
+        追加
+      </Button>
+    </div>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{academicYear}年度 年間行事予定</DialogTitle>
+          <DialogDescription>
+            授業回数・欠課上限・残り授業回数はこの予定と時間割の曜日から計算されます
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="terms" className="w-full">
+          <TabsList className="grid w-full grid-cols-4">
+            <TabsTrigger value="terms">学期</TabsTrigger>
+            <TabsTrigger value="holidays">休日</TabsTrigger>
+            <TabsTrigger value="exams">定期試験</TabsTrigger>
+            <TabsTrigger value="substitutes">振替授業</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="terms" className="space-y-4">
+            {(['spring', 'fall'] as SemesterType[]).map(semester => (
+              <div key={semester} className="grid grid-cols-[4rem_1fr_1fr] gap-2 items-center">
+                <Label className="text-sm">{SEMESTER_LABELS[semester]}</Label>
+                <Input
+                  type="date"
+                  value={calendar.terms[semester].start}
+                  onChange={e =>
+                    setCalendar({
+                      ...calendar,
+                      terms: { ...calendar.terms, [semester]: { ...calendar.terms[semester], start: e.target.value } },
+                    })
+                  }
+                />
+                <Input
+                  type="date"
+                  value={calendar.terms[semester].end}
+                  onChange={e =>
+                    setCalendar({
+                      ...calendar,
+                      terms: { ...calendar.terms, [semester]: { ...calendar.terms[semester], end: e.target.value } },
+                    })
+                  }
+                />
+              </div>
+            ))}
+
+            <Card className="p-3">
+              <div className="text-sm font-medium text-slate-700 mb-2">曜日ごとの授業回数</div>
+              <table className="w-full text-sm text-center">
+                <thead>
+                  <tr className="text-slate-500">
+                    <th />
+                    {WEEKDAYS.map(day => (
+                      <th key={day} className="font-normal">{day}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {meetingCounts.map(({ semester, counts }) => (
+                    <tr key={semester}>
+                      <td className="text-slate-600">{SEMESTER_LABELS[semester]}</td>
+                      {counts.map((count, i) => (
+                        <td key={i} className="font-semibold text-slate-900">{count}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="holidays">
+            {renderPeriodList('holidays', '休日がありません', '休日')}
+          </TabsContent>
+
+          <TabsContent value="exams">
+            {renderPeriodList('examPeriods', '定期試験期間が登録されていません', '定期試験')}
+          </TabsContent>
+
+          <TabsContent value="substitutes" className="space-y-2">
+            {calendar.substituteDays.length === 0 && (
+              <div className="text-sm text-slate-500 text-center py-2">振替授業日がありません</div>
+            )}
+            {calendar.substituteDays.map((day, idx) => (
+              <div key={idx} className="grid grid-cols-[1fr_auto_auto_auto] gap-2 items-center">
+                <Input
+                  value={day.name ?? ''}
+                  onChange={e => {
+                    const list = [...calendar.substituteDays];
+                    list[idx] = { ...day, name: e.target.value || undefined };
+                    setCalendar({ ...calendar, substituteDays: list });
+                  }}
+                  placeholder="メモ（任意）"
+                />
+                <Input
+                  type="date"
+                  value={day.date}
+                  onChange={e => {
+                    const list = [...calendar.substituteDays];
+                    list[idx] = { ...day, date: e.target.value };
+                    setCalendar({ ...calendar, substituteDays: list });
+                  }}
+                />
+                <select
+                  value={day.followsDayOfWeek}
+                  onChange={e => {
+                    const list = [...calendar.substituteDays];
+                    list[idx] = { ...day, followsDayOfWeek: parseInt(e.target.value) };
+                    setCalendar({ ...calendar, substituteDays: list });
+                  }}
+                  className="px-3 py-2 border border-slate-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {WEEKDAYS.map((label, dayOfWeek) => (
+                    <option key={dayOfWeek} value={dayOfWeek}>
+                      {label}曜の時間割
+                    </option>
+                  ))}
+                </select>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    setCalendar({
+                      ...calendar,
+                      substituteDays: calendar.substituteDays.filter((_, i) => i !== idx),
+                    })
+                  }
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                setCalendar({
+                  ...calendar,
+                  substituteDays: [
+                    ...calendar.substituteDays,
+                    { date: toDateKey(new Date()), followsDayOfWeek: 0 },
+                  ],
+                })
+              }
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              追加
+            </Button>
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter className="flex gap-2 justify-between">
+          <Button
+            variant="outline"
+            onClick={() => setCalendar(createDefaultCalendar(academicYear, schoolName))}
+            className="gap-2"
+          >
+            <RotateCcw className="w-4 h-4" />
+            既定値に戻す
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose}>
+              キャンセル
+            </Button>
+            <Button onClick={handleSave}>保存</Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,201 @@
+'use client';
+
+import { useState } from 'react';
+import { ja } from 'react-day-picker/locale';
+import { AbsenceKind, AbsenceRecord, AcademicCalendar, Subject } from '@/lib/types';
+import { AbsencePolicy, ABSENCE_KIND_LABELS, getAbsenceKind } from '@/lib/absencePolicy';
+import {
+  getDayAttendanceStatus,
+  groupRecordsByDate,
+  isClassDay,
+  parseDateKey,
+  toDateKey,
+} from '@/lib/attendanceCalendar';
+import { generateMeetings, getExamPeriod, getHoliday } from '@/lib/academicCalendar';
+import { Calendar } from '@/components/ui/calendar';
+import { Button } from '@/components/ui/button';
+import { CheckCircle, Trash2 } from 'lucide-react';
+
+interface AttendanceCalendarProps {
+  subject: Subject;
+  absencePolicy: AbsencePolicy;
+  /** 年間行事予定。指定すると休日・試験期間を除いた実際の授業日を示す */
+  calendar?: AcademicCalendar;
+  /** 記録を追加・変更した科目（保存は呼び出し側で行う） */
+  onChange: (updated: Subject) => void;
+  /** 記録の表示だけ（締め済みの学期） */
+  readOnly?: boolean;
+}
+
+const KIND_BUTTON_STYLES: Record<AbsenceKind, string> = {
+  absent: 'border-red-300 text-red-700 hover:bg-red-50',
+  late: 'border-amber-300 text-amber-700 hover:bg-amber-50',
+  'early-leave': 'border-amber-300 text-amber-700 hover:bg-amber-50',
+  official: 'border-green-300 text-green-700 hover:bg-green-50',
+  bereavement: 'border-green-300 text-green-700 hover:bg-green-50',
+};
+
+/**
+ * 科目ごとの出欠カレンダー
+ * 授業の曜日を枠で示し、欠課・遅刻・公欠を色分けする。日付をクリックするとその日の記録を追加できる。
+ */
+export function AttendanceCalendar({
+  subject,
+  absencePolicy,
+  calendar,
+  onChange,
+  readOnly = false,
+}: AttendanceCalendarProps) {
+  const [month, setMonth] = useState(() => new Date());
+  const [selectedDate, setSelectedDate] = useState<Date | undefined>(undefined);
+
+  const records = subject.absenceRecords ?? [];
+  const recordsByDate = groupRecordsByDate(records);
+  const datesWithStatus = (status: 'absent' | 'late' | 'excluded') =>
+    [...recordsByDate.entries()]
+      .filter(([, dayRecords]) => getDayAttendanceStatus(dayRecords, absencePolicy) === status)
+      .map(([date]) => parseDateKey(date));
+
+  const meetings = calendar ? new Set(generateMeetings(subject, calendar)) : null;
+  const isMeeting = (date: Date) => (meetings ? meetings.has(toDateKey(date)) : isClassDay(subject, date));
+
+  const selectedKey = selectedDate ? toDateKey(selectedDate) : null;
+  const selectedDayOff =
+    calendar && selectedKey ? getHoliday(calendar, selectedKey) ?? getExamPeriod(calendar, selectedKey) : null;
+  const selectedRecords = selectedKey ? recordsByDate.get(selectedKey) ?? [] : [];
+
+  const handleAddRecord = (kind: AbsenceKind) => {
+    if (!selectedKey) return;
+    const record: AbsenceRecord = {
+      id: crypto.randomUUID(),
+      date: selectedKey,
+      kind,
+      approved: false,
+    };
+    onChange({
+      ...subject,
+      absences: subject.absences + 1,
+      absenceRecords: [...records, record],
+    });
+  };
+
+  const handleRemoveRecord = (record: AbsenceRecord) => {
+    onChange({
+      ...subject,
+      absences: Math.max(0, subject.absences - (record.periods ?? 1)),
+      absenceRecords: records.filter(r => r.id !== record.id),
+    });
+  };
+
+  const handleToggleApproved = (recordId: string) => {
+    onChange({
+      ...subject,
+      absenceRecords: records.map(r => (r.id === recordId ? { ...r, approved: !r.approved } : r)),
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <Calendar
+        mode="single"
+        locale={ja}
+        month={month}
+        onMonthChange={setMonth}
+        selected={selectedDate}
+        onSelect={setSelectedDate}
+        className="mx-auto rounded-md border"
+        modifiers={{
+          classDay: isMeeting,
+          dayOff: date => !!calendar && !!(getHoliday(calendar, toDateKey(date)) ?? getExamPeriod(calendar, toDateKey(date))),
+          absent: datesWithStatus('absent'),
+          late: datesWithStatus('late'),
+          excluded: datesWithStatus('excluded'),
+        }}
+        modifiersClassNames={{
+          classDay: 'ring-1 ring-inset ring-blue-300 rounded-md',
+          dayOff: 'text-slate-400',
+          absent: 'bg-red-200 rounded-md',
+          late: 'bg-amber-200 rounded-md',
+          excluded: 'bg-green-200 rounded-md',
+        }}
+      />
+
+      <div className="flex flex-wrap gap-3 text-xs text-slate-600">
+        <span className="flex items-center gap-1">
+          <span className="w-3 h-3 rounded ring-1 ring-inset ring-blue-300" />授業日
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="w-3 h-3 rounded bg-red-200" />欠課
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="w-3 h-3 rounded bg-amber-200" />遅刻・早退
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="w-3 h-3 rounded bg-green-200" />公欠・忌引・認可済み
+        </span>
+      </div>
+
+      {selectedDate && selectedKey && (
+        <div className="p-3 bg-slate-50 rounded border border-slate-200 space-y-3">
+          <div className="text-sm font-medium text-slate-900">
+            {selectedDate.toLocaleDateString('ja-JP', { month: 'long', day: 'numeric', weekday: 'short' })}
+            {selectedDayOff ? (
+              <span className="ml-2 text-xs font-normal text-slate-500">（{selectedDayOff.name}）</span>
+            ) : (
+              !isMeeting(selectedDate) && (
+                <span className="ml-2 text-xs font-normal text-slate-500">（授業日ではありません）</span>
+              )
+            )}
+          </div>
+
+          {selectedRecords.map(record => (
+            <div key={record.id} className="flex items-center justify-between text-sm">
+              <span className="flex items-center gap-2">
+                {record.approved && <CheckCircle className="w-4 h-4 text-green-600" />}
+                {ABSENCE_KIND_LABELS[getAbsenceKind(record)]}
+                {record.periods && record.periods > 1 && ` ×${record.periods}`}
+                {record.reason && <span className="text-xs text-slate-500">{record.reason}</span>}
+              </span>
+              {!readOnly && (
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleToggleApproved(record.id)}
+                    className="text-xs"
+                  >
+                    {record.approved ? '未認可' : '認可'}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRemoveRecord(record)}
+                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+
+          {!readOnly && (
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(ABSENCE_KIND_LABELS) as AbsenceKind[]).map(kind => (
+                <Button
+                  key={kind}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleAddRecord(kind)}
+                  className={KIND_BUTTON_STYLES[kind]}
+                >
+                  + {ABSENCE_KIND_LABELS[kind]}
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
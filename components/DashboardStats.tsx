@@ -1,18 +1,39 @@
 'use client';
 
-import { Subject } from '@/lib/types';
-import { gradeCalculatorV2 } from '@/lib/gradeCalculatorV2';
-import { AlertCircle, CheckCircle, TrendingUp, Award } from 'lucide-react';
+import { GradeStrategyId, GradingScaleId, SchoolInfo, Subject, Term } from '@/lib/types';
+import { GradeCalculationStrategy, DEFAULT_GRADE_STRATEGY, GRADE_STRATEGY_LABELS } from '@/lib/gradeStrategy';
+import { GRADING_SCALES, getFailingLabel } from '@/lib/gradingScale';
+import { storage } from '@/lib/storage';
+import { evaluatePromotion, getPromotionRules, PromotionConditionStatus } from '@/lib/promotionRules';
+import { AlertCircle, CheckCircle, TrendingUp, Award, GraduationCap, XCircle } from 'lucide-react';
 import { Card } from '@/components/ui/card';
+import { TermGPAChart } from './TermGPAChart';
 
 interface DashboardStatsProps {
   subjects: Subject[];
+  allSubjects?: Subject[]; // every term in the archive, for cumulative figures
+  schoolInfo?: SchoolInfo; // enables the 進級判定 panel
+  terms?: Term[]; // enables the GPA history chart
+  gradeStrategy?: GradeCalculationStrategy;
 }
 
-export function DashboardStats({ subjects }: DashboardStatsProps) {
+const PROMOTION_STATUS_STYLES: Record<PromotionConditionStatus, { label: string; className: string }> = {
+  met: { label: '達成', className: 'bg-blue-100 text-blue-800' },
+  'at-risk': { label: '注意', className: 'bg-orange-100 text-orange-800' },
+  failed: { label: '未達', className: 'bg-red-100 text-red-800' },
+};
+
+export function DashboardStats({
+  subjects,
+  allSubjects = subjects,
+  schoolInfo,
+  terms = [],
+  gradeStrategy = DEFAULT_GRADE_STRATEGY,
+}: DashboardStatsProps) {
+  const gradingScale = gradeStrategy.gradingScale;
   const stats = subjects.map(subject => ({
     subject,
-    status: gradeCalculatorV2.getGradeStatus(subject),
+    status: gradeStrategy.getGradeStatus(subject),
   }));
 
   const safeCount = stats.filter(s => s.status.status === 'safe').length;
@@ -27,63 +48,178 @@ export function DashboardStats({ subjects }: DashboardStatsProps) {
   const subjectsWithWarnings = stats.filter(s => s.status.absenceWarning).length;
   
   // Calculate GPA
-  const gpaData = gradeCalculatorV2.calculateGPA(subjects);
+  const gpaData = gradeStrategy.calculateGPA(subjects);
   const displayGPA = gpaData.totalGPA.toFixed(2);
+  const cumulativeGPA = gradeStrategy.calculateGPA(allSubjects);
+
+  // 評語ごとの科目数（学校の評価尺度に従う）
+  const letterCounts = gradingScale.levels.map(level => ({
+    level,
+    count: stats.filter(s => s.status.letterGrade === level.label).length,
+  }));
+
+  // 進級・卒業判定
+  const promotion = schoolInfo
+    ? evaluatePromotion(allSubjects, schoolInfo, getPromotionRules(schoolInfo.schoolName), gradeStrategy)
+    : null;
 
   return (
-    <div className="grid grid-cols-2 gap-3 md:grid-cols-6 mb-6">
-      {/* GPA Card */}
-      <Card className="p-4 bg-gradient-to-br from-purple-50 to-purple-100 border border-purple-200">
-        <div className="flex flex-col items-center gap-2">
-          <Award className="w-6 h-6 text-purple-600" />
-          <div className="text-2xl font-bold text-purple-700">{displayGPA}</div>
-          <div className="text-xs text-purple-600 text-center">GPA</div>
-        </div>
-      </Card>
-
-      {/* Average Grade */}
-      <Card className="p-4 bg-gradient-to-br from-slate-50 to-slate-100">
-        <div className="flex flex-col items-center gap-2">
-          <div className="text-2xl font-bold text-slate-700">{avgGrade}</div>
-          <div className="text-xs text-slate-600 text-center">平均成績</div>
-        </div>
-      </Card>
-
-      {/* Safe Subjects */}
-      <Card className="p-4 bg-gradient-to-br from-blue-50 to-blue-100 border border-blue-200">
-        <div className="flex flex-col items-center gap-2">
-          <CheckCircle className="w-6 h-6 text-blue-600" />
-          <div className="text-2xl font-bold text-blue-700">{safeCount}</div>
-          <div className="text-xs text-blue-600 text-center">安全</div>
-        </div>
-      </Card>
-
-      {/* Risk Subjects */}
-      <Card className="p-4 bg-gradient-to-br from-orange-50 to-orange-100 border border-orange-200">
-        <div className="flex flex-col items-center gap-2">
-          <AlertCircle className="w-6 h-6 text-orange-600" />
-          <div className="text-2xl font-bold text-orange-700">{riskCount}</div>
-          <div className="text-xs text-orange-600 text-center">リスク</div>
-        </div>
-      </Card>
-
-      {/* Fail Subjects */}
-      <Card className="p-4 bg-gradient-to-br from-red-50 to-red-100 border border-red-200">
-        <div className="flex flex-col items-center gap-2">
-          <AlertCircle className="w-6 h-6 text-red-600" />
-          <div className="text-2xl font-bold text-red-700">{failCount}</div>
-          <div className="text-xs text-red-600 text-center">不可</div>
-        </div>
-      </Card>
-
-      {/* Absence Warnings */}
-      <Card className="p-4 bg-gradient-to-br from-amber-50 to-amber-100 border border-amber-200">
-        <div className="flex flex-col items-center gap-2">
-          <TrendingUp className="w-6 h-6 text-amber-600" />
-          <div className="text-2xl font-bold text-amber-700">{subjectsWithWarnings}</div>
-          <div className="text-xs text-amber-600 text-center">欠席注意</div>
-        </div>
-      </Card>
+    <div className="mb-6 space-y-3">
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-7">
+        {/* GPA Card */}
+        <Card className="p-4 bg-gradient-to-br from-purple-50 to-purple-100 border border-purple-200">
+          <div className="flex flex-col items-center gap-2">
+            <Award className="w-6 h-6 text-purple-600" />
+            <div className="text-2xl font-bold text-purple-700">{displayGPA}</div>
+            <div className="text-xs text-purple-600 text-center">GPA</div>
+          </div>
+        </Card>
+
+        {/* Cumulative GPA across archived terms */}
+        <Card className="p-4 bg-gradient-to-br from-indigo-50 to-indigo-100 border border-indigo-200">
+          <div className="flex flex-col items-center gap-2">
+            <div className="text-2xl font-bold text-indigo-700">{cumulativeGPA.totalGPA.toFixed(2)}</div>
+            <div className="text-xs text-indigo-600 text-center">
+              累積GPA（修得 {cumulativeGPA.earnedCredits} 単位）
+            </div>
+          </div>
+        </Card>
+
+        {/* Average Grade */}
+        <Card className="p-4 bg-gradient-to-br from-slate-50 to-slate-100">
+          <div className="flex flex-col items-center gap-2">
+            <div className="text-2xl font-bold text-slate-700">{avgGrade}</div>
+            <div className="text-xs text-slate-600 text-center">平均成績</div>
+          </div>
+        </Card>
+
+        {/* Safe Subjects */}
+        <Card className="p-4 bg-gradient-to-br from-blue-50 to-blue-100 border border-blue-200">
+          <div className="flex flex-col items-center gap-2">
+            <CheckCircle className="w-6 h-6 text-blue-600" />
+            <div className="text-2xl font-bold text-blue-700">{safeCount}</div>
+            <div className="text-xs text-blue-600 text-center">安全</div>
+          </div>
+        </Card>
+
+        {/* Risk Subjects */}
+        <Card className="p-4 bg-gradient-to-br from-orange-50 to-orange-100 border border-orange-200">
+          <div className="flex flex-col items-center gap-2">
+            <AlertCircle className="w-6 h-6 text-orange-600" />
+            <div className="text-2xl font-bold text-orange-700">{riskCount}</div>
+            <div className="text-xs text-orange-600 text-center">リスク</div>
+          </div>
+        </Card>
+
+        {/* Fail Subjects */}
+        <Card className="p-4 bg-gradient-to-br from-red-50 to-red-100 border border-red-200">
+          <div className="flex flex-col items-center gap-2">
+            <AlertCircle className="w-6 h-6 text-red-600" />
+            <div className="text-2xl font-bold text-red-700">{failCount}</div>
+            <div className="text-xs text-red-600 text-center">{getFailingLabel(gradingScale)}</div>
+          </div>
+        </Card>
+
+        {/* Absence Warnings */}
+        <Card className="p-4 bg-gradient-to-br from-amber-50 to-amber-100 border border-amber-200">
+          <div className="flex flex-col items-center gap-2">
+            <TrendingUp className="w-6 h-6 text-amber-600" />
+            <div className="text-2xl font-bold text-amber-700">{subjectsWithWarnings}</div>
+            <div className="text-xs text-amber-600 text-center">欠席注意</div>
+          </div>
+        </Card>
+      </div>
+
+      {/* Term GPA History */}
+      <TermGPAChart terms={terms} gradeStrategy={gradeStrategy} />
+
+      {/* Letter Grade Distribution */}
+      {stats.length > 0 && (
+        <Card className="p-4">
+          <div className="flex items-center justify-between mb-2">
+            <h2 className="font-semibold text-slate-900 text-sm">評語分布</h2>
+            {schoolInfo ? (
+              // 学校の規程と違う尺度・計算方式になっている場合は利用者が選び直す
+              <div className="flex flex-wrap justify-end gap-1">
+                <select
+                  value={gradingScale.id}
+                  onChange={e => storage.updateSchoolInfo({ gradingScale: e.target.value as GradingScaleId })}
+                  className="text-xs text-slate-500 bg-transparent border border-slate-200 rounded px-1 py-0.5"
+                  title="評価尺度"
+                >
+                  {GRADING_SCALES.map(scale => (
+                    <option key={scale.id} value={scale.id}>
+                      {scale.name}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={gradeStrategy.id}
+                  onChange={e => storage.updateSchoolInfo({ gradeStrategy: e.target.value as GradeStrategyId })}
+                  className="text-xs text-slate-500 bg-transparent border border-slate-200 rounded px-1 py-0.5"
+                  title="計算方式"
+                >
+                  {(Object.keys(GRADE_STRATEGY_LABELS) as GradeStrategyId[]).map(id => (
+                    <option key={id} value={id}>
+                      {GRADE_STRATEGY_LABELS[id]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ) : (
+              <span className="text-xs text-slate-500">{gradingScale.name}</span>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {letterCounts.map(({ level, count }) => (
+              <div
+                key={level.label}
+                className={`px-3 py-1 rounded text-sm ${
+                  level.passed ? 'bg-slate-100 text-slate-700' : 'bg-red-100 text-red-700'
+                }`}
+              >
+                <span className="font-semibold">{level.label}</span>
+                <span className="ml-1">{count}</span>
+                {!gradingScale.gpFormula && (
+                  <span className="ml-1 text-xs text-slate-500">(GP {level.gp})</span>
+                )}
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+
+      {/* Promotion / Graduation Panel */}
+      {promotion && (
+        <Card className="p-4">
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="font-semibold text-slate-900 flex items-center gap-2">
+              <GraduationCap className="w-5 h-5 text-slate-600" />
+              進級判定
+            </h2>
+            <span className={`text-xs font-bold px-2 py-1 rounded ${PROMOTION_STATUS_STYLES[promotion.overall].className}`}>
+              {PROMOTION_STATUS_STYLES[promotion.overall].label}
+            </span>
+          </div>
+          <div className="grid grid-cols-1 gap-2 md:grid-cols-2">
+            {promotion.conditions.map(condition => (
+              <div key={condition.id} className="flex items-start gap-2 p-2 rounded border border-slate-200">
+                {condition.status === 'met' ? (
+                  <CheckCircle className="w-4 h-4 text-blue-600 flex-shrink-0 mt-0.5" />
+                ) : condition.status === 'at-risk' ? (
+                  <AlertCircle className="w-4 h-4 text-orange-600 flex-shrink-0 mt-0.5" />
+                ) : (
+                  <XCircle className="w-4 h-4 text-red-600 flex-shrink-0 mt-0.5" />
+                )}
+                <div className="flex-1">
+                  <div className="text-sm font-medium text-slate-900">{condition.label}</div>
+                  <div className="text-xs text-slate-600">{condition.detail}</div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
     </div>
   );
-}
+}
\ No newline at end of file
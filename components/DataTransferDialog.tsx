@@ -0,0 +1,184 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { AppExport, ImportMode, SubjectDiff } from '@/lib/types';
+import { storage } from '@/lib/storage';
+import { diffSubjects, getExportFileName, parseImportFile } from '@/lib/dataTransfer';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Download, Upload, AlertCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+interface DataTransferDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const MODE_LABELS: Record<ImportMode, string> = {
+  merge: '統合（科目IDごとにまとめ、成績は残す）',
+  replace: '置き換え（今のデータをすべて消す）',
+};
+
+/**
+ * 全データのエクスポート / インポート
+ * 取り込む前に追加・変更・削除される科目をプレビューする。
+ */
+export function DataTransferDialog({ isOpen, onClose }: DataTransferDialogProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<AppExport | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [mode, setMode] = useState<ImportMode>('merge');
+
+  useEffect(() => {
+    if (!isOpen) {
+      setFile(null);
+      setErrors([]);
+      setMode('merge');
+    }
+  }, [isOpen]);
+
+  const diff: SubjectDiff | null = file ? diffSubjects(storage.getConfig(), file.config, mode) : null;
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(storage.exportData(), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getExportFileName();
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+
+    const result = parseImportFile(await selected.text());
+    if (result.success) {
+      setFile(result.data);
+      setErrors([]);
+    } else {
+      setFile(null);
+      setErrors(result.errors);
+    }
+  };
+
+  const handleImport = () => {
+    if (!file) return;
+    if (mode === 'replace' && !confirm('現在のデータはすべて置き換えられます。よろしいですか?')) return;
+
+    storage.importData(file, mode);
+    toast({
+      title: '成功',
+      description: 'データを読み込みました',
+    });
+    onClose();
+  };
+
+  const renderSubjectList = (title: string, names: string[], className: string) =>
+    names.length > 0 && (
+      <div>
+        <div className={`text-sm font-medium ${className}`}>
+          {title} {names.length}件
+        </div>
+        <ul className="text-xs text-slate-600 ml-4 list-disc max-h-32 overflow-y-auto">
+          {names.map((name, i) => (
+            <li key={i}>{name}</li>
+          ))}
+        </ul>
+      </div>
+    );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>データのバックアップ</DialogTitle>
+          <DialogDescription>
+            すべての学期・成績・欠課記録・年間行事予定・シラバスのキャッシュをJSONファイルに保存し、読み込めます
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Button variant="outline" onClick={handleExport} className="w-full gap-2">
+            <Download className="w-4 h-4" />
+            エクスポート
+          </Button>
+
+          <div className="space-y-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()} className="w-full gap-2">
+              <Upload className="w-4 h-4" />
+              ファイルを選んでインポート
+            </Button>
+
+            {errors.length > 0 && (
+              <div className="bg-red-50 border border-red-200 rounded p-2 text-sm text-red-700 space-y-1">
+                <div className="flex items-center gap-1 font-medium">
+                  <AlertCircle className="w-4 h-4" />
+                  読み込めませんでした
+                </div>
+                {errors.slice(0, 5).map((error, i) => (
+                  <div key={i} className="text-xs">{error}</div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {file && diff && (
+            <Card className="p-3 space-y-3">
+              <div className="text-xs text-slate-500">
+                {new Date(file.exportedAt).toLocaleString('ja-JP')} にエクスポート ・{' '}
+                {file.config.terms.length}学期
+              </div>
+
+              <select
+                value={mode}
+                onChange={e => setMode(e.target.value as ImportMode)}
+                className="w-full px-3 py-2 border border-slate-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {(Object.keys(MODE_LABELS) as ImportMode[]).map(m => (
+                  <option key={m} value={m}>
+                    {MODE_LABELS[m]}
+                  </option>
+                ))}
+              </select>
+
+              {renderSubjectList('追加', diff.added.map(s => s.name), 'text-green-700')}
+              {renderSubjectList('変更', diff.changed.map(({ after }) => after.name), 'text-amber-700')}
+              {renderSubjectList('削除', diff.removed.map(s => s.name), 'text-red-700')}
+              {diff.added.length + diff.changed.length + diff.removed.length === 0 && (
+                <div className="text-sm text-slate-500">科目の変更はありません</div>
+              )}
+            </Card>
+          )}
+        </div>
+
+        <DialogFooter className="flex gap-2 justify-end">
+          <Button variant="outline" onClick={onClose}>
+            閉じる
+          </Button>
+          <Button onClick={handleImport} disabled={!file}>
+            インポート
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,186 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Subject, Term } from '@/lib/types';
+import { storage } from '@/lib/storage';
+import { GradeCalculationStrategy, DEFAULT_GRADE_STRATEGY } from '@/lib/gradeStrategy';
+import { planForTargetGPA } from '@/lib/gpaPlanner';
+import { getTermLabel } from '@/lib/termArchive';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card } from '@/components/ui/card';
+import { AlertCircle, CheckCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+interface GPAPlannerDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  term: Term | null;
+  /** 今学期の科目 */
+  subjects: Subject[];
+  gradeStrategy?: GradeCalculationStrategy;
+}
+
+/** 効率がよいと強調する科目数 */
+const HIGHLIGHT_COUNT = 3;
+
+/**
+ * 学期GPAの目標から、各科目の残りの評価項目で必要な最低点を逆算する
+ * 必要な得点率あたりのGPAの伸びが大きい科目を強調する。
+ */
+export function GPAPlannerDialog({
+  isOpen,
+  onClose,
+  term,
+  subjects,
+  gradeStrategy = DEFAULT_GRADE_STRATEGY,
+}: GPAPlannerDialogProps) {
+  const { toast } = useToast();
+  const [goalInput, setGoalInput] = useState('');
+
+  useEffect(() => {
+    if (isOpen) setGoalInput(term?.gpaGoal?.toString() ?? '');
+  }, [isOpen, term]);
+
+  const goal = parseFloat(goalInput);
+  const plan = Number.isFinite(goal) && goal > 0 ? planForTargetGPA(subjects, goal, gradeStrategy) : null;
+
+  // 上げられる科目を効率の高い順に
+  const highlighted = new Set(
+    (plan?.subjects ?? [])
+      .filter(p => p.returnPerEffort > 0)
+      .sort((a, b) => b.returnPerEffort - a.returnPerEffort)
+      .slice(0, HIGHLIGHT_COUNT)
+      .map(p => p.subject.id)
+  );
+  const rows = [...(plan?.subjects ?? [])].sort(
+    (a, b) => Number(a.fixed) - Number(b.fixed) || b.returnPerEffort - a.returnPerEffort
+  );
+
+  const handleSave = () => {
+    if (!term) return;
+    storage.setTermGPAGoal(term.id, plan ? goal : undefined);
+    toast({
+      title: '成功',
+      description: plan ? `GPA目標を ${goal.toFixed(2)} に設定しました` : 'GPA目標を解除しました',
+    });
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>GPA目標プランナー</DialogTitle>
+          <DialogDescription>
+            {term ? `${getTermLabel(term)}の` : ''}
+            目標GPAに届くよう、各科目の残りの評価項目で必要な最低点を計算します
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="gpa-goal" className="text-sm">目標GPA</Label>
+            <Input
+              id="gpa-goal"
+              type="number"
+              step="0.1"
+              min="0"
+              value={goalInput}
+              onChange={e => setGoalInput(e.target.value)}
+              placeholder="例: 3.0"
+              className="mt-1"
+            />
+          </div>
+
+          {plan && (
+            <Card
+              className={`p-3 flex items-center gap-2 text-sm ${
+                plan.achievable ? 'bg-blue-50 border-blue-200 text-blue-800' : 'bg-red-50 border-red-200 text-red-800'
+              }`}
+            >
+              {plan.achievable ? <CheckCircle className="w-4 h-4" /> : <AlertCircle className="w-4 h-4" />}
+              {plan.achievable
+                ? `下の点数を取れば学期GPAは ${plan.plannedGPA.toFixed(2)} になります`
+                : `残りをすべて満点にしても学期GPAは ${plan.plannedGPA.toFixed(2)} までしか上がりません`}
+            </Card>
+          )}
+
+          {plan && (
+            <div className="space-y-2">
+              {rows.map(row => (
+                <Card
+                  key={row.subject.id}
+                  className={`p-3 ${highlighted.has(row.subject.id) ? 'border-2 border-green-400' : ''}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="font-medium text-slate-900 truncate">
+                        {row.subject.name}
+                        {highlighted.has(row.subject.id) && (
+                          <span className="ml-2 text-xs px-2 py-0.5 rounded bg-green-100 text-green-800">効率◎</span>
+                        )}
+                      </div>
+                      <div className="text-xs text-slate-500">
+                        {row.subject.credits}単位
+                        {!row.countsTowardGPA && ' ・ GPA対象外'}
+                        {row.fixed && ' ・ 採点済み'}
+                        {row.returnPerEffort > 0 && ` ・ +10%あたり GP×単位 +${row.returnPerEffort.toFixed(1)}`}
+                      </div>
+                    </div>
+                    <div className="text-right flex-shrink-0">
+                      <div className="font-semibold text-slate-900">
+                        {row.targetScore === null ? '合格不可' : `${row.targetScore}点以上（${row.targetLabel}）`}
+                      </div>
+                      {!row.fixed && row.targetScore !== null && (
+                        <div className="text-xs text-slate-600">
+                          {row.neededPercent === 0 ? '達成済み' : `残りで平均 ${row.neededPercent}%`}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                  {row.criteriaTargets.length > 0 && (
+                    <ul className="mt-2 text-xs text-slate-600 space-y-0.5">
+                      {row.criteriaTargets.map(target => (
+                        <li
+                          key={`${target.criteriaId}-${target.subAssessmentId ?? ''}`}
+                          className="flex justify-between"
+                        >
+                          <span>{target.name}</span>
+                          <span>
+                            {target.targetPoints}点 / {target.maxPoints}点
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </Card>
+              ))}
+              {rows.length === 0 && (
+                <div className="text-sm text-slate-500 text-center py-4">今学期の科目がありません</div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="flex gap-2 justify-end">
+          <Button variant="outline" onClick={onClose}>
+            閉じる
+          </Button>
+          <Button onClick={handleSave} disabled={!term}>
+            目標を保存
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
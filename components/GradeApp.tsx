@@ -1,23 +1,40 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Subject } from '@/lib/types';
+import { AcademicCalendar, SchoolInfo, Subject, Term } from '@/lib/types';
 import { storage } from '@/lib/storage';
-import { eventEmitter } from '@/lib/events';
-import { gradeCalculatorV2 } from '@/lib/gradeCalculatorV2';
+import { getActiveTerm, getAllSubjects, getNextTermKey, getTermLabel, sortTerms } from '@/lib/termArchive';
+import { useEventListener, usePatternListener } from '@/lib/events';
+import { GradeCalculationStrategy, DEFAULT_GRADE_STRATEGY, getGradeStrategy } from '@/lib/gradeStrategy';
+import { buildScoreDistributions } from '@/lib/passProbability';
+import { getCalendarForYear, withActiveTermMeetings } from '@/lib/academicCalendar';
 import { Onboarding } from './Onboarding';
 import { DashboardStats } from './DashboardStats';
 import { TimetableGrid } from './TimetableGrid';
+import { TodayClasses } from './TodayClasses';
 import { SubjectModal } from './SubjectModal';
 import { GradeDetailViewSheet } from './GradeDetailViewSheet';
+import { AcademicCalendarDialog } from './AcademicCalendarDialog';
+import { DataTransferDialog } from './DataTransferDialog';
+import { GPAPlannerDialog } from './GPAPlannerDialog';
+import { UndoToastAction } from './UndoToastAction';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { Plus, Trash2, AlertCircle } from 'lucide-react';
+import { Plus, Trash2, AlertCircle, Lock, Unlock, CalendarPlus, CalendarDays, HardDrive, Undo2, Redo2, Target } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 
 export function GradeApp() {
   const { toast } = useToast();
   const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [allSubjects, setAllSubjects] = useState<Subject[]>([]);
+  const [terms, setTerms] = useState<Term[]>([]);
+  const [activeTerm, setActiveTerm] = useState<Term | null>(null);
+  const [schoolInfo, setSchoolInfo] = useState<SchoolInfo | null>(null);
+  const [gradeStrategy, setGradeStrategy] = useState<GradeCalculationStrategy>(DEFAULT_GRADE_STRATEGY);
+  const [calendar, setCalendar] = useState<AcademicCalendar | null>(null);
+  const [isCalendarOpen, setIsCalendarOpen] = useState(false);
+  const [isDataTransferOpen, setIsDataTransferOpen] = useState(false);
+  const [isPlannerOpen, setIsPlannerOpen] = useState(false);
   const [selectedSubject, setSelectedSubject] = useState<Subject | null>(null);
   const [isSubjectModalOpen, setIsSubjectModalOpen] = useState(false);
   const [isDetailViewOpen, setIsDetailViewOpen] = useState(false);
@@ -25,43 +42,79 @@ export function GradeApp() {
   const [newSubjectDayOfWeek, setNewSubjectDayOfWeek] = useState<number | null>(null);
   const [newSubjectPeriod, setNewSubjectPeriod] = useState<number | null>(null);
   const [onboardingComplete, setOnboardingComplete] = useState(true);
+  const [historyLabels, setHistoryLabels] = useState<{ undo?: string; redo?: string }>({});
 
-  // Load subjects from storage on mount
-  useEffect(() => {
+  // Score distributions per criterion type across every term (for pass-probability estimates)
+  const scoreDistributions = buildScoreDistributions(allSubjects);
+
+  // Read the active term and the whole archive from storage
+  const loadFromStorage = () => {
     const config = storage.getConfig();
-    setSubjects(config.timetable.subjects);
-    setOnboardingComplete(config.onboardingComplete);
-    setIsLoading(false);
-  }, []);
+    const term = getActiveTerm(config);
+    // Open-term class counts come from the calendar; past and closed terms keep their saved counts
+    const archive = withActiveTermMeetings(config, getAllSubjects(config));
+    setSubjects(withActiveTermMeetings(config, term.timetable.subjects));
+    setAllSubjects(archive);
+    // Keep the open detail view in step with storage (e.g. after undo)
+    setSelectedSubject(prev => (prev ? archive.find(s => s.id === prev.id) ?? prev : prev));
+    setCalendar(getCalendarForYear(config.calendars, term.academicYear, config.schoolInfo.schoolName));
+    setTerms(sortTerms(config.terms));
+    setActiveTerm(term);
+    setSchoolInfo(config.schoolInfo);
+    setGradeStrategy(getGradeStrategy(config.schoolInfo));
+    const history = storage.getHistory();
+    setHistoryLabels({
+      undo: history.undo[history.undo.length - 1]?.label,
+      redo: history.redo[history.redo.length - 1]?.label,
+    });
+    return config;
+  };
 
-  // Subscribe to real-time events instead of polling
+  // Load subjects from storage on mount (after the stored data has been read from IndexedDB)
   useEffect(() => {
-    const unsubscribeUpdate = eventEmitter.on('subject:updated', () => {
-      const config = storage.getConfig();
-      setSubjects(config.timetable.subjects);
+    storage.init().then(() => {
+      const config = loadFromStorage();
+      setOnboardingComplete(config.onboardingComplete);
+      setIsLoading(false);
     });
+  }, []);
 
-    const unsubscribeAdd = eventEmitter.on('subject:added', () => {
-      const config = storage.getConfig();
-      setSubjects(config.timetable.subjects);
-    });
+  // Subscribe to real-time events instead of polling
+  // (grade:* events always come with subject:updated)
+  usePatternListener('subject:*', loadFromStorage);
+  usePatternListener('absence:*', loadFromStorage);
+  useEventListener('term:changed', loadFromStorage);
+  useEventListener('config:updated', loadFromStorage);
 
-    const unsubscribeDelete = eventEmitter.on('subject:deleted', () => {
-      const config = storage.getConfig();
-      setSubjects(config.timetable.subjects);
-    });
+  const handleUndo = () => {
+    const label = storage.undo();
+    if (label) toast({ title: '元に戻しました', description: label });
+  };
 
-    const unsubscribeAbsence = eventEmitter.on('absence:added', () => {
-      const config = storage.getConfig();
-      setSubjects(config.timetable.subjects);
-    });
+  const handleRedo = () => {
+    const label = storage.redo();
+    if (label) toast({ title: 'やり直しました', description: label });
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (Ctrl+Y); text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
 
-    return () => {
-      unsubscribeUpdate();
-      unsubscribeAdd();
-      unsubscribeDelete();
-      unsubscribeAbsence();
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
     };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
   }, []);
 
   const handleAddSubject = (dayOfWeek?: number, period?: number) => {
@@ -84,14 +137,32 @@ export function GradeApp() {
   const handleClearAll = () => {
     if (confirm('本当にすべての教科データを削除してもよろしいですか?')) {
       storage.clear();
-      setSubjects([]);
+      loadFromStorage();
       toast({
         title: '完了',
         description: 'すべてのデータを削除しました',
+        action: <UndoToastAction />,
       });
     }
   };
 
+  const handleStartNextTerm = () => {
+    if (!activeTerm) return;
+    const next = getNextTermKey(activeTerm);
+    storage.startTerm(next.academicYear, next.semester);
+  };
+
+  const handleToggleTermClosed = () => {
+    if (!activeTerm) return;
+    if (activeTerm.closed) {
+      storage.reopenTerm(activeTerm.id);
+      toast({ title: '完了', description: `${getTermLabel(activeTerm)}を再開しました` });
+    } else if (confirm(`${getTermLabel(activeTerm)}を締めますか？現在の成績が最終成績として確定されます。`)) {
+      storage.closeTerm(activeTerm.id);
+      toast({ title: '完了', description: `${getTermLabel(activeTerm)}の最終成績を確定しました` });
+    }
+  };
+
   const handleModalSave = () => {
     setIsSubjectModalOpen(false);
     // Data syncs automatically via event emitter
@@ -126,12 +197,73 @@ export function GradeApp() {
           </p>
         </div>
 
+        {/* Term Switcher */}
+        {activeTerm && (
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={activeTerm.id}
+              onChange={e => storage.setActiveTerm(e.target.value)}
+              className="px-3 py-2 border border-slate-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white"
+              aria-label="学期を選択"
+            >
+              {terms.map(term => (
+                <option key={term.id} value={term.id}>
+                  {getTermLabel(term)}{term.closed ? ' ・確定済み' : ''}
+                </option>
+              ))}
+            </select>
+            <Button variant="outline" size="sm" onClick={handleStartNextTerm} className="gap-2">
+              <CalendarPlus className="w-4 h-4" />
+              次の学期へ
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleToggleTermClosed} className="gap-2">
+              {activeTerm.closed ? <Unlock className="w-4 h-4" /> : <Lock className="w-4 h-4" />}
+              {activeTerm.closed ? '学期を再開' : '学期を締める'}
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setIsCalendarOpen(true)} className="gap-2">
+              <CalendarDays className="w-4 h-4" />
+              年間行事予定
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setIsPlannerOpen(true)} className="gap-2">
+              <Target className="w-4 h-4" />
+              {activeTerm.gpaGoal !== undefined ? `GPA目標 ${activeTerm.gpaGoal.toFixed(2)}` : 'GPA目標'}
+            </Button>
+          </div>
+        )}
+
         {/* Control Buttons */}
         <div className="flex flex-wrap gap-2">
-          <Button onClick={() => handleAddSubject()} className="gap-2 bg-blue-600 hover:bg-blue-700">
+          <Button
+            onClick={() => handleAddSubject()}
+            disabled={activeTerm?.closed}
+            title={activeTerm?.closed ? '締め済みの学期です。科目を追加するには学期を再開してください' : undefined}
+            className="gap-2 bg-blue-600 hover:bg-blue-700"
+          >
             <Plus className="w-4 h-4" />
             科目を追加
           </Button>
+          <Button
+            variant="outline"
+            onClick={handleUndo}
+            disabled={!historyLabels.undo}
+            title={historyLabels.undo ? `元に戻す: ${historyLabels.undo} (Ctrl+Z)` : '元に戻す'}
+            aria-label="元に戻す"
+          >
+            <Undo2 className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="outline"
+            onClick={handleRedo}
+            disabled={!historyLabels.redo}
+            title={historyLabels.redo ? `やり直す: ${historyLabels.redo} (Ctrl+Shift+Z)` : 'やり直す'}
+            aria-label="やり直す"
+          >
+            <Redo2 className="w-4 h-4" />
+          </Button>
+          <Button variant="outline" onClick={() => setIsDataTransferOpen(true)} className="gap-2">
+            <HardDrive className="w-4 h-4" />
+            バックアップ
+          </Button>
           <Button
             variant="outline"
             onClick={handleClearAll}
@@ -144,7 +276,23 @@ export function GradeApp() {
       </div>
 
       {/* Dashboard Stats */}
-      <DashboardStats subjects={subjects} />
+      <DashboardStats
+        subjects={subjects}
+        allSubjects={allSubjects}
+        schoolInfo={schoolInfo ?? undefined}
+        terms={terms}
+        gradeStrategy={gradeStrategy}
+      />
+
+      {/* Today's Attendance Check-in */}
+      {subjects.length > 0 && (
+        <TodayClasses
+          subjects={subjects}
+          gradeStrategy={gradeStrategy}
+          calendar={calendar ?? undefined}
+          readOnly={activeTerm?.closed}
+        />
+      )}
 
       {/* Timetable Grid */}
       {subjects.length > 0 ? (
@@ -169,9 +317,12 @@ export function GradeApp() {
           <TimetableGrid
             subjects={subjects.filter(s => s.dayOfWeek !== undefined && s.period !== undefined)}
             periodsPerDay={5}
+            gradeStrategy={gradeStrategy}
+            scoreDistributions={scoreDistributions}
             onSelectSubject={handleViewDetails}
             onAddSubject={handleAddSubject}
             unscheduledSubjects={subjects.filter(s => !s.dayOfWeek || !s.period)}
+            readOnly={activeTerm?.closed}
           />
 
           {/* Subject Grid View */}
@@ -179,9 +330,9 @@ export function GradeApp() {
             <h2 className="text-lg sm:text-xl font-bold text-slate-900 mb-4">すべての科目</h2>
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
               {subjects.map(subject => {
-                const status = gradeCalculatorV2.getGradeStatus(subject);
-                const color = gradeCalculatorV2.getIntelligentColor(status);
-                const statusLabel = gradeCalculatorV2.getStatusLabel(status);
+                const status = gradeStrategy.getGradeStatus(subject);
+                const color = gradeStrategy.getIntelligentColor(status);
+                const statusLabel = gradeStrategy.getStatusLabel(status);
 
                 return (
                   <Card
@@ -212,10 +363,11 @@ export function GradeApp() {
                       </div>
 
                       <div className="text-sm text-slate-600 space-y-1">
-                        <div>成績: {status.value} 点</div>
+                        <div>成績: {status.value} 点（{status.letterGrade} / GP {status.gpa.toFixed(1)}）</div>
                         <div>予測: {status.predictedFinal} 点</div>
                         <div className="font-medium">
-                          欠席: {subject.absences}/{gradeCalculatorV2.calculateAbsenceLimit(subject)}
+                          欠課: {gradeStrategy.calculateEffectiveAbsences(subject)}/
+                          {gradeStrategy.calculateAbsenceLimit(subject)}
                         </div>
                       </div>
 
@@ -227,6 +379,8 @@ export function GradeApp() {
                             e.stopPropagation();
                             handleEditSubject(subject);
                           }}
+                          disabled={activeTerm?.closed}
+                          title={activeTerm?.closed ? '締め済みの学期です。編集するには学期を再開してください' : undefined}
                           className="flex-1"
                         >
                           編集
@@ -258,7 +412,7 @@ export function GradeApp() {
             <p className="text-slate-600 text-sm sm:text-base">
               シラバスから自動取得した科目を時間割に割り当てるか、手動で追加してください
             </p>
-            <Button onClick={() => handleAddSubject()} className="gap-2">
+            <Button onClick={() => handleAddSubject()} disabled={activeTerm?.closed} className="gap-2">
               <Plus className="w-4 h-4" />
               科目を追加
             </Button>
@@ -276,6 +430,7 @@ export function GradeApp() {
           setNewSubjectPeriod(null);
         }}
         onSave={handleModalSave}
+        gradeStrategy={gradeStrategy}
         defaultDayOfWeek={newSubjectDayOfWeek ?? undefined}
         defaultPeriod={newSubjectPeriod ?? undefined}
       />
@@ -283,11 +438,35 @@ export function GradeApp() {
       <GradeDetailViewSheet
         subject={selectedSubject}
         isOpen={isDetailViewOpen}
+        gradeStrategy={gradeStrategy}
+        scoreDistributions={scoreDistributions}
+        termSubjects={subjects}
+        calendar={calendar ?? undefined}
+        readOnly={activeTerm?.closed}
         onClose={() => {
           setIsDetailViewOpen(false);
           // Data sync happens automatically via event emitter
         }}
       />
+
+      <DataTransferDialog isOpen={isDataTransferOpen} onClose={() => setIsDataTransferOpen(false)} />
+
+      <GPAPlannerDialog
+        isOpen={isPlannerOpen}
+        onClose={() => setIsPlannerOpen(false)}
+        term={activeTerm}
+        subjects={subjects}
+        gradeStrategy={gradeStrategy}
+      />
+
+      {activeTerm && (
+        <AcademicCalendarDialog
+          academicYear={activeTerm.academicYear}
+          schoolName={schoolInfo?.schoolName ?? ''}
+          isOpen={isCalendarOpen}
+          onClose={() => setIsCalendarOpen(false)}
+        />
+      )}
     </div>
   );
 }
@@ -2,8 +2,9 @@
 
 import { useState } from 'react';
 import { Subject, Grade } from '@/lib/types';
-import { gradeCalculator } from '@/lib/gradeCalculator';
+import { GradeCalculationStrategy, DEFAULT_GRADE_STRATEGY } from '@/lib/gradeStrategy';
 import { storage } from '@/lib/storage';
+import { toDateKey } from '@/lib/attendanceCalendar';
 import {
   Dialog,
   DialogContent,
@@ -19,15 +20,23 @@ import { Card } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Plus, Trash2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { UndoToastAction } from './UndoToastAction';
 
 interface GradeDetailViewProps {
   subject: Subject | null;
   isOpen: boolean;
   onClose: () => void;
   onSave: () => void;
+  gradeStrategy?: GradeCalculationStrategy;
 }
 
-export function GradeDetailView({ subject, isOpen, onClose, onSave }: GradeDetailViewProps) {
+export function GradeDetailView({
+  subject,
+  isOpen,
+  onClose,
+  onSave,
+  gradeStrategy = DEFAULT_GRADE_STRATEGY,
+}: GradeDetailViewProps) {
   const { toast } = useToast();
   const [formData, setFormData] = useState<Subject | null>(subject);
   const [newGradeData, setNewGradeData] = useState({
@@ -37,7 +46,7 @@ export function GradeDetailView({ subject, isOpen, onClose, onSave }: GradeDetai
 
   if (!formData) return null;
 
-  const status = gradeCalculator.getGradeStatus(formData);
+  const status = gradeStrategy.getGradeStatus(formData);
   const criteriaAverages = formData.evaluationCriteria.map(criteria => {
     const gradesForCriteria = formData.grades.filter(g => g.criteriaId === criteria.id);
     const average =
@@ -70,7 +79,7 @@ export function GradeDetailView({ subject, isOpen, onClose, onSave }: GradeDetai
       id: crypto.randomUUID(),
       criteriaId: newGradeData.criteriaId,
       points: newGradeData.points,
-      date: new Date().toISOString().split('T')[0],
+      date: toDateKey(new Date()),
     };
 
     const updated = {
@@ -79,7 +88,7 @@ export function GradeDetailView({ subject, isOpen, onClose, onSave }: GradeDetai
     };
 
     setFormData(updated);
-    storage.updateSubject(subject!.id, updated);
+    storage.updateSubject(subject!.id, { grades: updated.grades });
     setNewGradeData({ criteriaId: '', points: 0 });
 
     toast({
@@ -96,16 +105,17 @@ export function GradeDetailView({ subject, isOpen, onClose, onSave }: GradeDetai
     };
 
     setFormData(updated);
-    storage.updateSubject(subject!.id, updated);
+    storage.updateSubject(subject!.id, { grades: updated.grades }, '成績を削除');
 
     toast({
       title: '成功',
       description: '成績を削除しました',
+      action: <UndoToastAction />,
     });
     onSave();
   };
 
-  const attendance = gradeCalculator.attendancePercentage(formData);
+  const attendance = gradeStrategy.attendancePercentage(formData);
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -156,7 +166,7 @@ export function GradeDetailView({ subject, isOpen, onClose, onSave }: GradeDetai
 
               <Card className="p-4 bg-slate-50">
                 <div className="text-sm text-slate-600">合格に必要な点数</div>
-                <div className="text-3xl font-bold text-slate-700">{isNaN(status.needsToPass) ? 0 : status.needsToPass}</div>
+                <div className="text-3xl font-bold text-slate-700">{isNaN(status.needsToPass) ? 0 : Number.isFinite(status.needsToPass) ? status.needsToPass : '到達不可'}</div>
                 <div className="text-xs text-slate-600 mt-2">
                   最終試験での点数 (満点100)
                 </div>
@@ -275,7 +285,7 @@ export function GradeDetailView({ subject, isOpen, onClose, onSave }: GradeDetai
                       ),
                     };
                     setFormData(updated);
-                    storage.updateSubject(subject!.id, updated);
+                    storage.updateSubject(subject!.id, { grades: updated.grades });
                     setIsEditing(false);
                     onSave();
                   };
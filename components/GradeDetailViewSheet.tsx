@@ -1,9 +1,23 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Subject, Grade } from '@/lib/types';
-import { gradeCalculatorV2 } from '@/lib/gradeCalculatorV2';
+import {
+  Subject,
+  Grade,
+  CriteriaProgress,
+  EvaluationCriteria,
+  WhatIfScenario,
+  AbsenceKind,
+  AbsenceRecord,
+  AcademicCalendar,
+} from '@/lib/types';
+import { GradeCalculationStrategy, DEFAULT_GRADE_STRATEGY } from '@/lib/gradeStrategy';
+import { ABSENCE_KIND_LABELS, calculateEffectiveAbsences } from '@/lib/absencePolicy';
+import { CRITERION_KIND_LABELS, ScoreDistributions, estimatePassProbability, getCriterionKind } from '@/lib/passProbability';
 import { storage } from '@/lib/storage';
+import { countRemainingMeetings, generateMeetings } from '@/lib/academicCalendar';
+import { toDateKey } from '@/lib/attendanceCalendar';
+import { LESSON_EXAM_LABELS, getCurrentLesson, scheduleLessons } from '@/lib/lessonSchedule';
 import {
   Sheet,
   SheetContent,
@@ -16,52 +30,97 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Plus, Trash2, AlertCircle } from 'lucide-react';
+import { Plus, Trash2, AlertCircle, BookOpen, Lock } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { Progress } from '@/components/ui/progress';
+import { WhatIfSimulator } from './WhatIfSimulator';
+import { GradeTrendChart } from './GradeTrendChart';
+import { AttendanceCalendar } from './AttendanceCalendar';
+import { UndoToastAction } from './UndoToastAction';
 
 interface GradeDetailViewSheetProps {
   subject: Subject | null;
   isOpen: boolean;
   onClose: () => void;
+  gradeStrategy?: GradeCalculationStrategy;
+  /** 評価項目の種類ごとの得点率の分布（合格確率の見積もり用） */
+  scoreDistributions?: ScoreDistributions;
+  /** 同じ学期の科目（シミュレーターの学期GPA差分用） */
+  termSubjects?: Subject[];
+  /** 年間行事予定（残り授業回数と出欠カレンダーの授業日に使う） */
+  calendar?: AcademicCalendar;
+  /** 締め済みの学期の科目（最終成績が確定しているので成績・欠課を編集できない） */
+  readOnly?: boolean;
 }
 
 export function GradeDetailViewSheet({
   subject,
   isOpen,
   onClose,
+  gradeStrategy = DEFAULT_GRADE_STRATEGY,
+  scoreDistributions,
+  termSubjects = [],
+  calendar,
+  readOnly = false,
 }: GradeDetailViewSheetProps) {
   const { toast } = useToast();
   const [formData, setFormData] = useState<Subject | null>(subject);
   const [newGradeData, setNewGradeData] = useState({
     criteriaId: '',
+    subAssessmentId: '',
     points: 0,
+    maxPoints: '',
+  });
+  const [newAbsence, setNewAbsence] = useState<{ kind: AbsenceKind; periods: number }>({
+    kind: 'absent',
+    periods: 1,
   });
-  const [absenceInput, setAbsenceInput] = useState(0);
 
   // Sync formData when subject changes
   useEffect(() => {
     if (subject) {
       setFormData(subject);
-      setAbsenceInput(subject.absences);
     }
   }, [subject, isOpen]);
 
   if (!formData) return null;
 
-  const status = gradeCalculatorV2.getGradeStatus(formData);
-  const color = gradeCalculatorV2.getIntelligentColor(status);
-  const statusLabel = gradeCalculatorV2.getStatusLabel(status);
-  const remainingAttendance = gradeCalculatorV2.calculateRemainingAttendance(formData);
-  const absenceLimit = gradeCalculatorV2.calculateAbsenceLimit(formData);
+  const status = gradeStrategy.getGradeStatus(formData);
+  const color = gradeStrategy.getIntelligentColor(status);
+  const statusLabel = gradeStrategy.getStatusLabel(status);
+  const passEstimate = scoreDistributions
+    ? estimatePassProbability(formData, scoreDistributions, gradeStrategy)
+    : null;
+  // 見積もりに使った種類（残りの評価項目の種類）
+  const estimateKinds = [
+    ...new Set(
+      formData.evaluationCriteria
+        .filter(
+          c => gradeStrategy.isCriteriaRemaining(formData, c) || gradeStrategy.getCriteriaGradedShare(formData, c) < 1
+        )
+        .map(c => getCriterionKind(c))
+    ),
+  ];
+  const absencePolicy = gradeStrategy.absencePolicies[formData.classType];
+  const remainingAttendance = gradeStrategy.calculateRemainingAttendance(formData);
+  const absenceLimit = gradeStrategy.calculateAbsenceLimit(formData);
+  const effectiveAbsences = gradeStrategy.calculateEffectiveAbsences(formData);
+  const absenceSummary = calculateEffectiveAbsences(formData, absencePolicy);
+  const absenceUnit = absencePolicy.unitsPerClass > 1 ? '単位時間' : '回';
+  const meetings = calendar ? generateMeetings(formData, calendar) : [];
+  const remainingMeetings = countRemainingMeetings(meetings);
+  const scheduledLessons = scheduleLessons(formData, calendar);
+  const currentLesson = getCurrentLesson(scheduledLessons);
+  const nextExam = currentLesson
+    ? scheduledLessons.slice(scheduledLessons.indexOf(currentLesson.scheduled)).find(s => s.lesson.exam)
+    : undefined;
+  const formatDate = (date: string) => `${Number(date.slice(5, 7))}/${Number(date.slice(8, 10))}`;
 
   const criteriaAverages = formData.evaluationCriteria.map(criteria => {
     const gradesForCriteria = formData.grades.filter(g => g.criteriaId === criteria.id);
-    const average =
-      gradesForCriteria.length > 0
-        ? gradesForCriteria.reduce((sum, g) => sum + g.points, 0) / gradesForCriteria.length
-        : 0;
-    const percentage = criteria.maxPoints > 0 ? (average / criteria.maxPoints) * 100 : 0;
+    // 小項目の重み・最低点除外などを反映した得点率
+    const percentage = gradeStrategy.calculateCriteriaPercent(formData, criteria) ?? 0;
+    const average = (percentage / 100) * criteria.maxPoints;
     return {
       id: criteria.id,
       name: criteria.name,
@@ -70,11 +129,23 @@ export function GradeDetailViewSheet({
       average,
       percentage,
       count: gradesForCriteria.length,
+      remaining: gradeStrategy.isCriteriaRemaining(formData, criteria),
+      rules: describeItemRules(criteria),
     };
   });
 
+  const selectedCriteria = formData.evaluationCriteria.find(c => c.id === newGradeData.criteriaId);
+  const selectedSubAssessments = selectedCriteria?.subAssessments ?? [];
+
+  // 残りの評価項目で合格に必要な得点
+  const criteriaTargets = gradeStrategy.calculateCriteriaTargets(formData);
+
   const handleAddGrade = () => {
-    if (!newGradeData.criteriaId || newGradeData.points < 0) {
+    if (
+      !newGradeData.criteriaId ||
+      newGradeData.points < 0 ||
+      (selectedSubAssessments.length > 0 && !newGradeData.subAssessmentId)
+    ) {
       toast({
         title: 'エラー',
         description: 'すべてのフィールドを正しく入力してください',
@@ -83,11 +154,14 @@ export function GradeDetailViewSheet({
       return;
     }
 
+    const itemMaxPoints = parseInt(newGradeData.maxPoints);
     const newGrade: Grade = {
       id: crypto.randomUUID(),
       criteriaId: newGradeData.criteriaId,
+      ...(newGradeData.subAssessmentId && { subAssessmentId: newGradeData.subAssessmentId }),
       points: newGradeData.points,
-      date: new Date().toISOString().split('T')[0],
+      ...(itemMaxPoints > 0 && { maxPoints: itemMaxPoints }),
+      date: toDateKey(new Date()),
     };
 
     const updated = {
@@ -96,8 +170,8 @@ export function GradeDetailViewSheet({
     };
 
     setFormData(updated);
-    storage.updateSubject(subject!.id, updated);
-    setNewGradeData({ criteriaId: '', points: 0 });
+    storage.updateSubject(subject!.id, { grades: updated.grades });
+    setNewGradeData({ criteriaId: '', subAssessmentId: '', points: 0, maxPoints: '' });
 
     toast({
       title: '成功',
@@ -112,26 +186,68 @@ export function GradeDetailViewSheet({
     };
 
     setFormData(updated);
-    storage.updateSubject(subject!.id, updated);
+    storage.updateSubject(subject!.id, { grades: updated.grades }, '成績を削除');
 
     toast({
       title: '成功',
       description: '成績を削除しました',
+      action: <UndoToastAction />,
     });
   };
 
-  const handleUpdateAbsence = () => {
+  const handleSetCriteriaProgress = (criteriaId: string, progress: CriteriaProgress) => {
+    const updated = {
+      ...formData,
+      evaluationCriteria: formData.evaluationCriteria.map(c =>
+        c.id === criteriaId ? { ...c, progress } : c
+      ),
+    };
+
+    setFormData(updated);
+    storage.updateSubject(subject!.id, { evaluationCriteria: updated.evaluationCriteria });
+  };
+
+  const handleSaveScenarios = (whatIfScenarios: WhatIfScenario[]) => {
     const updated = {
       ...formData,
-      absences: absenceInput,
+      whatIfScenarios,
     };
 
     setFormData(updated);
-    storage.updateSubject(subject!.id, updated);
+    storage.updateSubject(subject!.id, { whatIfScenarios });
 
     toast({
       title: '成功',
-      description: '欠席数を更新しました',
+      description: 'シナリオを更新しました',
+    });
+  };
+
+  // カレンダーからの出欠記録の追加・削除・認可切り替え
+  const handleAttendanceChange = (updated: Subject) => {
+    setFormData(updated);
+    storage.updateSubject(subject!.id, { absences: updated.absences, absenceRecords: updated.absenceRecords });
+  };
+
+  const handleAddAbsenceRecord = () => {
+    const record: AbsenceRecord = {
+      id: crypto.randomUUID(),
+      date: toDateKey(new Date()),
+      kind: newAbsence.kind,
+      ...(newAbsence.periods !== 1 && { periods: newAbsence.periods }),
+      approved: false,
+    };
+    const updated = {
+      ...formData,
+      absences: formData.absences + newAbsence.periods,
+      absenceRecords: [...(formData.absenceRecords ?? []), record],
+    };
+
+    setFormData(updated);
+    storage.updateSubject(subject!.id, { absences: updated.absences, absenceRecords: updated.absenceRecords });
+
+    toast({
+      title: '成功',
+      description: `${ABSENCE_KIND_LABELS[newAbsence.kind]}を記録しました`,
     });
   };
 
@@ -181,6 +297,13 @@ export function GradeDetailViewSheet({
         </SheetHeader>
 
         <div className="space-y-6 mt-6">
+          {readOnly && (
+            <Card className="p-3 bg-slate-50 border border-slate-200 flex items-center gap-2 text-sm text-slate-700">
+              <Lock className="w-4 h-4 flex-shrink-0" />
+              この学期は締め済みです。成績や欠課を編集するには学期を再開してください。
+            </Card>
+          )}
+
           {/* Status Summary */}
           <Card className={`p-4 ${colors.bg} border ${colors.border}`}>
             <div className="space-y-3">
@@ -192,15 +315,70 @@ export function GradeDetailViewSheet({
                 <div>
                   <div className="text-sm text-slate-600">現在の成績</div>
                   <div className="text-2xl font-bold text-slate-900">{status.value}</div>
+                  <div className="text-xs text-slate-600">
+                    評語 {status.letterGrade} ・ GP {status.gpa.toFixed(1)}
+                  </div>
                 </div>
                 <div>
                   <div className="text-sm text-slate-600">予測最終成績</div>
                   <div className="text-2xl font-bold text-slate-900">{status.predictedFinal}</div>
                 </div>
               </div>
+              {passEstimate?.basis === 'estimated' && scoreDistributions && (
+                <div className="border-t border-slate-200 pt-3">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-slate-600">合格確率</span>
+                    <span className="font-bold text-slate-900">{Math.round(passEstimate.probability * 100)}%</span>
+                  </div>
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-slate-600">期待される最終成績</span>
+                    <span className="font-semibold text-slate-900">
+                      {passEstimate.expectedGrade}点（±{Math.round(passEstimate.sd)}）
+                    </span>
+                  </div>
+                  <div className="text-xs text-slate-500 mt-1">
+                    これまでの
+                    {estimateKinds
+                      .map(kind => {
+                        const { mean, count } = scoreDistributions[kind];
+                        return `${CRITERION_KIND_LABELS[kind]}（平均${Math.round(mean)}%・${count}件）`;
+                      })
+                      .join('・')}
+                    から見積もっています
+                  </div>
+                </div>
+              )}
             </div>
           </Card>
 
+          {/* This Week's Lesson (授業計画) */}
+          {currentLesson && (
+            <Card className="p-4">
+              <h3 className="font-semibold text-slate-900 mb-2 flex items-center gap-2">
+                <BookOpen className="w-5 h-5 text-blue-600" />
+                {currentLesson.isThisWeek ? '今週の授業' : '次の授業'}
+              </h3>
+              <div className="text-sm text-slate-900">
+                <span className="text-slate-500 mr-2">
+                  第{currentLesson.scheduled.lesson.week}週
+                  {currentLesson.scheduled.date &&
+                    `（${currentLesson.scheduled.estimated ? '目安 ' : ''}${formatDate(currentLesson.scheduled.date)}）`}
+                </span>
+                {currentLesson.scheduled.lesson.topic}
+              </div>
+              {currentLesson.scheduled.lesson.goal && (
+                <div className="text-xs text-slate-500 mt-1">目標: {currentLesson.scheduled.lesson.goal}</div>
+              )}
+              {nextExam?.date && nextExam.lesson.exam && (
+                <div className="text-xs text-amber-700 mt-2">
+                  次の{LESSON_EXAM_LABELS[nextExam.lesson.exam]}: {formatDate(nextExam.date)}
+                  {nextExam.examPeriod && `〜${formatDate(nextExam.examPeriod.end)}（${nextExam.examPeriod.name}）`}
+                  {nextExam.estimated && '（目安）'}
+                </div>
+              )}
+            </Card>
+          )}
+
           {/* Attendance Management */}
           <Card className="p-4">
             <h3 className="font-semibold text-slate-900 mb-4 flex items-center gap-2">
@@ -212,111 +390,284 @@ export function GradeDetailViewSheet({
             <div className="space-y-4">
               <div>
                 <div className="flex items-center justify-between mb-2">
-                  <Label className="text-sm">欠席数</Label>
+                  <Label className="text-sm">欠課数</Label>
                   <span className={`text-sm font-semibold ${
                     remainingAttendance <= 2 ? 'text-orange-600' : 
                     remainingAttendance <= 5 ? 'text-amber-600' : 
                     'text-green-600'
                   }`}>
-                    残り {remainingAttendance} 回
+                    残り {remainingAttendance} {absenceUnit}
                   </span>
                 </div>
-                <div className="flex gap-2">
-                  <Input
-                    type="number"
-                    min="0"
-                    value={absenceInput}
-                    onChange={e => setAbsenceInput(parseInt(e.target.value) || 0)}
-                    className="flex-1"
-                  />
-                  <Button onClick={handleUpdateAbsence} size="sm">
-                    更新
-                  </Button>
-                </div>
+                {!readOnly && (
+                  <div className="flex gap-2">
+                    <select
+                      value={newAbsence.kind}
+                      onChange={e => setNewAbsence({ ...newAbsence, kind: e.target.value as AbsenceKind })}
+                      className="flex-1 px-3 py-2 border border-slate-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {(Object.keys(ABSENCE_KIND_LABELS) as AbsenceKind[]).map(kind => (
+                        <option key={kind} value={kind}>
+                          {ABSENCE_KIND_LABELS[kind]}
+                        </option>
+                      ))}
+                    </select>
+                    <Input
+                      type="number"
+                      min="1"
+                      value={newAbsence.periods}
+                      onChange={e => setNewAbsence({ ...newAbsence, periods: Math.max(1, parseInt(e.target.value) || 1) })}
+                      className="w-20"
+                      title="コマ数"
+                    />
+                    <Button onClick={handleAddAbsenceRecord} size="sm">
+                      記録
+                    </Button>
+                  </div>
+                )}
               </div>
 
               <div>
                 <div className="text-sm text-slate-600 mb-2">
-                  {formData.absences}/{absenceLimit} (許容上限)
+                  {effectiveAbsences}/{absenceLimit} {absenceUnit} (許容上限)
                 </div>
                 <Progress
-                  value={(formData.absences / absenceLimit) * 100}
+                  value={(effectiveAbsences / absenceLimit) * 100}
                   className="h-2"
                 />
+                <div className="text-xs text-slate-500 mt-2">
+                  欠課 {absenceSummary.absent}コマ ・ 遅刻/早退 {absenceSummary.late + absenceSummary.earlyLeave}回
+                  {absencePolicy.lateToAbsence > 0 &&
+                    `（${absencePolicy.lateToAbsence}回で欠課1 → ${absenceSummary.convertedFromLate}コマ）`}
+                  {absenceSummary.excluded > 0 && ` ・ 公欠/忌引など除外 ${absenceSummary.excluded}コマ`}
+                </div>
+                {meetings.length > 0 && (
+                  <div className="text-xs text-slate-500 mt-1">
+                    年間予定の授業 {meetings.length}回 ・ 残り {remainingMeetings}回
+                  </div>
+                )}
               </div>
 
               {remainingAttendance <= 2 && (
                 <div className="bg-orange-50 border border-orange-200 rounded p-2 text-sm text-orange-700">
-                  ⚠️ 欠席可能回数があと {remainingAttendance} 回のみです。注意してください。
+                  ⚠️ 欠課できるのはあと {remainingAttendance} {absenceUnit}のみです。注意してください。
                 </div>
               )}
             </div>
           </Card>
 
-          {/* Grades Breakdown */}
+          {/* Attendance Calendar */}
           <Card className="p-4">
-            <h3 className="font-semibold text-slate-900 mb-4">評価内訳</h3>
-            <div className="space-y-3">
-              {criteriaAverages.map(criteria => (
-                <div key={criteria.id} className="space-y-1">
-                  <div className="flex items-center justify-between">
-                    <span className="text-sm font-medium text-slate-700">
-                      {criteria.name} ({criteria.weight}%)
-                    </span>
-                    <span className="text-sm font-semibold text-slate-900">
-                      {criteria.average.toFixed(1)}/{criteria.maxPoints}
-                    </span>
-                  </div>
-                  <Progress
-                    value={criteria.percentage}
-                    className="h-2"
-                  />
-                  <div className="text-xs text-slate-500">
-                    {criteria.count}件の成績
-                  </div>
-                </div>
-              ))}
-            </div>
+            <h3 className="font-semibold text-slate-900 mb-4">出欠カレンダー</h3>
+            <AttendanceCalendar
+              subject={formData}
+              absencePolicy={absencePolicy}
+              calendar={calendar}
+              onChange={handleAttendanceChange}
+              readOnly={readOnly}
+            />
           </Card>
 
-          {/* Add Grade Section */}
+          {/* Grades Breakdown / Trend */}
           <Card className="p-4">
-            <h3 className="font-semibold text-slate-900 mb-4">成績を追加</h3>
-            <div className="space-y-3">
-              <div>
-                <Label className="text-sm">評価基準を選択</Label>
-                <select
-                  value={newGradeData.criteriaId}
-                  onChange={e => setNewGradeData({ ...newGradeData, criteriaId: e.target.value })}
-                  className="w-full mt-1 px-3 py-2 border border-slate-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
-                >
-                  <option value="">-- 選択してください --</option>
-                  {formData.evaluationCriteria.map(criteria => (
-                    <option key={criteria.id} value={criteria.id}>
-                      {criteria.name} (最大 {criteria.maxPoints}点)
-                    </option>
+            <Tabs defaultValue="breakdown">
+              <TabsList className="mb-4">
+                <TabsTrigger value="breakdown">評価内訳</TabsTrigger>
+                <TabsTrigger value="trend">推移</TabsTrigger>
+                {scheduledLessons.length > 0 && <TabsTrigger value="schedule">授業計画</TabsTrigger>}
+              </TabsList>
+              <TabsContent value="breakdown">
+                <div className="space-y-3">
+                  {criteriaAverages.map(criteria => (
+                    <div key={criteria.id} className="space-y-1">
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm font-medium text-slate-700 flex items-center gap-2">
+                          {criteria.name} ({criteria.weight}%)
+                          <button
+                            type="button"
+                            disabled={readOnly}
+                            onClick={() =>
+                              handleSetCriteriaProgress(criteria.id, criteria.remaining ? 'graded' : 'remaining')
+                            }
+                            className={`text-xs px-2 py-0.5 rounded ${
+                              criteria.remaining
+                                ? 'bg-amber-100 text-amber-800 hover:bg-amber-200'
+                                : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+                            }`}
+                            title={readOnly ? undefined : 'クリックで切り替え'}
+                          >
+                            {criteria.remaining ? '未評価' : '評価済み'}
+                          </button>
+                        </span>
+                        <span className="text-sm font-semibold text-slate-900">
+                          {criteria.average.toFixed(1)}/{criteria.maxPoints}
+                        </span>
+                      </div>
+                      <Progress
+                        value={criteria.percentage}
+                        className="h-2"
+                      />
+                      <div className="text-xs text-slate-500">
+                        {criteria.count}件の成績
+                        {criteria.rules && ` ・ ${criteria.rules}`}
+                      </div>
+                    </div>
                   ))}
-                </select>
-              </div>
+                </div>
+              </TabsContent>
+              <TabsContent value="trend">
+                <GradeTrendChart subject={formData} gradeStrategy={gradeStrategy} />
+              </TabsContent>
+              {scheduledLessons.length > 0 && (
+                <TabsContent value="schedule">
+                  <div className="space-y-1">
+                    {scheduledLessons.map((scheduled, i) => {
+                      const { lesson } = scheduled;
+                      const isCurrent = currentLesson?.scheduled === scheduled;
+                      return (
+                        <div
+                          key={`${lesson.semester}-${lesson.week}-${i}`}
+                          className={`flex gap-3 p-2 rounded text-sm ${
+                            isCurrent ? 'bg-blue-50 border border-blue-200' : lesson.exam ? 'bg-amber-50' : ''
+                          }`}
+                        >
+                          <div className="w-14 flex-shrink-0 text-xs text-slate-500">
+                            <div>第{lesson.week}週</div>
+                            {scheduled.date && (
+                              <div>
+                                {scheduled.estimated && '〜'}
+                                {formatDate(scheduled.date)}
+                              </div>
+                            )}
+                          </div>
+                          <div className="min-w-0">
+                            <div className="text-slate-900">
+                              {lesson.exam && (
+                                <span className="mr-2 text-xs px-2 py-0.5 rounded bg-amber-100 text-amber-800">
+                                  {LESSON_EXAM_LABELS[lesson.exam]}
+                                </span>
+                              )}
+                              {lesson.topic}
+                            </div>
+                            {lesson.goal && <div className="text-xs text-slate-500">{lesson.goal}</div>}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </TabsContent>
+              )}
+            </Tabs>
+          </Card>
 
-              <div>
-                <Label className="text-sm">得点</Label>
-                <Input
-                  type="number"
-                  min="0"
-                  value={newGradeData.points}
-                  onChange={e => setNewGradeData({ ...newGradeData, points: parseInt(e.target.value) || 0 })}
-                  placeholder="得点を入力"
-                  className="mt-1"
-                />
+          {/* Targets for Remaining Criteria */}
+          {criteriaTargets.length > 0 && (
+            <Card className="p-4">
+              <h3 className="font-semibold text-slate-900 mb-4">合格に必要な得点</h3>
+              <div className="space-y-2">
+                {criteriaTargets.map(target => (
+                  <div key={`${target.criteriaId}-${target.subAssessmentId ?? ''}`} className="flex items-center justify-between text-sm">
+                    <span className="text-slate-700">
+                      {target.name} ({target.weight}%)
+                    </span>
+                    {target.achievable ? (
+                      <span className="font-semibold text-slate-900">
+                        {target.targetPoints}点 / {target.maxPoints}点
+                      </span>
+                    ) : (
+                      <span className="font-semibold text-red-600">到達不可</span>
+                    )}
+                  </div>
+                ))}
               </div>
+              <div className="text-xs text-slate-500 mt-3">
+                未評価の項目すべてで上記の平均点を取ると合格ライン（{formData.passingGrade}点）に届きます
+              </div>
+            </Card>
+          )}
 
-              <Button onClick={handleAddGrade} className="w-full">
-                <Plus className="w-4 h-4 mr-2" />
-                成績を追加
-              </Button>
-            </div>
-          </Card>
+          {/* What-if Simulator */}
+          <WhatIfSimulator
+            subject={formData}
+            termSubjects={[
+              ...termSubjects.filter(s => s.id !== formData.id),
+              formData,
+            ]}
+            gradeStrategy={gradeStrategy}
+            onSaveScenarios={handleSaveScenarios}
+          />
+
+          {/* Add Grade Section */}
+          {!readOnly && (
+            <Card className="p-4">
+              <h3 className="font-semibold text-slate-900 mb-4">成績を追加</h3>
+              <div className="space-y-3">
+                <div>
+                  <Label className="text-sm">評価基準を選択</Label>
+                  <select
+                    value={newGradeData.criteriaId}
+                    onChange={e => setNewGradeData({ ...newGradeData, criteriaId: e.target.value, subAssessmentId: '' })}
+                    className="w-full mt-1 px-3 py-2 border border-slate-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">-- 選択してください --</option>
+                    {formData.evaluationCriteria.map(criteria => (
+                      <option key={criteria.id} value={criteria.id}>
+                        {criteria.name} (最大 {criteria.maxPoints}点)
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {selectedSubAssessments.length > 0 && (
+                  <div>
+                    <Label className="text-sm">小項目</Label>
+                    <select
+                      value={newGradeData.subAssessmentId}
+                      onChange={e => setNewGradeData({ ...newGradeData, subAssessmentId: e.target.value })}
+                      className="w-full mt-1 px-3 py-2 border border-slate-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">-- 選択してください --</option>
+                      {selectedSubAssessments.map(sub => (
+                        <option key={sub.id} value={sub.id}>
+                          {sub.name} (最大 {sub.maxPoints ?? selectedCriteria!.maxPoints}点)
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <Label className="text-sm">得点</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      value={newGradeData.points}
+                      onChange={e => setNewGradeData({ ...newGradeData, points: parseInt(e.target.value) || 0 })}
+                      placeholder="得点を入力"
+                      className="mt-1"
+                    />
+                  </div>
+                  <div>
+                    <Label className="text-sm">満点（任意）</Label>
+                    <Input
+                      type="number"
+                      min="1"
+                      value={newGradeData.maxPoints}
+                      onChange={e => setNewGradeData({ ...newGradeData, maxPoints: e.target.value })}
+                      placeholder="評価基準の最大得点"
+                      className="mt-1"
+                    />
+                  </div>
+                </div>
+
+                <Button onClick={handleAddGrade} className="w-full">
+                  <Plus className="w-4 h-4 mr-2" />
+                  成績を追加
+                </Button>
+              </div>
+            </Card>
+          )}
 
           {/* Existing Grades List */}
           <Card className="p-4">
@@ -329,6 +680,7 @@ export function GradeDetailViewSheet({
               <div className="space-y-2 max-h-64 overflow-y-auto">
                 {formData.grades.map(grade => {
                   const criteria = formData.evaluationCriteria.find(c => c.id === grade.criteriaId);
+                  const sub = criteria?.subAssessments?.find(s => s.id === grade.subAssessmentId);
                   return (
                     <div
                       key={grade.id}
@@ -337,21 +689,24 @@ export function GradeDetailViewSheet({
                       <div className="flex-1">
                         <div className="font-medium text-sm text-slate-900">
                           {criteria?.name}
+                          {sub && ` / ${sub.name}`}
                         </div>
                         <div className="text-xs text-slate-500">{grade.date}</div>
                       </div>
                       <div className="flex items-center gap-2">
                         <span className="font-semibold text-slate-700">
-                          {grade.points}/{criteria?.maxPoints}
+                          {grade.points}/{grade.maxPoints ?? sub?.maxPoints ?? criteria?.maxPoints}
                         </span>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleDeleteGrade(grade.id)}
-                          className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </Button>
+                        {!readOnly && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDeleteGrade(grade.id)}
+                            className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        )}
                       </div>
                     </div>
                   );
@@ -364,3 +719,12 @@ export function GradeDetailViewSheet({
     </Sheet>
   );
 }
+
+// 評価項目の集計ルールの表示用テキスト（例: 小項目 2件・最低 1件除外）
+function describeItemRules(criteria: EvaluationCriteria): string {
+  const parts: string[] = [];
+  if (criteria.subAssessments?.length) parts.push(`小項目 ${criteria.subAssessments.length}件`);
+  if (criteria.dropLowest) parts.push(`最低 ${criteria.dropLowest}件除外`);
+  if (criteria.bestOf) parts.push(`上位 ${criteria.bestOf}件のみ`);
+  return parts.join('・');
+}
@@ -0,0 +1,85 @@
+'use client';
+
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Subject } from '@/lib/types';
+import { GradeCalculationStrategy, DEFAULT_GRADE_STRATEGY } from '@/lib/gradeStrategy';
+import { buildGradeTrend } from '@/lib/gradeTrend';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+
+interface GradeTrendChartProps {
+  subject: Subject;
+  gradeStrategy?: GradeCalculationStrategy;
+}
+
+const CRITERIA_COLORS = ['var(--chart-1)', 'var(--chart-2)', 'var(--chart-3)', 'var(--chart-4)', 'var(--chart-5)'];
+
+/**
+ * 科目の成績推移
+ * 評価項目ごとの各成績（得点率）と、その時点の科目の成績を合格ラインと並べて表示する。
+ */
+export function GradeTrendChart({ subject, gradeStrategy = DEFAULT_GRADE_STRATEGY }: GradeTrendChartProps) {
+  const trend = buildGradeTrend(subject, gradeStrategy);
+
+  if (trend.length === 0) {
+    return <div className="text-center py-8 text-sm text-slate-500">成績を追加すると推移が表示されます</div>;
+  }
+
+  // 評価項目 ID は CSS 変数名に使えないことがあるので連番のキーに置き換える
+  const criteriaKeys = subject.evaluationCriteria.map((c, i) => ({ criteria: c, key: `criteria${i}` }));
+  const config: ChartConfig = {
+    grade: { label: '科目の成績', color: '#0f172a' },
+    ...Object.fromEntries(
+      criteriaKeys.map(({ criteria, key }, i) => [
+        key,
+        { label: criteria.name, color: CRITERIA_COLORS[i % CRITERIA_COLORS.length] },
+      ])
+    ),
+  };
+  const data = trend.map(point => ({
+    date: point.date,
+    grade: point.grade,
+    ...Object.fromEntries(criteriaKeys.map(({ criteria, key }) => [key, point.criteria[criteria.id]])),
+  }));
+
+  return (
+    <div className="space-y-2">
+      <ChartContainer config={config} className="aspect-auto h-64 w-full">
+        <LineChart data={data} margin={{ top: 8, right: 8, left: -16, bottom: 0 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="date" tickLine={false} axisLine={false} tickFormatter={(date: string) => date.slice(5)} />
+          <YAxis domain={[0, 100]} tickLine={false} axisLine={false} />
+          <ReferenceLine
+            y={subject.passingGrade}
+            stroke="#dc2626"
+            strokeDasharray="4 4"
+            label={{ value: `合格 ${subject.passingGrade}`, position: 'insideTopRight', fill: '#dc2626', fontSize: 11 }}
+          />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <ChartLegend content={<ChartLegendContent />} />
+          {criteriaKeys.map(({ key }) => (
+            <Line
+              key={key}
+              dataKey={key}
+              type="monotone"
+              stroke={`var(--color-${key})`}
+              strokeWidth={1.5}
+              dot={{ r: 3 }}
+              connectNulls
+            />
+          ))}
+          <Line dataKey="grade" type="stepAfter" stroke="var(--color-grade)" strokeWidth={2.5} dot={false} />
+        </LineChart>
+      </ChartContainer>
+      <div className="text-xs text-slate-500">
+        評価項目の線は各成績の得点率、太線はその日までの成績で計算した科目の成績です
+      </div>
+    </div>
+  );
+}
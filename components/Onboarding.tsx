@@ -105,6 +105,7 @@ export function Onboarding({ onComplete }: OnboardingProps) {
           schoolId: availableSchools.find((s) => s.id === selectedSchoolId)?.syllabusId ?? '20',
           department: schoolInfo.department,
           grade: schoolInfo.grade,
+          semester: schoolInfo.semester,
           year: schoolInfo.academicYear,
         }),
       });
@@ -133,7 +134,9 @@ export function Onboarding({ onComplete }: OnboardingProps) {
         const parts: string[] = [];
         if (urlData.error) parts.push(urlData.error);
         if (urlData.scrapedUrl) parts.push(`対象URL: ${urlData.scrapedUrl}`);
-        if (typeof urlData.totalLinks === 'number')
+        if (urlData.filtered)
+          parts.push(`${schoolInfo.grade}年（${schoolInfo.semester === 'fall' ? '後期' : '前期'}）に開講される科目がありません`);
+        else if (typeof urlData.totalLinks === 'number')
           parts.push(`取得リンク数: ${urlData.totalLinks}件（シラバスURL: 0件）`);
         if (!parts.length) {
           parts.push(
@@ -1,9 +1,10 @@
 'use client';
 
 import { useState } from 'react';
-import { Subject, EvaluationCriteria, Grade } from '@/lib/types';
+import { Subject, EvaluationCriteria, Grade, SubAssessment } from '@/lib/types';
 import { storage } from '@/lib/storage';
-import { gradeCalculator } from '@/lib/gradeCalculator';
+import { GradeCalculationStrategy, DEFAULT_GRADE_STRATEGY } from '@/lib/gradeStrategy';
+import { getActiveTerm } from '@/lib/termArchive';
 import {
   Dialog,
   DialogContent,
@@ -19,6 +20,7 @@ import { Card } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Trash2, Plus, Edit2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { UndoToastAction } from './UndoToastAction';
 
 interface SubjectModalProps {
   subject: Subject | null;
@@ -27,11 +29,21 @@ interface SubjectModalProps {
   onSave: () => void;
   defaultDayOfWeek?: number;
   defaultPeriod?: number;
+  gradeStrategy?: GradeCalculationStrategy;
 }
 
-export function SubjectModal({ subject, isOpen, onClose, onSave, defaultDayOfWeek, defaultPeriod }: SubjectModalProps) {
+export function SubjectModal({
+  subject,
+  isOpen,
+  onClose,
+  onSave,
+  defaultDayOfWeek,
+  defaultPeriod,
+  gradeStrategy = DEFAULT_GRADE_STRATEGY,
+}: SubjectModalProps) {
   const { toast } = useToast();
   const config = storage.getConfig();
+  const activeTerm = getActiveTerm(config);
   const [formData, setFormData] = useState<Subject>(
     subject || {
       id: crypto.randomUUID(),
@@ -54,11 +66,23 @@ export function SubjectModal({ subject, isOpen, onClose, onSave, defaultDayOfWee
       classesPerSemester: config.classesPerSemester,
       dayOfWeek: defaultDayOfWeek ?? 0,
       period: defaultPeriod ?? 1,
-      semester: config.schoolInfo.semester,
-      academicYear: config.schoolInfo.academicYear,
+      semester: activeTerm.semester,
+      academicYear: activeTerm.academicYear,
     }
   );
 
+  const updateCriteria = (idx: number, changes: Partial<EvaluationCriteria>) => {
+    const newCriteria = [...formData.evaluationCriteria];
+    newCriteria[idx] = { ...newCriteria[idx], ...changes };
+    setFormData({ ...formData, evaluationCriteria: newCriteria });
+  };
+
+  const updateSubAssessment = (idx: number, subIdx: number, changes: Partial<SubAssessment>) => {
+    const subAssessments = [...(formData.evaluationCriteria[idx].subAssessments ?? [])];
+    subAssessments[subIdx] = { ...subAssessments[subIdx], ...changes };
+    updateCriteria(idx, { subAssessments });
+  };
+
   const handleSave = () => {
     // Validate weights sum to 100
     const totalWeight = formData.evaluationCriteria.reduce((sum, c) => sum + c.weight, 0);
@@ -81,7 +105,11 @@ export function SubjectModal({ subject, isOpen, onClose, onSave, defaultDayOfWee
     }
 
     if (subject) {
-      storage.updateSubject(subject.id, formData);
+      // subject carries the calendar-based class count for display only, so save just the edited fields
+      const changes = Object.fromEntries(
+        Object.entries(formData).filter(([key, value]) => value !== subject[key as keyof Subject])
+      ) as Partial<Subject>;
+      storage.updateSubject(subject.id, changes);
     } else {
       storage.addSubject(formData);
     }
@@ -101,6 +129,7 @@ export function SubjectModal({ subject, isOpen, onClose, onSave, defaultDayOfWee
       toast({
         title: '成功',
         description: '教科を削除しました',
+        action: <UndoToastAction />,
       });
       onSave();
       onClose();
@@ -108,7 +137,7 @@ export function SubjectModal({ subject, isOpen, onClose, onSave, defaultDayOfWee
   };
 
   const status = formData.evaluationCriteria.length > 0
-    ? gradeCalculator.getGradeStatus(formData)
+    ? gradeStrategy.getGradeStatus(formData)
     : { value: 0, status: 'safe', predictedFinal: 0, needsToPass: 0, absenceWarning: false };
 
   return (
@@ -304,6 +333,101 @@ export function SubjectModal({ subject, isOpen, onClose, onSave, defaultDayOfWee
                       </div>
                     </div>
                   </div>
+
+                  {/* 集計ルール（小テストの最低点除外など） */}
+                  <div className="grid grid-cols-2 gap-3 mt-3">
+                    <div>
+                      <Label className="text-xs">最低点を除外（件）</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={criteria.dropLowest ?? ''}
+                        onChange={e => updateCriteria(idx, { dropLowest: parseInt(e.target.value) || undefined })}
+                        placeholder="なし"
+                        className="mt-1"
+                      />
+                    </div>
+                    <div>
+                      <Label className="text-xs">上位のみ採用（件）</Label>
+                      <Input
+                        type="number"
+                        min="1"
+                        value={criteria.bestOf ?? ''}
+                        onChange={e => updateCriteria(idx, { bestOf: parseInt(e.target.value) || undefined })}
+                        placeholder="すべて"
+                        className="mt-1"
+                      />
+                    </div>
+                  </div>
+
+                  {/* 小項目（例: 試験 → 中間・期末） */}
+                  <div className="mt-3 space-y-2">
+                    {(criteria.subAssessments ?? []).map((sub, subIdx) => (
+                      <div key={sub.id} className="grid grid-cols-3 gap-2 items-end pl-3 border-l-2 border-slate-200">
+                        <div>
+                          <Label className="text-xs">小項目</Label>
+                          <Input
+                            value={sub.name}
+                            onChange={e => updateSubAssessment(idx, subIdx, { name: e.target.value })}
+                            placeholder="例: 前期中間"
+                            className="mt-1"
+                          />
+                        </div>
+                        <div>
+                          <Label className="text-xs">重み</Label>
+                          <Input
+                            type="number"
+                            min="0"
+                            value={sub.weight}
+                            onChange={e => updateSubAssessment(idx, subIdx, { weight: parseInt(e.target.value) || 0 })}
+                            className="mt-1"
+                          />
+                        </div>
+                        <div>
+                          <Label className="text-xs">最大得点</Label>
+                          <div className="flex gap-2">
+                            <Input
+                              type="number"
+                              min="1"
+                              value={sub.maxPoints ?? ''}
+                              onChange={e =>
+                                updateSubAssessment(idx, subIdx, { maxPoints: parseInt(e.target.value) || undefined })
+                              }
+                              placeholder={String(criteria.maxPoints)}
+                              className="mt-1 flex-1"
+                            />
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() =>
+                                updateCriteria(idx, {
+                                  subAssessments: criteria.subAssessments!.filter((_, i) => i !== subIdx),
+                                })
+                              }
+                              className="mt-1"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        updateCriteria(idx, {
+                          subAssessments: [
+                            ...(criteria.subAssessments ?? []),
+                            { id: crypto.randomUUID(), name: '新しい小項目', weight: 1 },
+                          ],
+                        })
+                      }
+                    >
+                      <Plus className="w-4 h-4 mr-1" />
+                      小項目を追加
+                    </Button>
+                  </div>
                 </Card>
               ))}
             </div>
@@ -383,7 +507,7 @@ export function SubjectModal({ subject, isOpen, onClose, onSave, defaultDayOfWee
               <div className="text-xs text-slate-600">予測</div>
             </div>
             <div>
-              <div className="text-sm font-semibold text-slate-700">{isNaN(status.needsToPass) ? 0 : status.needsToPass}</div>
+              <div className="text-sm font-semibold text-slate-700">{isNaN(status.needsToPass) ? 0 : Number.isFinite(status.needsToPass) ? status.needsToPass : '到達不可'}</div>
               <div className="text-xs text-slate-600">必要点 (最終)</div>
             </div>
             <div>
@@ -0,0 +1,57 @@
+'use client';
+
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Term } from '@/lib/types';
+import { GradeCalculationStrategy, DEFAULT_GRADE_STRATEGY } from '@/lib/gradeStrategy';
+import { buildTermGPAHistory } from '@/lib/gradeTrend';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import { Card } from '@/components/ui/card';
+
+interface TermGPAChartProps {
+  terms: Term[];
+  gradeStrategy?: GradeCalculationStrategy;
+}
+
+const chartConfig = {
+  gpa: { label: '学期GPA', color: '#9333ea' },
+  cumulativeGPA: { label: '累積GPA', color: '#4f46e5' },
+} satisfies ChartConfig;
+
+/** アーカイブを含む学期ごとの GPA の推移（2学期以上あるときだけ表示） */
+export function TermGPAChart({ terms, gradeStrategy = DEFAULT_GRADE_STRATEGY }: TermGPAChartProps) {
+  const history = buildTermGPAHistory(terms, gradeStrategy);
+  if (history.length < 2) return null;
+
+  const scale = gradeStrategy.gradingScale;
+  const maxGP = scale.gpFormula?.max ?? Math.max(...scale.levels.map(level => level.gp));
+
+  return (
+    <Card className="p-4">
+      <h2 className="font-semibold text-slate-900 text-sm mb-2">GPAの推移</h2>
+      <ChartContainer config={chartConfig} className="aspect-auto h-48 w-full">
+        <LineChart data={history} margin={{ top: 8, right: 8, left: -16, bottom: 0 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="shortLabel" tickLine={false} axisLine={false} />
+          <YAxis domain={[0, maxGP]} tickLine={false} axisLine={false} />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) => payload?.[0]?.payload?.label}
+              />
+            }
+          />
+          <ChartLegend content={<ChartLegendContent />} />
+          <Line dataKey="gpa" stroke="var(--color-gpa)" strokeWidth={2} dot={{ r: 3 }} />
+          <Line dataKey="cumulativeGPA" stroke="var(--color-cumulativeGPA)" strokeWidth={2} strokeDasharray="4 4" dot={false} />
+        </LineChart>
+      </ChartContainer>
+    </Card>
+  );
+}
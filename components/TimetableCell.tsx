@@ -3,7 +3,8 @@
 import { useState } from 'react';
 import { Subject } from '@/lib/types';
 import { storage } from '@/lib/storage';
-import { gradeCalculatorV2 } from '@/lib/gradeCalculatorV2';
+import { GradeCalculationStrategy, DEFAULT_GRADE_STRATEGY } from '@/lib/gradeStrategy';
+import { ScoreDistributions, estimatePassProbability } from '@/lib/passProbability';
 import { Button } from '@/components/ui/button';
 import { AlertCircle, Plus } from 'lucide-react';
 
@@ -13,6 +14,11 @@ interface TimetableCellProps {
   dayOfWeek: number;
   onSelect: (subject: Subject | null) => void;
   onAddSubject?: () => void;
+  gradeStrategy?: GradeCalculationStrategy;
+  /** 渡されたときは合格確率を表示する */
+  scoreDistributions?: ScoreDistributions;
+  /** 締め済みの学期では欠課を付けたり空きコマに科目を追加したりできない */
+  readOnly?: boolean;
 }
 
 const DAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
@@ -23,10 +29,17 @@ export function TimetableCell({
   dayOfWeek,
   onSelect,
   onAddSubject,
+  gradeStrategy = DEFAULT_GRADE_STRATEGY,
+  scoreDistributions,
+  readOnly = false,
 }: TimetableCellProps) {
   const [isToggling, setIsToggling] = useState(false);
 
   if (!subject) {
+    // 締め済みの学期には科目を追加できない
+    if (readOnly) {
+      return <div className="w-full h-24 rounded-lg border-2 border-dashed border-slate-200" />;
+    }
     return (
       <Button
         variant="outline"
@@ -38,10 +51,13 @@ export function TimetableCell({
     );
   }
 
-  const status = gradeCalculatorV2.getGradeStatus(subject);
+  const status = gradeStrategy.getGradeStatus(subject);
+  const passEstimate = scoreDistributions
+    ? estimatePassProbability(subject, scoreDistributions, gradeStrategy)
+    : null;
   
   // Auto-assign background color based on status and absences (intelligent coloring)
-  const intelligentColor = gradeCalculatorV2.getIntelligentColor(status);
+  const intelligentColor = gradeStrategy.getIntelligentColor(status);
   let bgColor = 'bg-blue-50 border-blue-200';
   let textColor = 'text-blue-700';
   let iconColor = 'text-blue-600';
@@ -63,13 +79,7 @@ export function TimetableCell({
   const handleAbsenceToggle = async (e: React.MouseEvent) => {
     e.stopPropagation();
     setIsToggling(true);
-    const config = storage.getConfig();
-    const idx = config.timetable.subjects.findIndex(s => s.id === subject.id);
-    if (idx !== -1) {
-      const updated = { ...config.timetable.subjects[idx] };
-      updated.absences = (updated.absences || 0) + 1;
-      storage.updateSubject(subject.id, updated);
-    }
+    storage.addAbsenceRecord(subject.id);
     setIsToggling(false);
   };
 
@@ -94,6 +104,15 @@ export function TimetableCell({
       <div className="w-full flex items-center justify-between gap-2">
         <div className={`text-lg font-bold ${textColor}`}>
           {status.value || 0}
+          <span className="ml-1 text-xs font-semibold">{status.letterGrade}</span>
+          {passEstimate?.basis === 'estimated' && (
+            <span
+              className="ml-1 text-xs font-normal text-slate-500"
+              title={`合格確率（期待される最終成績 ${passEstimate.expectedGrade}点）`}
+            >
+              合格{Math.round(passEstimate.probability * 100)}%
+            </span>
+          )}
         </div>
         {intelligentColor === 'red' && (
           <AlertCircle className={`w-4 h-4 ${iconColor} flex-shrink-0 animate-pulse`} />
@@ -101,14 +120,16 @@ export function TimetableCell({
       </div>
       
       {/* Absence toggle button */}
-      <button
-        onClick={handleAbsenceToggle}
-        disabled={isToggling}
-        className="absolute bottom-1 right-1 text-xs px-2 py-1 bg-slate-200 hover:bg-slate-300 rounded text-slate-700 opacity-0 group-hover:opacity-100 transition-opacity disabled:opacity-50"
-        title="欠席"
-      >
-        欠{subject.absences || 0}
-      </button>
+      {!readOnly && (
+        <button
+          onClick={handleAbsenceToggle}
+          disabled={isToggling}
+          className="absolute bottom-1 right-1 text-xs px-2 py-1 bg-slate-200 hover:bg-slate-300 rounded text-slate-700 opacity-0 group-hover:opacity-100 transition-opacity disabled:opacity-50"
+          title="欠席"
+        >
+          欠{gradeStrategy.calculateEffectiveAbsences(subject)}
+        </button>
+      )}
     </div>
   );
 }
@@ -6,6 +6,8 @@ import { TimetableCell } from './TimetableCell';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { storage } from '@/lib/storage';
+import { GradeCalculationStrategy } from '@/lib/gradeStrategy';
+import { ScoreDistributions } from '@/lib/passProbability';
 import { ChevronDown } from 'lucide-react';
 
 interface TimetableGridProps {
@@ -14,6 +16,10 @@ interface TimetableGridProps {
   onSelectSubject: (subject: Subject) => void;
   onAddSubject?: (dayOfWeek: number, period: number) => void;
   unscheduledSubjects?: Subject[];
+  gradeStrategy?: GradeCalculationStrategy;
+  scoreDistributions?: ScoreDistributions;
+  /** 締め済みの学期（セルから欠課を付けたり科目を割り当てたりできない） */
+  readOnly?: boolean;
 }
 
 const DAYS = ['月曜日', '火曜日', '水曜日', '木曜日', '金曜日'];
@@ -25,6 +31,9 @@ export function TimetableGrid({
   onSelectSubject,
   onAddSubject,
   unscheduledSubjects = [],
+  gradeStrategy,
+  scoreDistributions,
+  readOnly,
 }: TimetableGridProps) {
   const [selectedCellDayOfWeek, setSelectedCellDayOfWeek] = useState<number | null>(null);
   const [selectedCellPeriod, setSelectedCellPeriod] = useState<number | null>(null);
@@ -40,6 +49,7 @@ export function TimetableGrid({
   });
 
   const handleAddSubjectClick = (dayOfWeek: number, period: number) => {
+    if (readOnly) return;
     setSelectedCellDayOfWeek(dayOfWeek);
     setSelectedCellPeriod(period);
     if (unscheduledSubjects.length > 0) {
@@ -101,6 +111,9 @@ export function TimetableGrid({
                       subject={subject}
                       period={period}
                       dayOfWeek={dayOfWeek}
+                      gradeStrategy={gradeStrategy}
+                      scoreDistributions={scoreDistributions}
+                      readOnly={readOnly}
                       onSelect={(s) => s && onSelectSubject(s)}
                       onAddSubject={() => handleAddSubjectClick(dayOfWeek, period)}
                     />
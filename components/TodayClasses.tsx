@@ -0,0 +1,163 @@
+'use client';
+
+import { useState } from 'react';
+import { AbsenceKind, AcademicCalendar, Subject } from '@/lib/types';
+import { storage } from '@/lib/storage';
+import { GradeCalculationStrategy, DEFAULT_GRADE_STRATEGY } from '@/lib/gradeStrategy';
+import { ABSENCE_KIND_LABELS, getAbsenceKind } from '@/lib/absencePolicy';
+import { applyAttendanceMark, getClassesOnDate, toDateKey } from '@/lib/attendanceCalendar';
+import { getClassesOnCalendarDate, getExamPeriod, getHoliday } from '@/lib/academicCalendar';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { AlertCircle, ChevronLeft, ChevronRight, ClipboardCheck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+interface TodayClassesProps {
+  subjects: Subject[];
+  gradeStrategy?: GradeCalculationStrategy;
+  /** 年間行事予定（休日・試験期間・振替授業を反映する） */
+  calendar?: AcademicCalendar;
+  /** 締め済みの学期では出欠を付けられない */
+  readOnly?: boolean;
+}
+
+type AttendanceMark = AbsenceKind | null; // null = 出席
+
+const MARK_OPTIONS: { mark: AttendanceMark; label: string; activeClass: string }[] = [
+  { mark: null, label: '出席', activeClass: 'bg-blue-600 text-white hover:bg-blue-700' },
+  { mark: 'absent', label: ABSENCE_KIND_LABELS.absent, activeClass: 'bg-red-600 text-white hover:bg-red-700' },
+  { mark: 'late', label: ABSENCE_KIND_LABELS.late, activeClass: 'bg-amber-500 text-white hover:bg-amber-600' },
+  { mark: 'official', label: ABSENCE_KIND_LABELS.official, activeClass: 'bg-green-600 text-white hover:bg-green-700' },
+];
+
+/**
+ * 今日の授業の出欠チェックイン
+ * 時間割（dayOfWeek / period）から今日のコマを並べ、1タップで出席・欠課・遅刻・公欠を記録する。
+ */
+export function TodayClasses({
+  subjects,
+  gradeStrategy = DEFAULT_GRADE_STRATEGY,
+  calendar,
+  readOnly = false,
+}: TodayClassesProps) {
+  const { toast } = useToast();
+  const [date, setDate] = useState(() => new Date());
+
+  const dateKey = toDateKey(date);
+  const isToday = dateKey === toDateKey(new Date());
+  const classes = calendar ? getClassesOnCalendarDate(subjects, calendar, date) : getClassesOnDate(subjects, date);
+  const dayOff = calendar ? getHoliday(calendar, dateKey) ?? getExamPeriod(calendar, dateKey) : null;
+
+  const shiftDate = (days: number) => {
+    const next = new Date(date);
+    next.setDate(next.getDate() + days);
+    setDate(next);
+  };
+
+  // その日の記録から現在の出欠を読む（記録なし = 出席）
+  const getCurrentMark = (subject: Subject): AttendanceMark => {
+    const record = subject.absenceRecords?.find(r => r.date === dateKey);
+    return record ? getAbsenceKind(record) : null;
+  };
+
+  // この出欠を付けると欠課上限を超えるか
+  const wouldExceedLimit = (subject: Subject, mark: AttendanceMark): boolean => {
+    if (mark === getCurrentMark(subject)) return false;
+    const limit = gradeStrategy.calculateAbsenceLimit(subject);
+    const before = gradeStrategy.calculateEffectiveAbsences(subject);
+    const after = gradeStrategy.calculateEffectiveAbsences(applyAttendanceMark(subject, dateKey, mark));
+    return after > limit && after > before;
+  };
+
+  const handleMark = (subject: Subject, mark: AttendanceMark) => {
+    if (readOnly || mark === getCurrentMark(subject)) return;
+
+    const exceeds = wouldExceedLimit(subject, mark);
+    storage.markAttendance(subject.id, dateKey, mark);
+
+    if (exceeds) {
+      toast({
+        title: '欠課上限を超えました',
+        description: `${subject.name} は欠課上限（${gradeStrategy.calculateAbsenceLimit(subject)}）を超えています`,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card className="p-4 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+          <ClipboardCheck className="w-5 h-5 text-blue-600" />
+          {isToday ? '今日の授業' : 'この日の授業'}
+        </h2>
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="sm" onClick={() => shiftDate(-1)} aria-label="前の日">
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <button
+            type="button"
+            onClick={() => setDate(new Date())}
+            className="text-sm text-slate-700 px-2 hover:underline"
+            title="今日に戻る"
+          >
+            {date.toLocaleDateString('ja-JP', { month: 'long', day: 'numeric', weekday: 'short' })}
+          </button>
+          <Button variant="ghost" size="sm" onClick={() => shiftDate(1)} aria-label="次の日">
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {classes.length === 0 ? (
+        <div className="text-center py-4 text-sm text-slate-500">
+          {dayOff ? `${dayOff.name}のため授業はありません` : 'この日は授業がありません'}
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {classes.map(subject => {
+            const current = getCurrentMark(subject);
+            const remaining = gradeStrategy.calculateRemainingAttendance(subject);
+            const absentWouldExceed = wouldExceedLimit(subject, 'absent');
+
+            return (
+              <div
+                key={subject.id}
+                className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-3 bg-slate-50 rounded border border-slate-200"
+              >
+                <div className="flex-1">
+                  <div className="text-sm font-semibold text-slate-900">
+                    {subject.period}限 {subject.name}
+                  </div>
+                  <div className={`text-xs flex items-center gap-1 ${absentWouldExceed ? 'text-red-600' : 'text-slate-500'}`}>
+                    {absentWouldExceed && <AlertCircle className="w-3 h-3" />}
+                    {absentWouldExceed ? '欠課にすると上限超過' : `欠課できるのはあと ${remaining}`}
+                  </div>
+                </div>
+                <div className="flex gap-1">
+                  {MARK_OPTIONS.map(option => {
+                    const active = option.mark === current;
+                    const exceeds = !active && wouldExceedLimit(subject, option.mark);
+                    return (
+                      <Button
+                        key={option.label}
+                        variant={active ? 'default' : 'outline'}
+                        size="sm"
+                        disabled={readOnly}
+                        onClick={() => handleMark(subject, option.mark)}
+                        className={`${active ? option.activeClass : ''} ${exceeds ? 'border-red-400 text-red-700' : ''}`}
+                        title={exceeds ? 'この記録で欠課上限を超えます' : undefined}
+                      >
+                        {option.label}
+                      </Button>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+}
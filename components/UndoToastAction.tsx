@@ -0,0 +1,13 @@
+'use client';
+
+import { storage } from '@/lib/storage';
+import { ToastAction } from '@/components/ui/toast';
+
+/** 削除などの toast に付ける「元に戻す」ボタン */
+export function UndoToastAction() {
+  return (
+    <ToastAction altText="元に戻す" onClick={() => storage.undo()}>
+      元に戻す
+    </ToastAction>
+  );
+}
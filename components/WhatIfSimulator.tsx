@@ -0,0 +1,266 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { EvaluationCriteria, Subject, WhatIfScenario } from '@/lib/types';
+import { GradeCalculationStrategy, DEFAULT_GRADE_STRATEGY } from '@/lib/gradeStrategy';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card } from '@/components/ui/card';
+import { FlaskConical, RotateCcw, Save, Trash2 } from 'lucide-react';
+
+interface WhatIfSimulatorProps {
+  subject: Subject;
+  /** GPA 差分の計算に使う同じ学期の科目（subject 自身を含む） */
+  termSubjects: Subject[];
+  gradeStrategy?: GradeCalculationStrategy;
+  onSaveScenarios: (scenarios: WhatIfScenario[]) => void;
+}
+
+/**
+ * 「期末で50点取ったら合格できる？」を試すためのシミュレーター
+ * 入力した仮の点数は保存せず、その場で getGradeStatus を再計算する。
+ */
+export function WhatIfSimulator({
+  subject,
+  termSubjects,
+  gradeStrategy = DEFAULT_GRADE_STRATEGY,
+  onSaveScenarios,
+}: WhatIfSimulatorProps) {
+  // criteriaId -> 入力中の文字列（空欄は実際の成績を使う）
+  const [inputs, setInputs] = useState<Record<string, string>>({});
+  const [scenarioName, setScenarioName] = useState('');
+
+  useEffect(() => {
+    setInputs({});
+    setScenarioName('');
+  }, [subject.id]);
+
+  const scores = parseScores(inputs, subject);
+  const hasInput = Object.keys(scores).length > 0;
+  const scenarios = subject.whatIfScenarios ?? [];
+
+  const current = gradeStrategy.getGradeStatus(subject);
+  const simulated = simulate(subject, scores, termSubjects, gradeStrategy);
+
+  const handleSaveScenario = () => {
+    if (!hasInput) return;
+    const scenario: WhatIfScenario = {
+      id: crypto.randomUUID(),
+      name: scenarioName.trim() || `シナリオ ${scenarios.length + 1}`,
+      scores,
+      createdAt: new Date().toISOString(),
+    };
+    onSaveScenarios([...scenarios, scenario]);
+    setScenarioName('');
+  };
+
+  const handleLoadScenario = (scenario: WhatIfScenario) => {
+    setInputs(
+      Object.fromEntries(Object.entries(scenario.scores).map(([id, points]) => [id, String(points)]))
+    );
+  };
+
+  const handleDeleteScenario = (scenarioId: string) => {
+    onSaveScenarios(scenarios.filter(s => s.id !== scenarioId));
+  };
+
+  if (subject.finalGrade) {
+    return (
+      <Card className="p-4">
+        <h3 className="font-semibold text-slate-900 mb-2 flex items-center gap-2">
+          <FlaskConical className="w-5 h-5 text-slate-500" />
+          成績シミュレーター
+        </h3>
+        <div className="text-sm text-slate-500">この科目の成績は学期締めで確定済みです</div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold text-slate-900 flex items-center gap-2">
+          <FlaskConical className="w-5 h-5 text-indigo-600" />
+          成績シミュレーター
+        </h3>
+        {hasInput && (
+          <Button variant="ghost" size="sm" onClick={() => setInputs({})}>
+            <RotateCcw className="w-4 h-4 mr-1" />
+            リセット
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {subject.evaluationCriteria.map(criteria => (
+          <div key={criteria.id} className="flex items-center gap-3">
+            <Label className="text-sm flex-1">
+              {criteria.name} ({criteria.weight}%)
+            </Label>
+            <Input
+              type="number"
+              min="0"
+              max={criteria.maxPoints}
+              value={inputs[criteria.id] ?? ''}
+              onChange={e => setInputs({ ...inputs, [criteria.id]: e.target.value })}
+              placeholder={formatCurrentAverage(subject, criteria, gradeStrategy)}
+              className="w-24"
+            />
+            <span className="text-xs text-slate-500 w-12">/ {criteria.maxPoints}点</span>
+          </div>
+        ))}
+        {subject.evaluationCriteria.length === 0 && (
+          <div className="text-sm text-slate-500">評価基準が登録されていません</div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 mt-4 p-3 bg-indigo-50 border border-indigo-200 rounded">
+        <div>
+          <div className="text-xs text-slate-600">成績</div>
+          <div className="text-lg font-bold text-slate-900">
+            {simulated.status.value}
+            <span className="text-xs font-normal text-slate-500 ml-1">({current.value})</span>
+          </div>
+        </div>
+        <div>
+          <div className="text-xs text-slate-600">判定</div>
+          <div className={`text-lg font-bold ${simulated.status.canPass ? 'text-green-700' : 'text-red-700'}`}>
+            {gradeStrategy.getStatusLabel(simulated.status)}
+          </div>
+          <div className="text-xs text-slate-500">
+            評語 {simulated.status.letterGrade} ・ GP {simulated.status.gpa.toFixed(1)}
+          </div>
+        </div>
+        <div>
+          <div className="text-xs text-slate-600">学期GPA</div>
+          <div className="text-lg font-bold text-slate-900">{simulated.termGPA.toFixed(2)}</div>
+          <div className={`text-xs font-semibold ${deltaClassName(simulated.gpaDelta)}`}>
+            {formatDelta(simulated.gpaDelta)}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex gap-2 mt-4">
+        <Input
+          value={scenarioName}
+          onChange={e => setScenarioName(e.target.value)}
+          placeholder="シナリオ名（例: 期末50点）"
+          className="flex-1"
+        />
+        <Button onClick={handleSaveScenario} size="sm" disabled={!hasInput}>
+          <Save className="w-4 h-4 mr-1" />
+          保存
+        </Button>
+      </div>
+
+      {scenarios.length > 0 && (
+        <div className="mt-4 space-y-2">
+          <div className="text-sm font-medium text-slate-700">保存したシナリオ</div>
+          {scenarios.map(scenario => {
+            // 保存時ではなく現在の成績に対して再計算して比較する
+            const result = simulate(subject, scenario.scores, termSubjects, gradeStrategy);
+            return (
+              <div
+                key={scenario.id}
+                className="flex items-center justify-between p-2 bg-slate-50 rounded border border-slate-200"
+              >
+                <button
+                  type="button"
+                  onClick={() => handleLoadScenario(scenario)}
+                  className="flex-1 text-left"
+                  title="クリックで入力欄に読み込む"
+                >
+                  <div className="text-sm font-medium text-slate-900">{scenario.name}</div>
+                  <div className="text-xs text-slate-500">
+                    {describeScores(subject, scenario.scores)}
+                  </div>
+                </button>
+                <div className="flex items-center gap-3">
+                  <div className="text-right">
+                    <div className="text-sm font-semibold text-slate-900">
+                      {result.status.value}点 ・ {result.status.letterGrade}
+                    </div>
+                    <div className={`text-xs ${deltaClassName(result.gpaDelta)}`}>
+                      GPA {formatDelta(result.gpaDelta)}
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDeleteScenario(scenario.id)}
+                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Card>
+  );
+}
+
+// ─────────────────────────────────────────────
+// 計算ヘルパー
+// ─────────────────────────────────────────────
+
+/** 入力欄の文字列を点数に変換（空欄・不正値は除外、0〜maxPoints に丸める） */
+function parseScores(inputs: Record<string, string>, subject: Subject): Record<string, number> {
+  const scores: Record<string, number> = {};
+  for (const criteria of subject.evaluationCriteria) {
+    const raw = inputs[criteria.id];
+    if (raw === undefined || raw.trim() === '') continue;
+    const points = Number(raw);
+    if (isNaN(points)) continue;
+    scores[criteria.id] = Math.min(criteria.maxPoints, Math.max(0, points));
+  }
+  return scores;
+}
+
+/** 仮の点数を当てはめた科目のステータスと学期GPAの変化 */
+function simulate(
+  subject: Subject,
+  scores: Record<string, number>,
+  termSubjects: Subject[],
+  strategy: GradeCalculationStrategy
+) {
+  const hypothetical = strategy.applyHypotheticalScores(subject, scores);
+  const baseGPA = strategy.calculateGPA(termSubjects).totalGPA;
+  const termGPA = strategy.calculateGPA(termSubjects.map(s => (s.id === subject.id ? hypothetical : s))).totalGPA;
+
+  return {
+    status: strategy.getGradeStatus(hypothetical),
+    termGPA,
+    gpaDelta: termGPA - baseGPA,
+  };
+}
+
+function formatCurrentAverage(
+  subject: Subject,
+  criteria: EvaluationCriteria,
+  strategy: GradeCalculationStrategy
+): string {
+  const percent = strategy.calculateCriteriaPercent(subject, criteria);
+  if (percent === null) return '未入力';
+  return ((percent / 100) * criteria.maxPoints).toFixed(1);
+}
+
+function describeScores(subject: Subject, scores: Record<string, number>): string {
+  return subject.evaluationCriteria
+    .filter(c => scores[c.id] !== undefined)
+    .map(c => `${c.name} ${scores[c.id]}点`)
+    .join('・');
+}
+
+function formatDelta(delta: number): string {
+  if (Math.abs(delta) < 0.005) return '±0.00';
+  return `${delta > 0 ? '+' : ''}${delta.toFixed(2)}`;
+}
+
+function deltaClassName(delta: number): string {
+  if (Math.abs(delta) < 0.005) return 'text-slate-500';
+  return delta > 0 ? 'text-green-600' : 'text-red-600';
+}
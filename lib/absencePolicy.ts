@@ -0,0 +1,173 @@
+/**
+ * lib/absencePolicy.ts
+ *
+ * 欠課の数え方（欠課規程）
+ *
+ * 欠課数は subject.absences の生カウンタではなく、種類付きの AbsenceRecord から導出する。
+ *   - 公欠・忌引（および認可済みの欠席）は欠課数に含めない
+ *   - 遅刻・早退は N 回で欠課 1 回に換算する
+ *   - 90分授業を 2 単位時間として数えるなど、1コマあたりの単位時間数を設定できる
+ *
+ * 学校固有の規程は kosenList.ts の KosenSchool.absencePolicy で上書きする。
+ * 授業形態（講義 / 実験・実習）ごとに上限の割合などが異なるため ClassType 単位で解決する。
+ */
+
+import { AbsenceKind, AbsenceRecord, ClassType, Subject } from './types';
+import { getSchoolByName } from './kosenList';
+
+// ─────────────────────────────────────────────
+// 型定義
+// ─────────────────────────────────────────────
+
+export interface AbsencePolicy {
+  /** 欠課数に含めない種類（公欠・忌引など） */
+  excludedKinds: AbsenceKind[];
+  /** 認可済み（approved）の記録を種類に関係なく除外するか */
+  excludeApproved: boolean;
+  /** 遅刻・早退を何回で欠課 1 回とするか（0 なら数えない） */
+  lateToAbsence: number;
+  /** 1コマを何単位時間として数えるか（例: 90分授業 = 2） */
+  unitsPerClass: number;
+  /** 欠課上限 = 総単位時間 / limitDivisor（例: 講義 3、実験 10） */
+  limitDivisor: number;
+  /** 上限の端数処理 */
+  limitRounding: 'floor' | 'ceil';
+}
+
+export type AbsencePolicySet = Record<ClassType, AbsencePolicy>;
+
+/** 学校ごとの上書き設定（共通設定 + 授業形態ごとの差分） */
+export type SchoolAbsencePolicy = Partial<AbsencePolicy> & {
+  byClassType?: Partial<Record<ClassType, Partial<AbsencePolicy>>>;
+};
+
+export interface EffectiveAbsences {
+  /** 上限判定に使う欠課数（単位時間） */
+  effective: number;
+  /** 内訳（いずれもコマ数） */
+  absent: number;
+  late: number;
+  earlyLeave: number;
+  excluded: number;
+  /** 遅刻・早退から換算された欠課（コマ数） */
+  convertedFromLate: number;
+}
+
+const LECTURE_POLICY: AbsencePolicy = {
+  excludedKinds: ['official', 'bereavement'],
+  excludeApproved: true,
+  lateToAbsence: 3,
+  unitsPerClass: 1,
+  limitDivisor: 3,
+  limitRounding: 'floor',
+};
+
+/** 多くの高専の規程に沿った標準値（講義 1/3、実験・実習 1/10 で不可） */
+export const DEFAULT_ABSENCE_POLICIES: AbsencePolicySet = {
+  lecture: LECTURE_POLICY,
+  practical: { ...LECTURE_POLICY, limitDivisor: 10, limitRounding: 'ceil' },
+  experiment: { ...LECTURE_POLICY, limitDivisor: 10, limitRounding: 'ceil' },
+};
+
+export const ABSENCE_KIND_LABELS: Record<AbsenceKind, string> = {
+  absent: '欠課',
+  late: '遅刻',
+  'early-leave': '早退',
+  official: '公欠',
+  bereavement: '忌引',
+};
+
+// ─────────────────────────────────────────────
+// ルール解決
+// ─────────────────────────────────────────────
+
+/** 学校名から授業形態ごとの欠課規程を取得（未設定の項目は標準値） */
+export function getAbsencePolicies(schoolName: string): AbsencePolicySet {
+  const override = getSchoolByName(schoolName)?.absencePolicy;
+  if (!override) return DEFAULT_ABSENCE_POLICIES;
+
+  const { byClassType, ...common } = override;
+  const resolve = (classType: ClassType): AbsencePolicy => ({
+    ...DEFAULT_ABSENCE_POLICIES[classType],
+    ...common,
+    ...byClassType?.[classType],
+  });
+  return { lecture: resolve('lecture'), practical: resolve('practical'), experiment: resolve('experiment') };
+}
+
+// ─────────────────────────────────────────────
+// 計算
+// ─────────────────────────────────────────────
+
+/**
+ * 記録の種類
+ * kind 導入前の記録は reason の文字列（公欠・遅刻 など）から推定する
+ */
+export function getAbsenceKind(record: Pick<AbsenceRecord, 'kind' | 'reason'>): AbsenceKind {
+  if (record.kind) return record.kind;
+  switch (record.reason) {
+    case '公欠':
+      return 'official';
+    case '忌引':
+      return 'bereavement';
+    case '遅刻':
+      return 'late';
+    case '早退':
+      return 'early-leave';
+    default:
+      return 'absent';
+  }
+}
+
+/** 欠課数から除外される記録か（公欠・忌引・認可済み） */
+export function isExcludedAbsence(record: AbsenceRecord, policy: AbsencePolicy): boolean {
+  return policy.excludedKinds.includes(getAbsenceKind(record)) || (policy.excludeApproved && record.approved);
+}
+
+/**
+ * 種類付きの欠課記録から実効欠課数を求める
+ * 記録の無い手入力分（absences - 記録のコマ数合計）は通常の欠課として数える
+ */
+export function calculateEffectiveAbsences(
+  subject: Pick<Subject, 'absences' | 'absenceRecords'>,
+  policy: AbsencePolicy
+): EffectiveAbsences {
+  const records = subject.absenceRecords ?? [];
+  const recordedPeriods = records.reduce((sum, r) => sum + (r.periods ?? 1), 0);
+  const result: EffectiveAbsences = {
+    effective: 0,
+    absent: Math.max(0, (subject.absences || 0) - recordedPeriods),
+    late: 0,
+    earlyLeave: 0,
+    excluded: 0,
+    convertedFromLate: 0,
+  };
+
+  for (const record of records) {
+    const periods = record.periods ?? 1;
+    if (isExcludedAbsence(record, policy)) {
+      result.excluded += periods;
+      continue;
+    }
+    const kind = getAbsenceKind(record);
+    if (kind === 'late') result.late += periods;
+    else if (kind === 'early-leave') result.earlyLeave += periods;
+    else result.absent += periods;
+  }
+
+  if (policy.lateToAbsence > 0) {
+    result.convertedFromLate = Math.floor((result.late + result.earlyLeave) / policy.lateToAbsence);
+  }
+  result.effective = (result.absent + result.convertedFromLate) * policy.unitsPerClass;
+  return result;
+}
+
+/** 欠課上限（単位時間） */
+export function calculateAbsenceLimit(
+  subject: Pick<Subject, 'classesPerSemester'>,
+  policy: AbsencePolicy
+): number {
+  const totalUnits = (subject.classesPerSemester || 40) * policy.unitsPerClass;
+  const limit = totalUnits / policy.limitDivisor;
+  return policy.limitRounding === 'ceil' ? Math.ceil(limit) : Math.floor(limit);
+}
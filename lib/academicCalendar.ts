@@ -0,0 +1,228 @@
+/**
+ * lib/academicCalendar.ts
+ *
+ * 年間行事予定（学期の期間・休日・定期試験・振替授業）と授業日の生成
+ *
+ * classesPerSemester（単位数 × 15 の推定値）の代わりに、時間割の曜日と年間予定から
+ * 実際の授業日を列挙し、欠課上限や残り授業回数をその回数で計算する。
+ *
+ * 年間予定が保存されていない年度は createDefaultCalendar の既定値（目安）を使う。
+ * 学校固有の既定値は kosenList.ts の KosenSchool.calendarTemplate で上書きする。
+ */
+
+import { AcademicCalendar, AcademicYear, AppConfig, CalendarPeriod, SemesterType, Subject } from './types';
+import { getSchoolByName } from './kosenList';
+import { getActiveTerm } from './termArchive';
+import { getSchoolDayOfWeek, parseDateKey, toDateKey } from './attendanceCalendar';
+
+// ─────────────────────────────────────────────
+// 既定の年間予定
+// ─────────────────────────────────────────────
+
+/**
+ * 学校ごとの既定値（月日は "MM-DD"）
+ * 前期は開始年度内、後期の終了と冬季休業の後半は翌年として解釈する
+ */
+export interface CalendarTemplate {
+  springStart: string;
+  springEnd: string;
+  fallStart: string;
+  fallEnd: string;
+  summerBreak: { start: string; end: string };
+  winterBreak: { start: string; end: string };
+}
+
+export const DEFAULT_CALENDAR_TEMPLATE: CalendarTemplate = {
+  springStart: '04-08',
+  springEnd: '09-30',
+  fallStart: '10-01',
+  fallEnd: '03-10',
+  summerBreak: { start: '08-08', end: '09-23' },
+  winterBreak: { start: '12-24', end: '01-07' },
+};
+
+/** n 番目の月曜日（ハッピーマンデー） */
+function nthMonday(year: number, month: number, n: number): string {
+  const first = new Date(year, month - 1, 1);
+  const offset = (8 - first.getDay()) % 7;
+  return toDateKey(new Date(year, month - 1, 1 + offset + (n - 1) * 7));
+}
+
+/**
+ * 国民の祝日（目安）
+ * 春分・秋分は近似式、日曜と重なった祝日は翌日を振替休日にする
+ */
+export function getNationalHolidays(year: number): CalendarPeriod[] {
+  const day = (m: number, d: number) => toDateKey(new Date(year, m - 1, d));
+  const vernal = Math.floor(20.8431 + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4));
+  const autumnal = Math.floor(23.2488 + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4));
+
+  const holidays: [string, string][] = [
+    [day(1, 1), '元日'],
+    [nthMonday(year, 1, 2), '成人の日'],
+    [day(2, 11), '建国記念の日'],
+    [day(2, 23), '天皇誕生日'],
+    [day(3, vernal), '春分の日'],
+    [day(4, 29), '昭和の日'],
+    [day(5, 3), '憲法記念日'],
+    [day(5, 4), 'みどりの日'],
+    [day(5, 5), 'こどもの日'],
+    [nthMonday(year, 7, 3), '海の日'],
+    [day(8, 11), '山の日'],
+    [nthMonday(year, 9, 3), '敬老の日'],
+    [day(9, autumnal), '秋分の日'],
+    [nthMonday(year, 10, 2), 'スポーツの日'],
+    [day(11, 3), '文化の日'],
+    [day(11, 23), '勤労感謝の日'],
+  ];
+
+  const dates = new Set(holidays.map(([date]) => date));
+  for (const [date, name] of [...holidays]) {
+    const d = parseDateKey(date);
+    if (d.getDay() !== 0) continue;
+    // 振替休日: 次の祝日でない日
+    do d.setDate(d.getDate() + 1);
+    while (dates.has(toDateKey(d)));
+    dates.add(toDateKey(d));
+    holidays.push([toDateKey(d), `振替休日（${name}）`]);
+  }
+
+  return holidays.map(([date, name]) => ({ start: date, end: date, name }));
+}
+
+/** 年度の既定の年間予定（学期・長期休業・祝日） */
+export function createDefaultCalendar(academicYear: AcademicYear, schoolName: string = ''): AcademicCalendar {
+  const template = { ...DEFAULT_CALENDAR_TEMPLATE, ...getSchoolByName(schoolName)?.calendarTemplate };
+  const y = academicYear;
+
+  return {
+    academicYear,
+    terms: {
+      spring: { start: `${y}-${template.springStart}`, end: `${y}-${template.springEnd}` },
+      fall: { start: `${y}-${template.fallStart}`, end: `${y + 1}-${template.fallEnd}` },
+    },
+    holidays: [
+      { start: `${y}-${template.summerBreak.start}`, end: `${y}-${template.summerBreak.end}`, name: '夏季休業' },
+      { start: `${y}-${template.winterBreak.start}`, end: `${y + 1}-${template.winterBreak.end}`, name: '冬季休業' },
+      ...getNationalHolidays(y).filter(h => h.start >= `${y}-04-01`),
+      ...getNationalHolidays(y + 1).filter(h => h.start < `${y + 1}-04-01`),
+    ],
+    examPeriods: [],
+    substituteDays: [],
+  };
+}
+
+/** 保存済みの年間予定（無ければ既定値） */
+export function getCalendarForYear(
+  calendars: AcademicCalendar[],
+  academicYear: AcademicYear,
+  schoolName: string = ''
+): AcademicCalendar {
+  return calendars.find(c => c.academicYear === academicYear) ?? createDefaultCalendar(academicYear, schoolName);
+}
+
+// ─────────────────────────────────────────────
+// 日付の判定
+// ─────────────────────────────────────────────
+
+function inRange(date: string, range: { start: string; end: string }): boolean {
+  return date >= range.start && date <= range.end;
+}
+
+/** 休日・休業期間の名前（授業がある日は null） */
+export function getHoliday(calendar: AcademicCalendar, date: string): CalendarPeriod | null {
+  return calendar.holidays.find(h => inRange(date, h)) ?? null;
+}
+
+/** 定期試験期間の名前（試験期間外は null） */
+export function getExamPeriod(calendar: AcademicCalendar, date: string): CalendarPeriod | null {
+  return calendar.examPeriods.find(e => inRange(date, e)) ?? null;
+}
+
+/** その日の学期（学期外は null） */
+export function getSemesterOnDate(calendar: AcademicCalendar, date: string): SemesterType | null {
+  if (inRange(date, calendar.terms.spring)) return 'spring';
+  if (inRange(date, calendar.terms.fall)) return 'fall';
+  return null;
+}
+
+/**
+ * その日に行われる時間割の曜日（0 = 月曜）
+ * 学期外・休日・試験期間は null。振替授業日は祝日授業を含めて振替元の曜日
+ */
+export function getTimetableDayOfWeek(calendar: AcademicCalendar, date: Date): number | null {
+  const key = toDateKey(date);
+  if (!getSemesterOnDate(calendar, key)) return null;
+
+  const substitute = calendar.substituteDays.find(s => s.date === key);
+  if (substitute) return substitute.followsDayOfWeek;
+  if (getHoliday(calendar, key) || getExamPeriod(calendar, key)) return null;
+
+  const dayOfWeek = getSchoolDayOfWeek(date);
+  return dayOfWeek >= 5 ? null : dayOfWeek; // 土日は授業なし
+}
+
+/** 年間予定上、その日に授業がある科目（時限順）。振替授業日は振替元の曜日の科目 */
+export function getClassesOnCalendarDate<T extends Pick<Subject, 'dayOfWeek' | 'period'>>(
+  subjects: T[],
+  calendar: AcademicCalendar,
+  date: Date
+): T[] {
+  const dayOfWeek = getTimetableDayOfWeek(calendar, date);
+  if (dayOfWeek === null) return [];
+  return subjects
+    .filter(s => s.period !== undefined && s.dayOfWeek === dayOfWeek)
+    .sort((a, b) => (a.period ?? 0) - (b.period ?? 0));
+}
+
+// ─────────────────────────────────────────────
+// 授業日の生成
+// ─────────────────────────────────────────────
+
+/** 科目の授業日一覧（"YYYY-MM-DD"、日付順）。曜日未設定の科目は空 */
+export function generateMeetings(
+  subject: Pick<Subject, 'dayOfWeek' | 'semester'>,
+  calendar: AcademicCalendar
+): string[] {
+  if (subject.dayOfWeek === undefined) return [];
+
+  const range = calendar.terms[subject.semester];
+  const meetings: string[] = [];
+  const date = parseDateKey(range.start);
+  const end = parseDateKey(range.end);
+  while (date <= end) {
+    if (getTimetableDayOfWeek(calendar, date) === subject.dayOfWeek) meetings.push(toDateKey(date));
+    date.setDate(date.getDate() + 1);
+  }
+  return meetings;
+}
+
+/** 指定日以降（当日を含む）の残り授業回数 */
+export function countRemainingMeetings(meetings: string[], from: Date = new Date()): number {
+  const key = toDateKey(from);
+  return meetings.filter(m => m >= key).length;
+}
+
+/**
+ * 年間予定から求めた授業回数で classesPerSemester を置き換えた科目
+ * 時間割に入っていない科目や授業日が 0 件になる場合は元の値のまま
+ */
+export function withCalendarMeetings<T extends Subject>(subject: T, calendar: AcademicCalendar): T {
+  const count = generateMeetings(subject, calendar).length;
+  if (count === 0 || count === subject.classesPerSemester) return subject;
+  return { ...subject, classesPerSemester: count };
+}
+
+/**
+ * 現在の学期の科目だけ withCalendarMeetings で授業回数を置き換える
+ * 過去の学期・締め済みの学期の科目は保存された classesPerSemester のまま
+ */
+export function withActiveTermMeetings<T extends Subject>(config: AppConfig, subjects: T[]): T[] {
+  const term = getActiveTerm(config);
+  if (term.closed) return subjects;
+
+  const calendar = getCalendarForYear(config.calendars, term.academicYear, config.schoolInfo.schoolName);
+  return subjects.map(s =>
+    s.academicYear === term.academicYear && s.semester === term.semester ? withCalendarMeetings(s, calendar) : s
+  );
+}
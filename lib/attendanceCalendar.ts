@@ -0,0 +1,113 @@
+/**
+ * lib/attendanceCalendar.ts
+ *
+ * 科目ごとの出欠カレンダー用ヘルパー
+ * 授業日（subject.dayOfWeek の曜日）の算出と、日付ごとの欠課記録の集計を行う。
+ *
+ * 日付は AbsenceRecord.date と同じ "YYYY-MM-DD" 文字列で扱う。
+ * Date から変換するときはタイムゾーンのずれを避けるためローカル時刻を使う。
+ */
+
+import { AbsenceKind, AbsenceRecord, Subject } from './types';
+import { AbsencePolicy, getAbsenceKind, isExcludedAbsence } from './absencePolicy';
+
+export type DayAttendanceStatus = 'absent' | 'late' | 'excluded';
+
+/** Date → "YYYY-MM-DD"（ローカル時刻） */
+export function toDateKey(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+}
+
+/** "YYYY-MM-DD" → Date（ローカル時刻の 0:00） */
+export function parseDateKey(key: string): Date {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, (m || 1) - 1, d || 1);
+}
+
+/**
+ * 授業のある曜日か
+ * subject.dayOfWeek は 0 = 月曜 始まり、Date#getDay() は 0 = 日曜 始まり
+ */
+export function isClassDay(subject: Pick<Subject, 'dayOfWeek'>, date: Date): boolean {
+  if (subject.dayOfWeek === undefined) return false;
+  return date.getDay() === (subject.dayOfWeek + 1) % 7;
+}
+
+/** 指定した月の授業日一覧 */
+export function getClassDaysInMonth(subject: Pick<Subject, 'dayOfWeek'>, month: Date): Date[] {
+  const days: Date[] = [];
+  const date = new Date(month.getFullYear(), month.getMonth(), 1);
+  while (date.getMonth() === month.getMonth()) {
+    if (isClassDay(subject, date)) days.push(new Date(date));
+    date.setDate(date.getDate() + 1);
+  }
+  return days;
+}
+
+/** 日付ごとの欠課記録 */
+export function groupRecordsByDate(records: AbsenceRecord[]): Map<string, AbsenceRecord[]> {
+  const byDate = new Map<string, AbsenceRecord[]>();
+  for (const record of records) {
+    const list = byDate.get(record.date) ?? [];
+    list.push(record);
+    byDate.set(record.date, list);
+  }
+  return byDate;
+}
+
+/**
+ * その日の出欠の色分け
+ * 欠課 > 遅刻・早退 > 公欠・忌引（除外）の順で重い方を表示する
+ */
+export function getDayAttendanceStatus(
+  records: AbsenceRecord[],
+  policy: AbsencePolicy
+): DayAttendanceStatus | null {
+  let status: DayAttendanceStatus | null = null;
+  for (const record of records) {
+    if (isExcludedAbsence(record, policy)) {
+      status ??= 'excluded';
+      continue;
+    }
+    const kind = getAbsenceKind(record);
+    if (kind !== 'late' && kind !== 'early-leave') return 'absent';
+    status = 'late';
+  }
+  return status;
+}
+
+/** Date → subject.dayOfWeek と同じ 0 = 月曜 始まりの曜日 */
+export function getSchoolDayOfWeek(date: Date): number {
+  return (date.getDay() + 6) % 7;
+}
+
+/** その日に授業がある科目（時限順） */
+export function getClassesOnDate<T extends Pick<Subject, 'dayOfWeek' | 'period'>>(subjects: T[], date: Date): T[] {
+  return subjects
+    .filter(s => s.period !== undefined && isClassDay(s, date))
+    .sort((a, b) => (a.period ?? 0) - (b.period ?? 0));
+}
+
+/**
+ * 1回の授業の出欠を付け直した科目を返す（元の科目は変更しない）
+ * その日の既存の記録を置き換え、kind が null なら出席として記録を消す。
+ * 生カウンタ（absences）も記録のコマ数に合わせて増減する。
+ */
+export function applyAttendanceMark(subject: Subject, date: string, kind: AbsenceKind | null): Subject {
+  const records = subject.absenceRecords ?? [];
+  const removedPeriods = records
+    .filter(r => r.date === date)
+    .reduce((sum, r) => sum + (r.periods ?? 1), 0);
+  const kept = records.filter(r => r.date !== date);
+
+  return {
+    ...subject,
+    absences: Math.max(0, (subject.absences || 0) - removedPeriods) + (kind ? 1 : 0),
+    absenceRecords: kind
+      ? [...kept, { id: crypto.randomUUID(), date, kind, approved: false }]
+      : kept,
+  };
+}
@@ -0,0 +1,116 @@
+/**
+ * lib/configMerge.ts
+ *
+ * 同時編集（別タブでの保存）の3方向マージ
+ *
+ * storage.getConfig で読んだ時点のデータ（base）から、このタブの変更（ours）と
+ * その間に別タブが保存したデータ（latest）の両方を反映する。
+ *   - 片方しか変えていない値はその変更を採用する
+ *   - 同じ科目を両方が変えた場合は科目情報を ours 優先にし、成績・欠課記録・シナリオは和集合を取る
+ *   - どちらかが削除した科目・成績・記録は削除のまま（和集合で復活させない）
+ */
+
+import { AppConfig, Subject, Term } from './types';
+import { countRecordedPeriods, mergeSubject } from './dataTransfer';
+import { findSubject, getAllSubjects } from './termArchive';
+
+function isSame(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** ours が base から変えていれば ours、そうでなければ latest */
+function pickChanged<T>(base: T, latest: T, ours: T): T {
+  return isSame(ours, base) ? latest : ours;
+}
+
+/** base にあって side（ours / latest）で消された ID */
+function removedIds(base: { id: string }[] = [], side: { id: string }[] = []): Set<string> {
+  const kept = new Set(side.map((item) => item.id));
+  return new Set(base.filter((item) => !kept.has(item.id)).map((item) => item.id));
+}
+
+/** どちらかのタブで消された ID */
+function removedOnEitherSide(
+  base: { id: string }[] = [],
+  latest: { id: string }[] = [],
+  ours: { id: string }[] = []
+): Set<string> {
+  return new Set([...removedIds(base, latest), ...removedIds(base, ours)]);
+}
+
+/** 両方のタブで変更された科目の統合 */
+function mergeSubjectChanges(base: Subject, latest: Subject, ours: Subject): Subject {
+  if (isSame(latest, base)) return ours;
+
+  const merged = mergeSubject(latest, ours);
+  const removedGrades = removedOnEitherSide(base.grades, latest.grades, ours.grades);
+  const removedRecords = removedOnEitherSide(base.absenceRecords, latest.absenceRecords, ours.absenceRecords);
+  const removedScenarios = removedOnEitherSide(base.whatIfScenarios, latest.whatIfScenarios, ours.whatIfScenarios);
+  const absenceRecords = (merged.absenceRecords ?? []).filter((r) => !removedRecords.has(r.id));
+
+  return {
+    ...merged,
+    grades: merged.grades.filter((g) => !removedGrades.has(g.id)),
+    absences:
+      merged.absences - countRecordedPeriods(merged.absenceRecords ?? []) + countRecordedPeriods(absenceRecords),
+    absenceRecords,
+    whatIfScenarios: merged.whatIfScenarios?.filter((s) => !removedScenarios.has(s.id)),
+  };
+}
+
+/** 学期の科目以外の情報（確定状態・学年・時限数） */
+function getTermMeta(term: Term) {
+  const { timetable, ...meta } = term;
+  return { ...meta, periodsPerDay: timetable.periodsPerDay };
+}
+
+export function mergeConcurrentChanges(base: AppConfig, latest: AppConfig, ours: AppConfig): AppConfig {
+  const merged = structuredClone(latest);
+
+  merged.schoolInfo = pickChanged(base.schoolInfo, latest.schoolInfo, ours.schoolInfo);
+  merged.activeTermId = pickChanged(base.activeTermId, latest.activeTermId, ours.activeTermId);
+  merged.calendars = pickChanged(base.calendars, latest.calendars, ours.calendars);
+  merged.classesPerSemester = pickChanged(base.classesPerSemester, latest.classesPerSemester, ours.classesPerSemester);
+  merged.onboardingComplete = pickChanged(base.onboardingComplete, latest.onboardingComplete, ours.onboardingComplete);
+
+  // 学期: このタブで作った学期を追加し、確定状態などの変更を反映する
+  for (const oursTerm of ours.terms) {
+    const baseTerm = base.terms.find((t) => t.id === oursTerm.id);
+    const index = merged.terms.findIndex((t) => t.id === oursTerm.id);
+    if (index === -1) {
+      if (!baseTerm) merged.terms.push({ ...structuredClone(oursTerm), timetable: { ...oursTerm.timetable, subjects: [] } });
+      continue;
+    }
+    if (!baseTerm) continue;
+
+    const meta = pickChanged(getTermMeta(baseTerm), getTermMeta(merged.terms[index]), getTermMeta(oursTerm));
+    const { periodsPerDay, ...termFields } = meta;
+    merged.terms[index] = {
+      ...termFields,
+      timetable: { ...merged.terms[index].timetable, periodsPerDay },
+    };
+  }
+
+  // 科目: このタブで削除した科目を消す
+  const oursIds = new Set(getAllSubjects(ours).map((s) => s.id));
+  const baseSubjects = new Map(getAllSubjects(base).map((s) => [s.id, s]));
+  for (const term of merged.terms) {
+    term.timetable.subjects = term.timetable.subjects.filter((s) => !baseSubjects.has(s.id) || oursIds.has(s.id));
+  }
+
+  // 科目: 追加・変更を反映する（別タブで削除された科目は削除のまま）
+  for (const oursTerm of ours.terms) {
+    for (const subject of oursTerm.timetable.subjects) {
+      const baseSubject = baseSubjects.get(subject.id);
+      const found = findSubject(merged, subject.id);
+
+      if (!baseSubject) {
+        if (!found) merged.terms.find((t) => t.id === oursTerm.id)?.timetable.subjects.push(structuredClone(subject));
+      } else if (found && !isSame(subject, baseSubject)) {
+        found.term.timetable.subjects[found.index] = mergeSubjectChanges(baseSubject, found.subject, subject);
+      }
+    }
+  }
+
+  return merged;
+}
@@ -0,0 +1,181 @@
+/**
+ * lib/dataTransfer.ts
+ *
+ * 全データのエクスポート / インポート（JSON バックアップ）
+ *
+ * エクスポートファイルは AppExport（format / formatVersion 付き）で、
+ * AppConfig 全体とシラバスのキャッシュを含む。
+ * インポート時は保存データと同じく migrations.ts で最新のスキーマに移行してから Zod で検証する。
+ * 読み込み時の修復（validation.ts の parseStoredConfig）とは違い、不正なファイルは取り込まない。
+ *
+ * 取り込み方法:
+ *   - replace: ファイルの内容で全データを置き換える
+ *   - merge:   科目 ID ごとに統合する。成績・欠課記録・シナリオは ID の和集合を取るので失われない
+ */
+
+import { AbsenceRecord, AppConfig, AppExport, ImportMode, Subject, SubjectDiff } from './types';
+import { AppConfigSchema, AppExportSchema } from './validation';
+import { CURRENT_SCHEMA_VERSION, migrateConfig } from './migrations';
+import { findSubject, getAllSubjects } from './termArchive';
+
+/** 現在のエクスポート形式のバージョン（ファイルの形を変えたら上げる） */
+export const EXPORT_FORMAT_VERSION = 1;
+
+export type ImportParseResult =
+  | { success: true; data: AppExport }
+  | { success: false; errors: string[] };
+
+// ─────────────────────────────────────────────
+// エクスポート
+// ─────────────────────────────────────────────
+
+export function createExport(config: AppConfig, syllabusCaches: Record<string, unknown> = {}): AppExport {
+  return {
+    format: 'kosen-grade-app',
+    formatVersion: EXPORT_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    config,
+    syllabusCaches,
+  };
+}
+
+/** ダウンロード用のファイル名（例: "kosen-grades-2024-05-01.json"） */
+export function getExportFileName(date: Date = new Date()): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `kosen-grades-${y}-${m}-${d}.json`;
+}
+
+// ─────────────────────────────────────────────
+// インポート
+// ─────────────────────────────────────────────
+
+/** ファイルの中身を検証し、最新スキーマの AppExport にする */
+export function parseImportFile(text: string): ImportParseResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return { success: false, errors: ['JSON として読み込めませんでした'] };
+  }
+
+  const file = AppExportSchema.safeParse(json);
+  if (!file.success) {
+    return { success: false, errors: ['このアプリのエクスポートファイルではありません'] };
+  }
+  if (file.data.formatVersion > EXPORT_FORMAT_VERSION) {
+    return { success: false, errors: ['新しいバージョンのアプリで作成されたファイルです'] };
+  }
+  if ((file.data.config.schemaVersion ?? 0) > CURRENT_SCHEMA_VERSION) {
+    return { success: false, errors: ['新しいバージョンのデータ形式のため読み込めません'] };
+  }
+
+  const migration = migrateConfig(file.data.config);
+  const config = AppConfigSchema.safeParse(migration.data);
+  if (!config.success) {
+    return {
+      success: false,
+      errors: config.error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`),
+    };
+  }
+
+  return {
+    success: true,
+    data: { ...file.data, config: config.data as AppConfig },
+  };
+}
+
+/** 取り込むと追加・変更・削除される科目 */
+export function diffSubjects(current: AppConfig, incoming: AppConfig, mode: ImportMode): SubjectDiff {
+  const before = new Map(getAllSubjects(current).map((s) => [s.id, s]));
+  const after = new Map(getAllSubjects(applyImport(current, incoming, mode)).map((s) => [s.id, s]));
+
+  const diff: SubjectDiff = { added: [], changed: [], removed: [] };
+  for (const [id, subject] of after) {
+    const existing = before.get(id);
+    if (!existing) diff.added.push(subject);
+    else if (JSON.stringify(existing) !== JSON.stringify(subject)) diff.changed.push({ before: existing, after: subject });
+  }
+  for (const [id, subject] of before) {
+    if (!after.has(id)) diff.removed.push(subject);
+  }
+  return diff;
+}
+
+/** ID の和集合（同じ ID は incoming を優先） */
+function unionById<T extends { id: string }>(current: T[] = [], incoming: T[] = []): T[] {
+  const incomingIds = new Set(incoming.map((item) => item.id));
+  return [...current.filter((item) => !incomingIds.has(item.id)), ...incoming];
+}
+
+export function countRecordedPeriods(records: AbsenceRecord[]): number {
+  return records.reduce((sum, r) => sum + (r.periods ?? 1), 0);
+}
+
+/**
+ * 同じ ID の科目を統合する
+ * 科目情報は incoming を優先し、成績・欠課記録・シナリオは和集合を取る。
+ * 欠課の生カウンタは「記録のない欠課数」の多い方に記録のコマ数を足して合わせる。
+ */
+export function mergeSubject(current: Subject, incoming: Subject): Subject {
+  const absenceRecords = unionById(current.absenceRecords, incoming.absenceRecords);
+  const untracked = Math.max(
+    current.absences - countRecordedPeriods(current.absenceRecords ?? []),
+    incoming.absences - countRecordedPeriods(incoming.absenceRecords ?? []),
+    0
+  );
+
+  return {
+    ...current,
+    ...incoming,
+    grades: unionById(current.grades, incoming.grades),
+    absences: untracked + countRecordedPeriods(absenceRecords),
+    absenceRecords,
+    whatIfScenarios: unionById(current.whatIfScenarios, incoming.whatIfScenarios),
+  };
+}
+
+/**
+ * current に incoming を統合した新しい AppConfig
+ * current にしかない学期・科目は残し、学校情報と表示中の学期も current のまま（未設定なら incoming）。
+ */
+export function mergeConfigs(current: AppConfig, incoming: AppConfig): AppConfig {
+  const merged = structuredClone(current);
+
+  for (const incomingTerm of incoming.terms) {
+    let term = merged.terms.find((t) => t.id === incomingTerm.id);
+    if (!term) {
+      term = { ...structuredClone(incomingTerm), timetable: { ...incomingTerm.timetable, subjects: [] } };
+      merged.terms.push(term);
+    }
+
+    for (const subject of incomingTerm.timetable.subjects) {
+      const found = findSubject(merged, subject.id);
+      if (found) {
+        found.term.timetable.subjects[found.index] = mergeSubject(found.subject, structuredClone(subject));
+      } else {
+        term.timetable.subjects.push(structuredClone(subject));
+      }
+    }
+  }
+
+  const incomingYears = new Set(incoming.calendars.map((c) => c.academicYear));
+  merged.calendars = [
+    ...merged.calendars.filter((c) => !incomingYears.has(c.academicYear)),
+    ...structuredClone(incoming.calendars),
+  ];
+
+  if (!current.onboardingComplete) {
+    merged.schoolInfo = { ...incoming.schoolInfo };
+    merged.activeTermId = incoming.activeTermId;
+    merged.onboardingComplete = incoming.onboardingComplete;
+  }
+
+  return merged;
+}
+
+/** 取り込み後の AppConfig */
+export function applyImport(current: AppConfig, incoming: AppConfig, mode: ImportMode): AppConfig {
+  return mode === 'merge' ? mergeConfigs(current, incoming) : structuredClone(incoming);
+}
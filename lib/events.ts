@@ -1,55 +1,207 @@
 'use client';
 
+import { useEffect, useRef } from 'react';
+import type { AppConfig, Grade, Subject } from './types';
+
 /**
  * Event-driven architecture for real-time updates
  * Replaces polling with event-based state synchronization
+ *
+ * Events are also relayed to other tabs of the app (BroadcastChannel, or the
+ * `storage` window event where BroadcastChannel is unavailable) so every tab
+ * reloads after a change instead of overwriting it with stale data.
  */
 
-type EventType = 'subject:updated' | 'subject:added' | 'subject:deleted' | 'absence:added' | 'config:updated';
-type EventListener = (data: any) => void;
+// Payload of each event
+export interface EventMap {
+  'subject:updated': Subject;
+  'subject:added': Subject;
+  'subject:deleted': { id: string };
+  'grade:added': { subjectId: string; grade: Grade };
+  'grade:deleted': { subjectId: string; gradeId: string };
+  'absence:added': { subjectId: string; subject: Subject };
+  'absence:removed': { subjectId: string; recordId: string };
+  'term:changed': { termId: string };
+  'config:updated': AppConfig | null; // null when another tab changed the data
+}
+
+export type EventType = keyof EventMap;
+export type EventListener<K extends EventType> = (data: EventMap[K]) => void;
+
+// "*" matches every event, "grade:*" every event of that group
+type EventGroup = EventType extends `${infer Group}:${string}` ? Group : never;
+export type WildcardPattern = '*' | `${EventGroup}:*`;
+
+// Event name + payload, narrowed by `event`
+export type AnyEvent = { [K in EventType]: { event: K; data: EventMap[K] } }[EventType];
+export type WildcardListener = (event: AnyEvent) => void;
+
+const CHANNEL_NAME = 'grade-app-events';
+
+function matchesPattern(pattern: WildcardPattern, event: EventType): boolean {
+  return pattern === '*' || event.startsWith(pattern.slice(0, -1));
+}
+
+function isWildcard(event: EventType | WildcardPattern): event is WildcardPattern {
+  return event.endsWith('*');
+}
+
+// Listeners of each event, keyed by event name so every set keeps its payload type
+type ListenerMap = { [K in EventType]: Set<EventListener<K>> };
+
+function createListenerMap(): ListenerMap {
+  return {
+    'subject:updated': new Set(),
+    'subject:added': new Set(),
+    'subject:deleted': new Set(),
+    'grade:added': new Set(),
+    'grade:deleted': new Set(),
+    'absence:added': new Set(),
+    'absence:removed': new Set(),
+    'term:changed': new Set(),
+    'config:updated': new Set(),
+  };
+}
 
 class EventEmitter {
-  private listeners: Map<EventType, Set<EventListener>> = new Map();
+  private listeners: ListenerMap = createListenerMap();
+  private wildcardListeners: Map<WildcardPattern, Set<WildcardListener>> = new Map();
+  private channel: BroadcastChannel | null = null;
+  private connected = false;
+  private beforeRelay: () => Promise<void> = () => Promise.resolve();
 
-  on(event: EventType, listener: EventListener) {
-    if (!this.listeners.has(event)) {
-      this.listeners.set(event, new Set());
+  // Start relaying events between tabs (storageKey is watched when BroadcastChannel is unavailable;
+  // it must only change once the data it announces has been written)
+  // beforeRelay waits for this tab's writes; beforeRemote reloads data changed by another tab
+  connectTabs(
+    storageKey: string,
+    hooks: { beforeRelay?: () => Promise<void>; beforeRemote?: () => Promise<void> } = {}
+  ) {
+    if (this.connected || typeof window === 'undefined') return;
+    this.connected = true;
+    if (hooks.beforeRelay) this.beforeRelay = hooks.beforeRelay;
+    const beforeRemote = hooks.beforeRemote ?? (() => Promise.resolve());
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = (message: MessageEvent<AnyEvent>) => {
+        beforeRemote().then(() => this.dispatch(message.data));
+      };
+      return;
     }
-    this.listeners.get(event)!.add(listener);
+
+    window.addEventListener('storage', (e: StorageEvent) => {
+      if (e.key === storageKey || e.key === null) {
+        beforeRemote().then(() => this.dispatch({ event: 'config:updated', data: null }));
+      }
+    });
+  }
+
+  on<K extends EventType>(event: K, listener: EventListener<K>): () => void {
+    this.listeners[event].add(listener);
 
     // Return unsubscribe function
-    return () => {
-      this.listeners.get(event)?.delete(listener);
-    };
+    return () => this.off(event, listener);
+  }
+
+  // Subscribe to every event matching a wildcard pattern ("*", "grade:*")
+  onPattern(pattern: WildcardPattern, listener: WildcardListener): () => void {
+    if (!this.wildcardListeners.has(pattern)) {
+      this.wildcardListeners.set(pattern, new Set());
+    }
+    this.wildcardListeners.get(pattern)!.add(listener);
+
+    return () => this.offPattern(pattern, listener);
   }
 
-  emit(event: EventType, data: any) {
-    if (this.listeners.has(event)) {
-      this.listeners.get(event)!.forEach(listener => {
+  emit<K extends EventType>(event: K, data: EventMap[K]) {
+    const message = { event, data } as AnyEvent;
+    this.dispatch(message);
+
+    const channel = this.channel;
+    if (!channel) return;
+    this.beforeRelay().then(() => {
+      try {
+        channel.postMessage(message);
+      } catch (error) {
+        console.error(`Failed to relay ${event} to other tabs:`, error);
+      }
+    });
+  }
+
+  // Notify listeners in this tab only
+  private dispatch(message: AnyEvent) {
+    this.notify(message.event, message.data);
+
+    this.wildcardListeners.forEach((listeners, pattern) => {
+      if (!matchesPattern(pattern, message.event)) return;
+      listeners.forEach(listener => {
         try {
-          listener(data);
+          listener(message);
         } catch (error) {
-          console.error(`Error in event listener for ${event}:`, error);
+          console.error(`Error in ${pattern} listener for ${message.event}:`, error);
         }
       });
-    }
+    });
   }
 
-  off(event: EventType, listener: EventListener) {
-    if (this.listeners.has(event)) {
-      this.listeners.get(event)!.delete(listener);
-    }
+  private notify<K extends EventType>(event: K, data: EventMap[K]) {
+    this.listeners[event].forEach(listener => {
+      try {
+        listener(data);
+      } catch (error) {
+        console.error(`Error in event listener for ${event}:`, error);
+      }
+    });
+  }
+
+  off<K extends EventType>(event: K, listener: EventListener<K>) {
+    this.listeners[event].delete(listener);
+  }
+
+  offPattern(pattern: WildcardPattern, listener: WildcardListener) {
+    this.wildcardListeners.get(pattern)?.delete(listener);
   }
 
-  offAll(event: EventType) {
-    this.listeners.delete(event);
+  offAll(event: EventType | WildcardPattern) {
+    if (isWildcard(event)) {
+      this.wildcardListeners.delete(event);
+    } else {
+      this.listeners[event].clear();
+    }
   }
 }
 
 export const eventEmitter = new EventEmitter();
 
-// Hook for subscribing to events in components
-export function useEventListener(event: EventType, callback: (data: any) => void) {
-  const unsubscribe = eventEmitter.on(event, callback);
-  return unsubscribe;
+// Hook for subscribing to events in components (unsubscribes on unmount)
+// The latest callback is always called, so inline functions don't resubscribe every render
+export function useEventListener<K extends EventType>(event: K, callback: EventListener<K>) {
+  const callbackRef = useRef(callback);
+
+  useEffect(() => {
+    callbackRef.current = callback;
+  });
+
+  useEffect(() => {
+    return eventEmitter.on(event, data => callbackRef.current(data));
+  }, [event]);
+}
+
+// useEventListener for a wildcard pattern ("subject:*")
+export function usePatternListener(pattern: WildcardPattern, callback: WildcardListener) {
+  const callbackRef = useRef(callback);
+
+  useEffect(() => {
+    callbackRef.current = callback;
+  });
+
+  useEffect(() => {
+    return eventEmitter.onPattern(pattern, message => callbackRef.current(message));
+  }, [pattern]);
+}
+
+// Log every event in development (filter the console by "[events]")
+if (process.env.NODE_ENV === 'development' && typeof window !== 'undefined') {
+  eventEmitter.onPattern('*', ({ event, data }) => console.debug('[events]', event, data));
 }
@@ -0,0 +1,206 @@
+/**
+ * lib/gpaPlanner.ts
+ *
+ * 学期 GPA 目標のプランナー
+ *
+ * pointsNeededToPass は「この科目で合格点に届くには」しか答えないので、
+ * 学期 GPA の目標（例: 推薦の条件 3.0）から、今学期の全科目で残りの評価項目に必要な最低点を逆算する。
+ *
+ *   1. 各科目の候補 = 評語の境目の点数（100点法 GPA の学校は 5 点刻み）。
+ *      候補ごとに残りの評価項目で必要な得点率（努力の目安）を戦略の pointsNeededToPass で求める
+ *   2. まだ合格できる科目はまず合格点を目標にする
+ *   3. 目標 GPA に届くまで「必要な得点率の増加あたりの GP×単位数の増加」が最も大きい科目の目標を1段ずつ上げ、
+ *      最後に目標を超えた分を必要な得点率の高い科目から戻す
+ *
+ * 確定済み・採点の終わった科目は現在の GP のまま数える。
+ */
+
+import { CriteriaTarget, Subject } from './types';
+import { GradeCalculationStrategy } from './gradeStrategy';
+import { countsTowardGPA, getFailingLabel, getGradeLevel, scoreToGP } from './gradingScale';
+
+// ─────────────────────────────────────────────
+// 型定義
+// ─────────────────────────────────────────────
+
+export interface PlannedSubject {
+  subject: Subject;
+  /** 採点が終わっていて目標を変えられない */
+  fixed: boolean;
+  /** GPA の計算対象か（履修単位を含めない学校の履修科目は false） */
+  countsTowardGPA: boolean;
+  /** 目標の点数（合格も見込めない科目は null） */
+  targetScore: number | null;
+  targetLabel: string;
+  targetGP: number;
+  /** 残りの評価項目で必要な得点率（0〜100） */
+  neededPercent: number;
+  /** 残りの評価項目ごとの目標点 */
+  criteriaTargets: CriteriaTarget[];
+  /** 必要な得点率 +10% あたりの GP×単位数の増加（大きいほど効率がよい。上げられなければ 0） */
+  returnPerEffort: number;
+}
+
+export interface GPAPlan {
+  targetGPA: number;
+  /** 計画どおりの点数を取った場合の学期 GPA */
+  plannedGPA: number;
+  achievable: boolean;
+  subjects: PlannedSubject[];
+}
+
+interface ScoreOption {
+  score: number | null; // null = 合格しない
+  gp: number;
+  needed: number;
+}
+
+// ─────────────────────────────────────────────
+// 候補
+// ─────────────────────────────────────────────
+
+function hasRemainingCriteria(subject: Subject, strategy: GradeCalculationStrategy): boolean {
+  if (subject.finalGrade) return false;
+  return subject.evaluationCriteria.some(
+    (c) => strategy.isCriteriaRemaining(subject, c) || strategy.getCriteriaGradedShare(subject, c) < 1
+  );
+}
+
+/** 目標にできる点数（評語の境目、100点法 GPA なら合格点から 5 点刻み） */
+function getCandidateScores(strategy: GradeCalculationStrategy): number[] {
+  const scale = strategy.gradingScale;
+  const passing = scale.levels.filter((level) => level.passed).map((level) => level.minScore);
+  const scores = new Set(passing);
+  if (scale.gpFormula && passing.length > 0) {
+    for (let score = Math.min(...passing); score <= 100; score += 5) scores.add(score);
+    scores.add(100);
+  }
+  return [...scores].sort((a, b) => a - b);
+}
+
+/** 合格しない場合 → 各候補の順に並んだ選択肢（到達できない候補は除く） */
+function getScoreOptions(subject: Subject, strategy: GradeCalculationStrategy, candidates: number[]): ScoreOption[] {
+  const options: ScoreOption[] = [{ score: null, gp: 0, needed: 0 }];
+  for (const score of candidates) {
+    const needed = strategy.pointsNeededToPass(subject, score);
+    if (needed > 100) break;
+    options.push({ score, gp: scoreToGP(score, strategy.gradingScale), needed });
+  }
+  // 努力なしで届く点数より下の選択肢は意味がない
+  const free = options.filter((o) => o.needed === 0);
+  return options.slice(options.indexOf(free[free.length - 1]));
+}
+
+function ratio(from: ScoreOption, to: ScoreOption, credits: number): number {
+  const gain = (to.gp - from.gp) * credits;
+  return gain / Math.max(to.needed - from.needed, 0.5);
+}
+
+// ─────────────────────────────────────────────
+// 計画
+// ─────────────────────────────────────────────
+
+/**
+ * 学期 GPA の目標に必要な各科目の目標点を求める
+ * @param subjects 今学期の科目
+ */
+export function planForTargetGPA(
+  subjects: Subject[],
+  targetGPA: number,
+  strategy: GradeCalculationStrategy
+): GPAPlan {
+  const scale = strategy.gradingScale;
+  const candidates = getCandidateScores(strategy);
+
+  const entries = subjects.map((subject) => {
+    const counts = countsTowardGPA(subject, scale);
+    const credits = subject.credits || 1;
+    if (!hasRemainingCriteria(subject, strategy)) {
+      return { subject, credits, counts, fixed: true, options: [], choice: 0, initial: 0 };
+    }
+    const options = getScoreOptions(subject, strategy, candidates);
+    // まだ合格できるなら合格点から始める
+    const initial = options.findIndex((o) => o.score !== null);
+    const choice = initial === -1 ? 0 : initial;
+    return { subject, credits, counts, fixed: false, options, choice, initial: choice };
+  });
+
+  const gpaCredits = entries.filter((e) => e.counts).reduce((sum, e) => sum + e.credits, 0);
+  const gpOf = (entry: (typeof entries)[number]) =>
+    entry.fixed ? strategy.calculateSubjectGPA(entry.subject) : entry.options[entry.choice].gp;
+  const currentGPA = () =>
+    gpaCredits === 0
+      ? 0
+      : entries.filter((e) => e.counts).reduce((sum, e) => sum + gpOf(e) * e.credits, 0) / gpaCredits;
+
+  // 効率のよい科目から目標を1段ずつ上げる
+  const adjustable = entries.filter((e) => !e.fixed && e.counts);
+  while (currentGPA() < targetGPA) {
+    let best: { entry: (typeof entries)[number]; value: number } | null = null;
+    for (const entry of adjustable) {
+      const next = entry.options[entry.choice + 1];
+      if (!next) continue;
+      const value = ratio(entry.options[entry.choice], next, entry.credits);
+      if (!best || value > best.value) best = { entry, value };
+    }
+    if (!best) break;
+    best.entry.choice++;
+  }
+
+  // 上げすぎた分を戻す（必要な得点率の高い科目から）
+  if (currentGPA() >= targetGPA) {
+    const byNeeded = [...adjustable].sort((a, b) => b.options[b.choice].needed - a.options[a.choice].needed);
+    for (const entry of byNeeded) {
+      while (entry.choice > entry.initial) {
+        entry.choice--;
+        if (currentGPA() < targetGPA) {
+          entry.choice++;
+          break;
+        }
+      }
+    }
+  }
+
+  const plannedGPA = currentGPA();
+  const planned: PlannedSubject[] = entries.map((entry) => {
+    if (entry.fixed) {
+      const grade = strategy.calculateSubjectGrade(entry.subject);
+      return {
+        subject: entry.subject,
+        fixed: true,
+        countsTowardGPA: entry.counts,
+        targetScore: grade,
+        targetLabel: strategy.getLetterGrade(entry.subject),
+        targetGP: strategy.calculateSubjectGPA(entry.subject),
+        neededPercent: 0,
+        criteriaTargets: [],
+        returnPerEffort: 0,
+      };
+    }
+
+    const option = entry.options[entry.choice];
+    const start = entry.options[entry.initial];
+    const upgrades = entry.options.slice(entry.initial + 1).map((o) => ratio(start, o, entry.credits));
+    return {
+      subject: entry.subject,
+      fixed: false,
+      countsTowardGPA: entry.counts,
+      targetScore: option.score,
+      targetLabel: option.score === null ? getFailingLabel(scale) : getGradeLevel(option.score, scale).label,
+      targetGP: option.gp,
+      neededPercent: option.needed,
+      criteriaTargets:
+        option.score === null || option.needed === 0
+          ? []
+          : strategy.calculateCriteriaTargets({ ...entry.subject, passingGrade: option.score }),
+      returnPerEffort: entry.counts && upgrades.length > 0 ? Math.max(...upgrades) * 10 : 0,
+    };
+  });
+
+  return {
+    targetGPA,
+    plannedGPA: Math.round(plannedGPA * 100) / 100,
+    achievable: plannedGPA >= targetGPA,
+    subjects: planned,
+  };
+}
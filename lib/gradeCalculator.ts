@@ -1,8 +1,19 @@
 import { Subject, GradeStatus } from './types';
+import { gradeCalculatorV2 } from './gradeCalculatorV2';
+import { GradingScale, DEFAULT_GRADING_SCALE, getGradeLevel, getStatusThresholds, scoreToGP } from './gradingScale';
+
+/**
+ * Legacy grade calculator:
+ * - Plain average of each criterion's grades, weighted by criterion weight
+ * - Absences are the raw count, compared with subject.absenceThreshold
+ * Used through the 'legacy' grade strategy (see gradeStrategy.ts)
+ */
 
 export const gradeCalculator = {
   // Calculate weighted average for a subject
   calculateSubjectGrade: (subject: Subject): number => {
+    // Closed terms keep the grade frozen at close time
+    if (subject.finalGrade) return subject.finalGrade.value;
     if (subject.evaluationCriteria.length === 0) return 0;
 
     let totalWeightedScore = 0;
@@ -33,13 +44,14 @@ export const gradeCalculator = {
   },
 
   // Predict final grade if final exam is taken
+  // securedPoints is calculateSubjectGrade (graded criteria already carry their weight)
   predictFinalGrade: (
     subject: Subject,
-    continuousGrade: number = 0,
-    finalExamWeight: number = 0.4 // Final exam is typically 40% of final grade
+    securedPoints: number = 0,
+    finalExamWeight: number = gradeCalculatorV2.getRemainingWeight(subject) // weight of ungraded criteria
   ): number => {
-    if (continuousGrade === 0 || isNaN(continuousGrade)) return 0;
-    const predicted = continuousGrade * (1 - finalExamWeight) + finalExamWeight * 100;
+    if (subject.grades.length === 0 || isNaN(securedPoints)) return 0;
+    const predicted = securedPoints + finalExamWeight * 100;
     return isNaN(predicted) ? 0 : Math.round(predicted);
   },
 
@@ -47,35 +59,36 @@ export const gradeCalculator = {
   pointsNeededToPass: (
     subject: Subject,
     passingGrade: number = 60,
-    finalExamWeight: number = 0.4
+    finalExamWeight: number = gradeCalculatorV2.getRemainingWeight(subject)
   ): number => {
-    const continuousGrade = gradeCalculator.calculateSubjectGrade(subject);
+    const securedPoints = gradeCalculator.calculateSubjectGrade(subject);
     
-    if (continuousGrade >= passingGrade || continuousGrade === 0) return 0; // Already passing or no grades yet
+    if (securedPoints >= passingGrade || subject.grades.length === 0) return 0; // Already passing or no grades yet
+    if (finalExamWeight === 0) return Infinity; // Nothing left to be graded
     
-    const neededFromFinal =
-      (passingGrade - continuousGrade * (1 - finalExamWeight)) /
-      finalExamWeight;
+    const neededFromFinal = (passingGrade - securedPoints) / finalExamWeight;
 
     const result = Math.ceil(Math.max(0, neededFromFinal));
     return isNaN(result) ? 0 : result;
   },
 
   // Get color-coded status
-  getGradeStatus: (subject: Subject): GradeStatus => {
+  getGradeStatus: (subject: Subject, scale: GradingScale = DEFAULT_GRADING_SCALE): GradeStatus => {
     const currentGrade = gradeCalculator.calculateSubjectGrade(subject);
     const predictedFinal = gradeCalculator.predictFinalGrade(subject, currentGrade);
-    const needsToPass = gradeCalculator.pointsNeededToPass(subject);
+    const needsToPass = gradeCalculator.pointsNeededToPass(subject, subject.passingGrade);
     
     // Check absence warning (more than 1/3 of classes)
     const absenceThreshold = subject.absenceThreshold || Math.floor(subject.absenceThreshold);
     const hasAbsenceWarning = subject.absences > absenceThreshold;
+    const canPass = !hasAbsenceWarning && (currentGrade >= subject.passingGrade || needsToPass <= 100);
 
+    const thresholds = getStatusThresholds(subject, scale);
     let status: 'safe' | 'risk' | 'fail';
 
-    if (currentGrade >= 60) {
+    if (currentGrade >= thresholds.safe) {
       status = 'safe'; // Blue
-    } else if (currentGrade >= 30) {
+    } else if (currentGrade >= thresholds.risk) {
       status = 'risk'; // Cyan to red gradient
     } else {
       status = 'fail'; // Black - mathematically impossible to pass
@@ -87,12 +100,16 @@ export const gradeCalculator = {
       predictedFinal: isNaN(predictedFinal) ? 0 : predictedFinal,
       needsToPass: isNaN(needsToPass) ? 0 : needsToPass,
       absenceWarning: hasAbsenceWarning,
+      canPass,
+      gpa: scoreToGP(currentGrade, scale),
+      letterGrade: getGradeLevel(currentGrade, scale).label,
     };
   },
 
   // Calculate percentage of classes attended
   attendancePercentage: (subject: Subject): number => {
     const totalClasses = subject.absenceThreshold * 3; // threshold is 1/3
+    if (totalClasses <= 0) return 100;
     const attended = Math.max(0, totalClasses - subject.absences);
     return Math.round((attended / totalClasses) * 100);
   },
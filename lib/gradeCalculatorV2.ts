@@ -1,41 +1,97 @@
 'use client';
 
-import { Subject, GradeStatus, GPAData, CourseType } from './types';
+import {
+  Subject,
+  Grade,
+  GradeStatus,
+  GPAData,
+  CourseType,
+  EvaluationCriteria,
+  CriteriaTarget,
+  ItemAggregation,
+  SubAssessment,
+} from './types';
+import {
+  GradingScale,
+  DEFAULT_GRADING_SCALE,
+  countsTowardGPA,
+  getFailingLabel,
+  getGradeLevel,
+  getStatusThresholds,
+  scoreToGP,
+} from './gradingScale';
+import {
+  AbsencePolicySet,
+  DEFAULT_ABSENCE_POLICIES,
+  calculateAbsenceLimit,
+  calculateEffectiveAbsences,
+} from './absencePolicy';
+import { toDateKey } from './attendanceCalendar';
+
+// Combine item scores (0-100 each) after applying drop-lowest / best-of rules
+function aggregateItemPercents(percents: number[], rule: ItemAggregation): number | null {
+  if (percents.length === 0) return null;
+
+  let kept = [...percents].sort((a, b) => b - a);
+  if (rule.dropLowest) kept = kept.slice(0, Math.max(1, kept.length - rule.dropLowest));
+  if (rule.bestOf) kept = kept.slice(0, Math.max(1, rule.bestOf));
+
+  return kept.reduce((sum, p) => sum + p, 0) / kept.length;
+}
+
+function getItemPercent(grade: Grade, criteria: EvaluationCriteria, sub?: SubAssessment): number {
+  const maxPoints = grade.maxPoints ?? sub?.maxPoints ?? criteria.maxPoints;
+  return maxPoints > 0 ? (grade.points / maxPoints) * 100 : 0;
+}
+
+// Score (0-100) of one grade against its own / sub-assessment / criterion max points
+export function getGradePercent(grade: Grade, criteria: EvaluationCriteria): number {
+  const sub = criteria.subAssessments?.find(s => s.id === grade.subAssessmentId);
+  return getItemPercent(grade, criteria, sub);
+}
+
+function hasSubAssessments(criteria: EvaluationCriteria): criteria is EvaluationCriteria & { subAssessments: SubAssessment[] } {
+  return (criteria.subAssessments?.length ?? 0) > 0;
+}
 
 /**
  * Enhanced Grade Calculator V2 with:
- * - Intelligent absence limit calculation
- * - GPA computation
+ * - Absence limits from the school's absence policy (公欠/忌引, 遅刻 conversion)
+ * - GPA computation (per-school grading scale)
  * - Course classification handling
  * - Failure prevention logic
  */
 
 export const gradeCalculatorV2 = {
-  // Calculate absolute absence limit based on class type and total classes (KOSEN-specific)
-  calculateAbsenceLimit: (subject: Subject): number => {
-    const classCount = subject.classesPerSemester || 40;
-    
-    // KOSEN strict rules: Different thresholds per class type
-    if (subject.classType === 'experiment') {
-      // 実験・実習: 1/10 で不可
-      return Math.ceil(classCount / 10);
-    } else if (subject.classType === 'practical') {
-      // 実習: 1/10 で不可
-      return Math.ceil(classCount / 10);
-    } else {
-      // 講義・演習: 1/3 で不可
-      return Math.floor(classCount / 3);
-    }
+  // Absence limit (in 単位時間) from the policy for the subject's class type
+  // (KOSEN default: 講義 1/3, 実験・実習 1/10 で不可)
+  calculateAbsenceLimit: (subject: Subject, policies: AbsencePolicySet = DEFAULT_ABSENCE_POLICIES): number => {
+    return calculateAbsenceLimit(subject, policies[subject.classType]);
+  },
+
+  // Absences that count toward the limit: excludes 公欠/忌引 and converts 遅刻/早退
+  calculateEffectiveAbsences: (subject: Subject, policies: AbsencePolicySet = DEFAULT_ABSENCE_POLICIES): number => {
+    return calculateEffectiveAbsences(subject, policies[subject.classType]).effective;
   },
 
   // Calculate remaining attendance allowed (for alert purposes)
-  calculateRemainingAttendance: (subject: Subject): number => {
-    const limit = gradeCalculatorV2.calculateAbsenceLimit(subject);
-    return Math.max(0, limit - subject.absences);
+  calculateRemainingAttendance: (subject: Subject, policies: AbsencePolicySet = DEFAULT_ABSENCE_POLICIES): number => {
+    const limit = gradeCalculatorV2.calculateAbsenceLimit(subject, policies);
+    return Math.max(0, limit - gradeCalculatorV2.calculateEffectiveAbsences(subject, policies));
+  },
+
+  // Percentage of class time attended (in 単位時間, excluding 公欠/忌引)
+  attendancePercentage: (subject: Subject, policies: AbsencePolicySet = DEFAULT_ABSENCE_POLICIES): number => {
+    const totalUnits = (subject.classesPerSemester || 40) * policies[subject.classType].unitsPerClass;
+    const attended = Math.max(0, totalUnits - gradeCalculatorV2.calculateEffectiveAbsences(subject, policies));
+    return Math.round((attended / totalUnits) * 100);
   },
 
   // Calculate subject grade from evaluation criteria
   calculateSubjectGrade: (subject: Subject): number => {
+    // Closed terms keep the grade frozen at close time
+    if (subject.finalGrade) return subject.finalGrade.value;
+
     if (subject.evaluationCriteria.length === 0 || subject.grades.length === 0) {
       return 0;
     }
@@ -44,53 +100,207 @@ export const gradeCalculatorV2 = {
     let totalWeight = 0;
 
     for (const criteria of subject.evaluationCriteria) {
-      const criteriaGrades = subject.grades.filter(g => g.criteriaId === criteria.id);
-      if (criteriaGrades.length === 0) continue;
+      const percentScore = gradeCalculatorV2.calculateCriteriaPercent(subject, criteria);
+      if (percentScore === null) continue;
 
-      const avgPoints = criteriaGrades.reduce((sum, g) => sum + g.points, 0) / criteriaGrades.length;
-      const percentScore = (avgPoints / criteria.maxPoints) * 100;
-      totalWeightedScore += percentScore * criteria.weight;
-      totalWeight += criteria.weight;
+      // Partly graded criteria (e.g. only 中間 of 中間+期末) count with the graded share of their weight
+      const weight = criteria.weight * gradeCalculatorV2.getCriteriaGradedShare(subject, criteria);
+      totalWeightedScore += percentScore * weight;
+      totalWeight += weight;
     }
 
     return totalWeight === 0 ? 0 : Math.round(totalWeightedScore / totalWeight);
   },
 
-  // Predict final grade assuming perfect score on final exam
+  // Score of one criterion (0-100) from its grades, or null when nothing is graded yet.
+  // With sub-assessments the graded parts are weighted against each other; otherwise all items
+  // are combined with the criterion's drop-lowest / best-of rule.
+  calculateCriteriaPercent: (subject: Subject, criteria: EvaluationCriteria): number | null => {
+    const criteriaGrades = subject.grades.filter(g => g.criteriaId === criteria.id);
+
+    if (!hasSubAssessments(criteria)) {
+      return aggregateItemPercents(criteriaGrades.map(g => getItemPercent(g, criteria)), criteria);
+    }
+
+    let weightedScore = 0;
+    let gradedWeight = 0;
+    for (const sub of criteria.subAssessments) {
+      const percent = aggregateItemPercents(
+        criteriaGrades.filter(g => g.subAssessmentId === sub.id).map(g => getItemPercent(g, criteria, sub)),
+        sub
+      );
+      if (percent === null) continue;
+      weightedScore += percent * sub.weight;
+      gradedWeight += sub.weight;
+    }
+
+    return gradedWeight > 0 ? weightedScore / gradedWeight : null;
+  },
+
+  // Share (0-1) of a criterion's weight that already has grades; sub-assessments without grades stay open
+  getCriteriaGradedShare: (subject: Subject, criteria: EvaluationCriteria): number => {
+    if (!hasSubAssessments(criteria) || criteria.progress === 'graded') return 1;
+
+    const totalWeight = criteria.subAssessments.reduce((sum, sub) => sum + sub.weight, 0);
+    if (totalWeight === 0) return 1;
+
+    const gradedWeight = criteria.subAssessments
+      .filter(sub => subject.grades.some(g => g.criteriaId === criteria.id && g.subAssessmentId === sub.id))
+      .reduce((sum, sub) => sum + sub.weight, 0);
+    return gradedWeight / totalWeight;
+  },
+
+  // Whether a criterion is still to be (fully) graded: explicit tag first, otherwise "no grades yet"
+  isCriteriaRemaining: (subject: Subject, criteria: EvaluationCriteria): boolean => {
+    if (criteria.progress) return criteria.progress === 'remaining';
+    return !subject.grades.some(g => g.criteriaId === criteria.id);
+  },
+
+  // Share of the final grade (0-1) that is still open, derived from the evaluation criteria
+  getRemainingWeight: (subject: Subject): number => {
+    if (subject.finalGrade) return 0;
+
+    const totalWeight = subject.evaluationCriteria.reduce((sum, c) => sum + c.weight, 0);
+    if (totalWeight === 0) return 0;
+
+    const remainingWeight = subject.evaluationCriteria.reduce(
+      (sum, c) =>
+        sum +
+        (gradeCalculatorV2.isCriteriaRemaining(subject, c)
+          ? c.weight
+          : c.weight * (1 - gradeCalculatorV2.getCriteriaGradedShare(subject, c))),
+      0
+    );
+    return remainingWeight / totalWeight;
+  },
+
+  // Copy of the subject with hypothetical scores (criteriaId -> points) standing in for the real grades.
+  // Used by the what-if simulator; the returned subject must never be saved.
+  applyHypotheticalScores: (subject: Subject, scores: Record<string, number>): Subject => {
+    const criteriaIds = Object.keys(scores).filter(id =>
+      subject.evaluationCriteria.some(c => c.id === id)
+    );
+    if (criteriaIds.length === 0) return subject;
+
+    return {
+      ...subject,
+      // The hypothetical score stands for the whole criterion, so item rules no longer apply
+      evaluationCriteria: subject.evaluationCriteria.map(c =>
+        criteriaIds.includes(c.id)
+          ? { ...c, progress: 'graded', subAssessments: undefined, dropLowest: undefined, bestOf: undefined }
+          : c
+      ),
+      grades: [
+        ...subject.grades.filter(g => !criteriaIds.includes(g.criteriaId)),
+        ...criteriaIds.map(criteriaId => ({
+          id: `what-if-${criteriaId}`,
+          criteriaId,
+          points: scores[criteriaId],
+          date: toDateKey(new Date()),
+        })),
+      ],
+    };
+  },
+
+  // Weighted grade over the graded (non-remaining) criteria only
+  calculateGradedScore: (subject: Subject): number => {
+    if (subject.finalGrade) return subject.finalGrade.value;
+
+    const graded = subject.evaluationCriteria.filter(
+      c => !gradeCalculatorV2.isCriteriaRemaining(subject, c)
+    );
+    return gradeCalculatorV2.calculateSubjectGrade({ ...subject, evaluationCriteria: graded });
+  },
+
+  // Predict the best reachable final grade (100% on every remaining criterion)
   predictFinalGrade: (
     subject: Subject,
-    continuousGrade: number = 0,
-    finalExamWeight: number = 0.4
+    gradedScore: number = gradeCalculatorV2.calculateGradedScore(subject),
+    remainingWeight: number = gradeCalculatorV2.getRemainingWeight(subject)
   ): number => {
-    if (continuousGrade === 0 || isNaN(continuousGrade)) return 0;
-    const predicted = continuousGrade * (1 - finalExamWeight) + finalExamWeight * 100;
+    if (subject.grades.length === 0 || isNaN(gradedScore)) return 0;
+    const predicted = gradedScore * (1 - remainingWeight) + remainingWeight * 100;
     return isNaN(predicted) ? 0 : Math.round(predicted);
   },
 
-  // Points needed in final exam to pass
+  // Score needed (as a percentage) on the remaining criteria to pass
   pointsNeededToPass: (
     subject: Subject,
     passingGrade: number = 60,
-    finalExamWeight: number = 0.4
+    remainingWeight: number = gradeCalculatorV2.getRemainingWeight(subject)
   ): number => {
-    const continuousGrade = gradeCalculatorV2.calculateSubjectGrade(subject);
-    
-    if (continuousGrade >= passingGrade || continuousGrade === 0) return 0;
-    
-    const neededFromFinal =
-      (passingGrade - continuousGrade * (1 - finalExamWeight)) / finalExamWeight;
+    const gradedScore = gradeCalculatorV2.calculateGradedScore(subject);
+    const securedPoints = gradedScore * (1 - remainingWeight);
+
+    if (securedPoints >= passingGrade) return 0;
+    // Nothing left to earn: the grade can no longer be raised
+    if (remainingWeight === 0) return Infinity;
+
+    const neededFromRemaining = (passingGrade - securedPoints) / remainingWeight;
 
-    const result = Math.ceil(Math.max(0, neededFromFinal));
+    const result = Math.ceil(Math.max(0, neededFromRemaining));
     return isNaN(result) ? 0 : result;
   },
 
+  // Per-criterion targets for the remaining criteria (e.g. 期末 72点, レポート 65点)
+  // needed lets other strategies spread their own required score over the same criteria
+  calculateCriteriaTargets: (
+    subject: Subject,
+    passingGrade: number = subject.passingGrade,
+    needed: number = gradeCalculatorV2.pointsNeededToPass(subject, passingGrade)
+  ): CriteriaTarget[] => {
+
+    const toTarget = (
+      c: EvaluationCriteria,
+      name: string,
+      weight: number,
+      maxPoints: number,
+      subAssessmentId?: string
+    ): CriteriaTarget => ({
+      criteriaId: c.id,
+      subAssessmentId,
+      name,
+      weight,
+      maxPoints,
+      targetPercent: needed,
+      targetPoints: Number.isFinite(needed) ? Math.ceil((needed / 100) * maxPoints) : Infinity,
+      achievable: needed <= 100,
+    });
+
+    return subject.evaluationCriteria.flatMap(c => {
+      const remaining = gradeCalculatorV2.isCriteriaRemaining(subject, c);
+      if (!hasSubAssessments(c)) {
+        return remaining ? [toTarget(c, c.name, c.weight, c.maxPoints)] : [];
+      }
+
+      // Ungraded sub-assessments (all of them when the whole criterion is remaining)
+      const subWeightTotal = c.subAssessments.reduce((sum, sub) => sum + sub.weight, 0) || 1;
+      return c.subAssessments
+        .filter(
+          sub =>
+            remaining ||
+            (c.progress !== 'graded' &&
+              !subject.grades.some(g => g.criteriaId === c.id && g.subAssessmentId === sub.id))
+        )
+        .map(sub =>
+          toTarget(
+            c,
+            `${c.name} / ${sub.name}`,
+            Math.round(((c.weight * sub.weight) / subWeightTotal) * 10) / 10,
+            sub.maxPoints ?? c.maxPoints,
+            sub.id
+          )
+        );
+    });
+  },
+
   // Check if student can still pass based on absences and grades
-  canStillPass: (subject: Subject): boolean => {
-    const absenceLimit = gradeCalculatorV2.calculateAbsenceLimit(subject);
+  canStillPass: (subject: Subject, policies: AbsencePolicySet = DEFAULT_ABSENCE_POLICIES): boolean => {
+    const absenceLimit = gradeCalculatorV2.calculateAbsenceLimit(subject, policies);
     const currentGrade = gradeCalculatorV2.calculateSubjectGrade(subject);
     
     // Cannot pass if exceeded absence limit
-    if (subject.absences > absenceLimit) {
+    if (gradeCalculatorV2.calculateEffectiveAbsences(subject, policies) > absenceLimit) {
       return false;
     }
     
@@ -104,59 +314,81 @@ export const gradeCalculatorV2 = {
     return needsToPass <= 100;
   },
 
-  // Calculate GPA for a single subject (4.0 scale)
-  calculateSubjectGPA: (subject: Subject): number => {
+  // Calculate GP for a single subject from the school's grading scale
+  calculateSubjectGPA: (subject: Subject, scale: GradingScale = DEFAULT_GRADING_SCALE): number => {
     const grade = gradeCalculatorV2.calculateSubjectGrade(subject);
-    
-    if (grade >= 90) return 4.0;
-    if (grade >= 80) return 3.0;
-    if (grade >= 70) return 2.0;
-    if (grade >= 60) return 1.0;
-    return 0.0; // Failed
+    return scoreToGP(grade, scale);
+  },
+
+  // Get the 評語 (秀/優/良/可/不可 etc.) for a subject
+  getLetterGrade: (subject: Subject, scale: GradingScale = DEFAULT_GRADING_SCALE): string => {
+    const grade = gradeCalculatorV2.calculateSubjectGrade(subject);
+    return getGradeLevel(grade, scale).label;
   },
 
-  // Calculate overall GPA data for display
-  calculateGPA: (subjects: Subject[]): GPAData => {
+  // Calculate overall GPA data for display (gradeOf lets other strategies reuse the aggregation)
+  calculateGPA: (
+    subjects: Subject[],
+    scale: GradingScale = DEFAULT_GRADING_SCALE,
+    gradeOf = (subject: Subject): number => gradeCalculatorV2.calculateSubjectGrade(subject)
+  ): GPAData => {
     let totalPoints = 0;
     let earnedPoints = 0;
+    let gpaCredits = 0;
+    let earnedGpaCredits = 0;
     let totalCredits = 0;
     let earnedCredits = 0;
 
     for (const subject of subjects) {
-      const gpa = gradeCalculatorV2.calculateSubjectGPA(subject);
+      const grade = gradeOf(subject);
+      const passed = getGradeLevel(grade, scale).passed;
+      const gpa = scoreToGP(grade, scale);
       const credits = subject.credits || 1;
-      
-      totalPoints += gpa * credits;
+
       totalCredits += credits;
+      if (passed) earnedCredits += credits;
+
+      // 履修単位を GPA に含めない学校では単位数だけ数える
+      if (!countsTowardGPA(subject, scale)) continue;
+
+      totalPoints += gpa * credits;
+      gpaCredits += credits;
       
-      if (gpa > 0) {
+      if (passed) {
         earnedPoints += gpa * credits;
-        earnedCredits += credits;
+        earnedGpaCredits += credits;
       }
     }
 
     return {
-      totalGPA: totalCredits === 0 ? 0 : totalPoints / totalCredits,
-      semesterGPA: earnedCredits === 0 ? 0 : earnedPoints / earnedCredits,
+      totalGPA: gpaCredits === 0 ? 0 : totalPoints / gpaCredits,
+      semesterGPA: earnedGpaCredits === 0 ? 0 : earnedPoints / earnedGpaCredits,
       credits: totalCredits,
       earnedCredits: earnedCredits,
     };
   },
 
   // Get comprehensive grade status
-  getGradeStatus: (subject: Subject): GradeStatus => {
+  getGradeStatus: (
+    subject: Subject,
+    scale: GradingScale = DEFAULT_GRADING_SCALE,
+    policies: AbsencePolicySet = DEFAULT_ABSENCE_POLICIES
+  ): GradeStatus => {
     const currentGrade = gradeCalculatorV2.calculateSubjectGrade(subject);
-    const predictedFinal = gradeCalculatorV2.predictFinalGrade(subject, currentGrade);
+    const predictedFinal = gradeCalculatorV2.predictFinalGrade(subject);
     const needsToPass = gradeCalculatorV2.pointsNeededToPass(subject, subject.passingGrade);
-    const absenceLimit = gradeCalculatorV2.calculateAbsenceLimit(subject);
-    const remainingAttendance = gradeCalculatorV2.calculateRemainingAttendance(subject);
-    const hasAbsenceWarning = subject.absences > absenceLimit; // 不可 status
-    const canPass = gradeCalculatorV2.canStillPass(subject);
-    const gpa = gradeCalculatorV2.calculateSubjectGPA(subject);
+    const absenceLimit = gradeCalculatorV2.calculateAbsenceLimit(subject, policies);
+    const effectiveAbsences = gradeCalculatorV2.calculateEffectiveAbsences(subject, policies);
+    const remainingAttendance = gradeCalculatorV2.calculateRemainingAttendance(subject, policies);
+    const hasAbsenceWarning = effectiveAbsences > absenceLimit; // 不可 status
+    const canPass = gradeCalculatorV2.canStillPass(subject, policies);
+    const gpa = scoreToGP(currentGrade, scale);
+    const letterGrade = getGradeLevel(currentGrade, scale).label;
+    const thresholds = getStatusThresholds(subject, scale);
 
     let status: 'safe' | 'risk' | 'fail';
 
-    if (subject.absences > absenceLimit) {
+    if (hasAbsenceWarning) {
       // 不可: Already exceeded absence limit
       status = 'fail';
     } else if (remainingAttendance <= 2) {
@@ -165,10 +397,10 @@ export const gradeCalculatorV2 = {
     } else if (!canPass) {
       // Failed due to impossible grade
       status = 'fail';
-    } else if (currentGrade >= 60) {
+    } else if (currentGrade >= thresholds.safe) {
       // Safe zone
       status = 'safe';
-    } else if (currentGrade >= 30) {
+    } else if (currentGrade >= thresholds.risk) {
       // At risk but still possible to pass
       status = 'risk';
     } else {
@@ -184,6 +416,7 @@ export const gradeCalculatorV2 = {
       absenceWarning: hasAbsenceWarning,
       canPass,
       gpa,
+      letterGrade,
     };
   },
 
@@ -200,9 +433,9 @@ export const gradeCalculatorV2 = {
     return 'blue';
   },
 
-  // Get human-readable status label in Japanese
-  getStatusLabel: (status: GradeStatus): string => {
-    if (status.status === 'fail') return '不可';
+  // Get human-readable status label in Japanese (fail uses the scale's failing 評語)
+  getStatusLabel: (status: GradeStatus, scale: GradingScale = DEFAULT_GRADING_SCALE): string => {
+    if (status.status === 'fail') return getFailingLabel(scale);
     if (status.status === 'risk') return '危険';
     return '安全';
   },
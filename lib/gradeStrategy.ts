@@ -0,0 +1,179 @@
+/**
+ * lib/gradeStrategy.ts
+ *
+ * 成績計算の戦略（GradeCalculationStrategy）
+ *
+ * 成績・欠課・GPA の計算はコンポーネントから直接 gradeCalculator / gradeCalculatorV2 を
+ * 呼ばず、学校設定から解決した戦略を通す。戦略は評価尺度と欠課規程を内部に持つため、
+ * 呼び出し側は科目を渡すだけでよい。
+ *
+ *   - standard: 評価項目ごとの集計（小テストの最低点除外など）と欠課規程（公欠・遅刻換算）
+ *   - legacy:   評価項目の単純平均と、科目に設定した欠課数の上限（absenceThreshold）
+ *
+ * 戦略は次の順で決まる。
+ *   1. 利用者が選んだ方式（SchoolInfo.gradeStrategy。ダッシュボードの評語分布から変更できる）
+ *   2. 学校の方式（kosenList.ts の KosenSchool.gradeStrategy）
+ *   3. standard
+ */
+
+import { CriteriaTarget, EvaluationCriteria, GPAData, GradeStatus, GradeStrategyId, SchoolInfo, Subject } from './types';
+import { gradeCalculator } from './gradeCalculator';
+import { gradeCalculatorV2 } from './gradeCalculatorV2';
+import { GradingScale, DEFAULT_GRADING_SCALE, getGradeLevel, getGradingScale, scoreToGP } from './gradingScale';
+import { AbsencePolicySet, DEFAULT_ABSENCE_POLICIES, getAbsencePolicies } from './absencePolicy';
+import { getSchoolByName } from './kosenList';
+
+// ─────────────────────────────────────────────
+// 型定義
+// ─────────────────────────────────────────────
+
+export interface GradeCalculationStrategy {
+  id: GradeStrategyId;
+  /** 表示名 */
+  label: string;
+  /** 評語と GP の対応表 */
+  gradingScale: GradingScale;
+  /** 授業形態ごとの欠課規程 */
+  absencePolicies: AbsencePolicySet;
+
+  /** 科目の現在の成績（0〜100） */
+  calculateSubjectGrade(subject: Subject): number;
+  /** 残りの評価項目で満点を取った場合の最終成績 */
+  predictFinalGrade(subject: Subject): number;
+  /** 合格に必要な残り評価項目の得点率（0 = 合格済み、Infinity = 上げる余地なし） */
+  pointsNeededToPass(subject: Subject, passingGrade?: number): number;
+  getGradeStatus(subject: Subject): GradeStatus;
+  calculateSubjectGPA(subject: Subject): number;
+  getLetterGrade(subject: Subject): string;
+  calculateGPA(subjects: Subject[]): GPAData;
+
+  /** 欠課上限 */
+  calculateAbsenceLimit(subject: Subject): number;
+  /** 上限判定に使う欠課数 */
+  calculateEffectiveAbsences(subject: Subject): number;
+  /** あと何回まで欠課できるか */
+  calculateRemainingAttendance(subject: Subject): number;
+  /** 出席率（%） */
+  attendancePercentage(subject: Subject): number;
+
+  /** 評価項目の得点率（未入力なら null） */
+  calculateCriteriaPercent(subject: Subject, criteria: EvaluationCriteria): number | null;
+  /** まだ採点されていない評価項目か */
+  isCriteriaRemaining(subject: Subject, criteria: EvaluationCriteria): boolean;
+  /** 評価項目の重みのうち採点済みの割合（0〜1、小項目の一部だけ採点済みなど） */
+  getCriteriaGradedShare(subject: Subject, criteria: EvaluationCriteria): number;
+  /** 残りの評価項目ごとの合格目標 */
+  calculateCriteriaTargets(subject: Subject): CriteriaTarget[];
+  /** 仮の点数を当てはめた科目（What-if 用） */
+  applyHypotheticalScores(subject: Subject, scores: Record<string, number>): Subject;
+
+  getIntelligentColor(status: GradeStatus): 'blue' | 'orange' | 'red';
+  getStatusLabel(status: GradeStatus): string;
+}
+
+export const GRADE_STRATEGY_LABELS: Record<GradeStrategyId, string> = {
+  standard: '標準（評価項目ごとの集計・欠課規程）',
+  legacy: '旧方式（単純平均・欠課数の上限）',
+};
+
+// ─────────────────────────────────────────────
+// 実装
+// ─────────────────────────────────────────────
+
+/** 評価項目単位の表示（両方式で共通。合格目標は方式ごとの pointsNeededToPass から作る） */
+const criteriaHelpers = {
+  calculateCriteriaPercent: (subject: Subject, criteria: EvaluationCriteria) =>
+    gradeCalculatorV2.calculateCriteriaPercent(subject, criteria),
+  isCriteriaRemaining: (subject: Subject, criteria: EvaluationCriteria) =>
+    gradeCalculatorV2.isCriteriaRemaining(subject, criteria),
+  getCriteriaGradedShare: (subject: Subject, criteria: EvaluationCriteria) =>
+    gradeCalculatorV2.getCriteriaGradedShare(subject, criteria),
+  applyHypotheticalScores: (subject: Subject, scores: Record<string, number>) =>
+    gradeCalculatorV2.applyHypotheticalScores(subject, scores),
+};
+
+function createStandardStrategy(scale: GradingScale, policies: AbsencePolicySet): GradeCalculationStrategy {
+  return {
+    id: 'standard',
+    label: GRADE_STRATEGY_LABELS.standard,
+    gradingScale: scale,
+    absencePolicies: policies,
+    calculateSubjectGrade: (subject) => gradeCalculatorV2.calculateSubjectGrade(subject),
+    predictFinalGrade: (subject) => gradeCalculatorV2.predictFinalGrade(subject),
+    pointsNeededToPass: (subject, passingGrade = subject.passingGrade) =>
+      gradeCalculatorV2.pointsNeededToPass(subject, passingGrade),
+    getGradeStatus: (subject) => gradeCalculatorV2.getGradeStatus(subject, scale, policies),
+    calculateCriteriaTargets: (subject) => gradeCalculatorV2.calculateCriteriaTargets(subject),
+    calculateSubjectGPA: (subject) => gradeCalculatorV2.calculateSubjectGPA(subject, scale),
+    getLetterGrade: (subject) => gradeCalculatorV2.getLetterGrade(subject, scale),
+    calculateGPA: (subjects) => gradeCalculatorV2.calculateGPA(subjects, scale),
+    calculateAbsenceLimit: (subject) => gradeCalculatorV2.calculateAbsenceLimit(subject, policies),
+    calculateEffectiveAbsences: (subject) => gradeCalculatorV2.calculateEffectiveAbsences(subject, policies),
+    calculateRemainingAttendance: (subject) => gradeCalculatorV2.calculateRemainingAttendance(subject, policies),
+    attendancePercentage: (subject) => gradeCalculatorV2.attendancePercentage(subject, policies),
+    ...criteriaHelpers,
+    getIntelligentColor: (status) => gradeCalculatorV2.getIntelligentColor(status),
+    getStatusLabel: (status) => gradeCalculatorV2.getStatusLabel(status, scale),
+  };
+}
+
+function createLegacyStrategy(scale: GradingScale, policies: AbsencePolicySet): GradeCalculationStrategy {
+  const calculateSubjectGrade = (subject: Subject) => gradeCalculator.calculateSubjectGrade(subject);
+
+  return {
+    id: 'legacy',
+    label: GRADE_STRATEGY_LABELS.legacy,
+    gradingScale: scale,
+    absencePolicies: policies,
+    calculateSubjectGrade,
+    predictFinalGrade: (subject) => gradeCalculator.predictFinalGrade(subject, calculateSubjectGrade(subject)),
+    pointsNeededToPass: (subject, passingGrade = subject.passingGrade) =>
+      gradeCalculator.pointsNeededToPass(subject, passingGrade),
+    getGradeStatus: (subject) => gradeCalculator.getGradeStatus(subject, scale),
+    calculateCriteriaTargets: (subject) =>
+      gradeCalculatorV2.calculateCriteriaTargets(
+        subject,
+        subject.passingGrade,
+        gradeCalculator.pointsNeededToPass(subject, subject.passingGrade)
+      ),
+    calculateSubjectGPA: (subject) => scoreToGP(calculateSubjectGrade(subject), scale),
+    getLetterGrade: (subject) => getGradeLevel(calculateSubjectGrade(subject), scale).label,
+    calculateGPA: (subjects) => gradeCalculatorV2.calculateGPA(subjects, scale, calculateSubjectGrade),
+    calculateAbsenceLimit: (subject) => subject.absenceThreshold,
+    calculateEffectiveAbsences: (subject) => subject.absences,
+    calculateRemainingAttendance: (subject) => Math.max(0, subject.absenceThreshold - subject.absences),
+    attendancePercentage: (subject) => gradeCalculator.attendancePercentage(subject),
+    ...criteriaHelpers,
+    getIntelligentColor: (status) => gradeCalculatorV2.getIntelligentColor(status),
+    getStatusLabel: (status) => gradeCalculatorV2.getStatusLabel(status, scale),
+  };
+}
+
+// ─────────────────────────────────────────────
+// 解決
+// ─────────────────────────────────────────────
+
+export function createGradeStrategy(
+  id: GradeStrategyId,
+  scale: GradingScale = DEFAULT_GRADING_SCALE,
+  policies: AbsencePolicySet = DEFAULT_ABSENCE_POLICIES
+): GradeCalculationStrategy {
+  return id === 'legacy' ? createLegacyStrategy(scale, policies) : createStandardStrategy(scale, policies);
+}
+
+/** 学校設定が無いときの戦略（標準の評価尺度・欠課規程） */
+export const DEFAULT_GRADE_STRATEGY: GradeCalculationStrategy = createGradeStrategy('standard');
+
+/** 学校情報から成績計算の戦略を取得（評価尺度・欠課規程も学校の設定を使う） */
+export function getGradeStrategy(
+  schoolInfo: Pick<SchoolInfo, 'schoolName' | 'gradingScale' | 'gradeStrategy'>
+): GradeCalculationStrategy {
+  const { schoolName } = schoolInfo;
+  const school = getSchoolByName(schoolName);
+  if (!school && !schoolInfo.gradingScale && !schoolInfo.gradeStrategy) return DEFAULT_GRADE_STRATEGY;
+  return createGradeStrategy(
+    schoolInfo.gradeStrategy ?? school?.gradeStrategy ?? 'standard',
+    getGradingScale(schoolInfo),
+    getAbsencePolicies(schoolName)
+  );
+}
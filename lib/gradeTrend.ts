@@ -0,0 +1,103 @@
+/**
+ * lib/gradeTrend.ts
+ *
+ * 成績推移グラフのデータ
+ *
+ *   - 科目: 評価項目ごとの各成績（得点率）と、その日までの成績で計算した科目の成績
+ *   - 学期: 学期ごとの GPA と、その学期までの累積 GPA
+ *
+ * 計算は GradeCalculationStrategy を通すので、学校の計算方式・評価尺度に従う。
+ */
+
+import { Subject, Term } from './types';
+import { GradeCalculationStrategy } from './gradeStrategy';
+import { getGradePercent } from './gradeCalculatorV2';
+import { getTermLabel, sortTerms } from './termArchive';
+
+// ─────────────────────────────────────────────
+// 型定義
+// ─────────────────────────────────────────────
+
+/** 1日分の点。criteria の各キー（評価項目 ID）はその日の成績の得点率（0〜100） */
+export interface GradeTrendPoint {
+  date: string; // YYYY-MM-DD
+  /** その日までの成績で計算した科目の成績 */
+  grade: number;
+  criteria: Record<string, number>;
+}
+
+export interface TermGPAPoint {
+  termId: string;
+  label: string;
+  /** グラフの軸用（例: "2年 前期"） */
+  shortLabel: string;
+  gpa: number;
+  /** その学期までの累積 GPA */
+  cumulativeGPA: number;
+  credits: number;
+}
+
+// ─────────────────────────────────────────────
+// 科目の成績推移
+// ─────────────────────────────────────────────
+
+/**
+ * 成績を日付順に並べた推移
+ * 同じ日に同じ評価項目の成績が複数あれば平均する
+ */
+export function buildGradeTrend(subject: Subject, strategy: GradeCalculationStrategy): GradeTrendPoint[] {
+  const criteriaById = new Map(subject.evaluationCriteria.map((c) => [c.id, c]));
+  const grades = subject.grades
+    .filter((g) => criteriaById.has(g.criteriaId))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const dates = [...new Set(grades.map((g) => g.date.slice(0, 10)))];
+
+  return dates.map((date) => {
+    const gradesOnDate = grades.filter((g) => g.date.slice(0, 10) === date);
+    const percents = new Map<string, number[]>();
+    for (const g of gradesOnDate) {
+      const percent = Math.round(getGradePercent(g, criteriaById.get(g.criteriaId)!) * 10) / 10;
+      percents.set(g.criteriaId, [...(percents.get(g.criteriaId) ?? []), percent]);
+    }
+
+    // 確定済みの成績ではなく、その日までの成績から計算し直す
+    const gradesSoFar = grades.filter((g) => g.date.slice(0, 10) <= date);
+    return {
+      date,
+      grade: strategy.calculateSubjectGrade({ ...subject, grades: gradesSoFar, finalGrade: undefined }),
+      criteria: Object.fromEntries(
+        [...percents].map(([id, values]) => [
+          id,
+          Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 10) / 10,
+        ])
+      ),
+    };
+  });
+}
+
+// ─────────────────────────────────────────────
+// 学期 GPA の推移
+// ─────────────────────────────────────────────
+
+/** 科目のある学期を古い順に並べ、学期 GPA と累積 GPA を求める */
+export function buildTermGPAHistory(terms: Term[], strategy: GradeCalculationStrategy): TermGPAPoint[] {
+  const history: TermGPAPoint[] = [];
+  const subjectsSoFar: Subject[] = [];
+
+  for (const term of sortTerms(terms)) {
+    const subjects = term.timetable.subjects;
+    if (subjects.length === 0) continue;
+    subjectsSoFar.push(...subjects);
+
+    const gpa = strategy.calculateGPA(subjects);
+    history.push({
+      termId: term.id,
+      label: getTermLabel(term),
+      shortLabel: `${term.grade}年 ${term.semester === 'spring' ? '前期' : '後期'}`,
+      gpa: Math.round(gpa.totalGPA * 100) / 100,
+      cumulativeGPA: Math.round(strategy.calculateGPA(subjectsSoFar).totalGPA * 100) / 100,
+      credits: gpa.credits,
+    });
+  }
+  return history;
+}
@@ -0,0 +1,160 @@
+/**
+ * lib/gradingScale.ts
+ *
+ * 学校ごとの評語（秀/優/良/可/不可 など）と GP（Grade Point）の対応表
+ *
+ * 点数 → 評語 → GP の変換はすべてここを通す。
+ * 尺度は次の順で決まる。
+ *   1. 利用者が選んだ尺度（SchoolInfo.gradingScale。ダッシュボードの評語分布から変更できる）
+ *   2. 学校の尺度（kosenList.ts の KosenSchool.gradingScale）
+ *   3. DEFAULT_GRADING_SCALE
+ */
+
+import { GradingScaleId, SchoolInfo, Subject } from './types';
+import { getSchoolByName } from './kosenList';
+
+// ─────────────────────────────────────────────
+// 型定義
+// ─────────────────────────────────────────────
+
+export interface GradeLevel {
+  /** この評語になる最低点（以上） */
+  minScore: number;
+  /** 評語（例: 秀, 優, A） */
+  label: string;
+  /** 評語に対応する GP */
+  gp: number;
+  /** 単位修得となるか */
+  passed: boolean;
+}
+
+/**
+ * 100点法 GPA 用の換算式
+ * GP = (点数 - offset) / divisor を 0〜max に丸める（合格点未満は 0）
+ */
+export interface GPFormula {
+  offset: number;
+  divisor: number;
+  max: number;
+}
+
+export interface GradingScale {
+  id: GradingScaleId;
+  name: string;
+  /** minScore の降順で並べること */
+  levels: GradeLevel[];
+  /** 指定時は levels の gp の代わりに点数から GP を算出する */
+  gpFormula?: GPFormula;
+  /** 履修単位の科目を GPA 計算に含めるか（修得単位数には常に含める） */
+  rishuCreditsInGPA: boolean;
+}
+
+// ─────────────────────────────────────────────
+// 標準の尺度
+// ─────────────────────────────────────────────
+
+/** 5段階（秀/優/良/可/不可）— 従来のアプリの計算と同じ */
+export const FIVE_LEVEL_SCALE: GradingScale = {
+  id: 'five-level',
+  name: '5段階（秀・優・良・可・不可）',
+  levels: [
+    { minScore: 90, label: '秀', gp: 4, passed: true },
+    { minScore: 80, label: '優', gp: 3, passed: true },
+    { minScore: 70, label: '良', gp: 2, passed: true },
+    { minScore: 60, label: '可', gp: 1, passed: true },
+    { minScore: 0, label: '不可', gp: 0, passed: false },
+  ],
+  rishuCreditsInGPA: true,
+};
+
+/** 4段階（優/良/可/不可） */
+export const FOUR_LEVEL_SCALE: GradingScale = {
+  id: 'four-level',
+  name: '4段階（優・良・可・不可）',
+  levels: [
+    { minScore: 80, label: '優', gp: 3, passed: true },
+    { minScore: 70, label: '良', gp: 2, passed: true },
+    { minScore: 60, label: '可', gp: 1, passed: true },
+    { minScore: 0, label: '不可', gp: 0, passed: false },
+  ],
+  rishuCreditsInGPA: true,
+};
+
+/** 100点法 GPA（GP = (点数 - 55) / 10、最大 4.5） */
+export const LINEAR_GP_SCALE: GradingScale = {
+  id: 'linear',
+  name: '100点法 GPA',
+  levels: FIVE_LEVEL_SCALE.levels,
+  gpFormula: { offset: 55, divisor: 10, max: 4.5 },
+  rishuCreditsInGPA: true,
+};
+
+export const DEFAULT_GRADING_SCALE = FIVE_LEVEL_SCALE;
+
+export const GRADING_SCALES: GradingScale[] = [FIVE_LEVEL_SCALE, FOUR_LEVEL_SCALE, LINEAR_GP_SCALE];
+
+// ─────────────────────────────────────────────
+// ユーティリティ関数
+// ─────────────────────────────────────────────
+
+/** ID から評価尺度を取得（不明な ID は undefined） */
+export function findGradingScale(id: string | undefined): GradingScale | undefined {
+  return GRADING_SCALES.find((scale) => scale.id === id);
+}
+
+/** 学校情報から評価尺度を取得（利用者の選択 → 学校の尺度 → 標準の5段階） */
+export function getGradingScale(schoolInfo: Pick<SchoolInfo, 'schoolName' | 'gradingScale'>): GradingScale {
+  return (
+    findGradingScale(schoolInfo.gradingScale) ??
+    findGradingScale(getSchoolByName(schoolInfo.schoolName)?.gradingScale) ??
+    DEFAULT_GRADING_SCALE
+  );
+}
+
+/** 点数に対応する評語 */
+export function getGradeLevel(score: number, scale: GradingScale = DEFAULT_GRADING_SCALE): GradeLevel {
+  return (
+    scale.levels.find((level) => score >= level.minScore) ??
+    scale.levels[scale.levels.length - 1]
+  );
+}
+
+/** 点数に対応する GP */
+export function scoreToGP(score: number, scale: GradingScale = DEFAULT_GRADING_SCALE): number {
+  const level = getGradeLevel(score, scale);
+  if (!level.passed) return 0;
+  if (!scale.gpFormula) return level.gp;
+
+  const { offset, divisor, max } = scale.gpFormula;
+  const gp = (score - offset) / divisor;
+  return Math.round(Math.min(max, Math.max(0, gp)) * 10) / 10;
+}
+
+/** 尺度で単位修得となる最低点（例: 可 の 60 点） */
+export function getPassingScore(scale: GradingScale = DEFAULT_GRADING_SCALE): number {
+  const passing = scale.levels.filter((level) => level.passed);
+  return passing.length > 0 ? Math.min(...passing.map((level) => level.minScore)) : 60;
+}
+
+/**
+ * 成績ステータスの境目
+ *   safe: これ以上なら安全（科目の合格点。未設定なら尺度の合格点）
+ *   risk: これ以上なら危険、未満は不可（safe の半分）
+ */
+export function getStatusThresholds(
+  subject: Pick<Subject, 'passingGrade'>,
+  scale: GradingScale = DEFAULT_GRADING_SCALE
+): { safe: number; risk: number } {
+  const safe = subject.passingGrade || getPassingScore(scale);
+  return { safe, risk: safe / 2 };
+}
+
+/** 不合格の評語（例: 不可） */
+export function getFailingLabel(scale: GradingScale = DEFAULT_GRADING_SCALE): string {
+  return scale.levels.find((level) => !level.passed)?.label ?? '不可';
+}
+
+/** GPA の計算対象に含める科目か */
+export function countsTowardGPA(subject: Subject, scale: GradingScale = DEFAULT_GRADING_SCALE): boolean {
+  return scale.rishuCreditsInGPA || subject.creditKind !== 'rishu';
+}
@@ -0,0 +1,229 @@
+/**
+ * lib/history.ts
+ *
+ * 元に戻す / やり直す の履歴
+ *
+ * storage の変更操作は、操作の前後で変わった部分だけを ConfigPatch として undo スタックに積む。
+ *   - 科目: 変わった科目の操作前・操作後（学期と並び順つき。追加・削除は片方が null）
+ *   - 科目以外: 学校情報・学期・年間予定などが変わったときだけ操作前・操作後
+ * 元に戻すときはパッチの before を、やり直すときは after を今のデータに当てる。
+ * 同じパッチが逆操作を兼ねるので、履歴は undo / redo の間で移すだけでよい。
+ *
+ * 履歴は StorageAdapter（通常は IndexedDB）に保存し、再読み込み後や「すべて削除」の後でも戻せるようにする。
+ * 件数（HISTORY_LIMIT）とサイズ（HISTORY_MAX_SIZE）の上限を超えた古い履歴から捨てる。
+ */
+
+import { AppConfig, Subject } from './types';
+import { findSubject, stripSubjects } from './termArchive';
+
+// ─────────────────────────────────────────────
+// 型定義
+// ─────────────────────────────────────────────
+
+/** 保持する履歴の件数（undo / redo それぞれ） */
+export const HISTORY_LIMIT = 20;
+
+/** 履歴全体の目安の上限（JSON の文字数）。最新の1件は超えていても残す */
+export const HISTORY_MAX_SIZE = 2 * 1024 * 1024;
+
+/** 科目がどの学期の何番目にあったか */
+export interface PlacedSubject {
+  termId: string;
+  index: number;
+  subject: Subject;
+}
+
+/** 操作で変わった1科目（null = その時点で科目が無い） */
+export interface SubjectChange {
+  id: string;
+  before: PlacedSubject | null;
+  after: PlacedSubject | null;
+}
+
+export interface ConfigPatch {
+  /** 科目以外の情報（stripSubjects）。変わっていなければ省略、null = データなし（すべて削除） */
+  meta?: { before: AppConfig | null; after: AppConfig | null };
+  subjects: SubjectChange[];
+}
+
+export type PatchSide = 'before' | 'after';
+
+export interface HistoryEntry {
+  id: string;
+  /** 操作の表示名（例: "成績を削除"） */
+  label: string;
+  patch: ConfigPatch;
+  /** patch の JSON の文字数（上限の判定用） */
+  size: number;
+  at: string; // ISO datetime
+}
+
+export interface HistoryState {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+}
+
+export function createHistoryState(): HistoryState {
+  return { undo: [], redo: [] };
+}
+
+/** 保存済みの履歴を読み込む（壊れた項目は捨てる） */
+export function parseHistoryState(stored: unknown): HistoryState {
+  const state = stored as Partial<Record<keyof HistoryState, unknown>> | null;
+  const isEntry = (e: unknown): e is HistoryEntry =>
+    typeof e === 'object' &&
+    e !== null &&
+    'id' in e &&
+    typeof e.id === 'string' &&
+    'label' in e &&
+    typeof e.label === 'string' &&
+    'size' in e &&
+    typeof e.size === 'number' &&
+    'patch' in e &&
+    typeof e.patch === 'object' &&
+    e.patch !== null &&
+    'subjects' in e.patch &&
+    Array.isArray(e.patch.subjects);
+  return {
+    undo: Array.isArray(state?.undo) ? state.undo.filter(isEntry) : [],
+    redo: Array.isArray(state?.redo) ? state.redo.filter(isEntry) : [],
+  };
+}
+
+// ─────────────────────────────────────────────
+// パッチ
+// ─────────────────────────────────────────────
+
+function isSame(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function placeSubjects(config: AppConfig | null): Map<string, PlacedSubject> {
+  const placed = new Map<string, PlacedSubject>();
+  for (const term of config?.terms ?? []) {
+    term.timetable.subjects.forEach((subject, index) => placed.set(subject.id, { termId: term.id, index, subject }));
+  }
+  return placed;
+}
+
+/**
+ * 操作の前後の差分
+ * @param changedSubjectIds 操作で変わった科目（省略時は全科目を比べる）
+ */
+export function diffConfigs(
+  before: AppConfig | null,
+  after: AppConfig | null,
+  changedSubjectIds?: string[]
+): ConfigPatch {
+  const patch: ConfigPatch = { subjects: [] };
+
+  const metaBefore = before && stripSubjects(before);
+  const metaAfter = after && stripSubjects(after);
+  if (!isSame(metaBefore, metaAfter)) patch.meta = { before: metaBefore, after: metaAfter };
+
+  const placedBefore = placeSubjects(before);
+  const placedAfter = placeSubjects(after);
+  const ids = changedSubjectIds ?? [...new Set([...placedBefore.keys(), ...placedAfter.keys()])];
+  for (const id of new Set(ids)) {
+    const b = placedBefore.get(id) ?? null;
+    const a = placedAfter.get(id) ?? null;
+    if (!isSame(b, a)) patch.subjects.push({ id, before: b, after: a });
+  }
+  return patch;
+}
+
+/**
+ * パッチの片側（before = 元に戻す、after = やり直す）を current に当てた新しい AppConfig
+ * 科目以外の情報がその時点で「データなし」なら null
+ */
+export function applyPatch(current: AppConfig, patch: ConfigPatch, side: PatchSide): AppConfig | null {
+  const meta = patch.meta?.[side];
+  if (meta === null) return null;
+
+  const config = structuredClone(current);
+
+  // 変わった科目をいったん外し、その時点の位置に戻す
+  for (const { id } of patch.subjects) {
+    const found = findSubject(config, id);
+    if (found) found.term.timetable.subjects.splice(found.index, 1);
+  }
+
+  if (meta) {
+    const subjectsByTerm = new Map(config.terms.map((term) => [term.id, term.timetable.subjects]));
+    Object.assign(config, structuredClone(meta));
+    for (const term of config.terms) term.timetable.subjects = subjectsByTerm.get(term.id) ?? [];
+    // 学期の切り替えは履歴に残さないので、表示中の学期が残っていればそのまま
+    if (config.terms.some((term) => term.id === current.activeTermId)) config.activeTermId = current.activeTermId;
+  }
+
+  const restored = patch.subjects
+    .map((change) => change[side])
+    .filter((placed): placed is PlacedSubject => placed !== null)
+    .sort((a, b) => a.index - b.index);
+  for (const { termId, index, subject } of restored) {
+    const term = config.terms.find((t) => t.id === termId);
+    if (!term) {
+      console.warn(`[history] 学期 ${termId} が無いため科目を戻せません: ${subject.name}`);
+      continue;
+    }
+    term.timetable.subjects.splice(index, 0, structuredClone(subject));
+  }
+  return config;
+}
+
+// ─────────────────────────────────────────────
+// スタック操作
+// ─────────────────────────────────────────────
+
+/** サイズの上限に収まるよう古い方から捨てる（entries は古い順。最新の1件は必ず残す） */
+function capBySize(entries: HistoryEntry[]): HistoryEntry[] {
+  let total = 0;
+  let start = entries.length;
+  while (start > 0 && (start === entries.length || total + entries[start - 1].size <= HISTORY_MAX_SIZE)) {
+    total += entries[start - 1].size;
+    start--;
+  }
+  return entries.slice(start);
+}
+
+/** 新しい操作を記録する（やり直し履歴は破棄）。何も変わっていなければ記録しない */
+export function recordChange(state: HistoryState, label: string, patch: ConfigPatch): HistoryState {
+  if (!patch.meta && patch.subjects.length === 0) return state;
+
+  const entry: HistoryEntry = {
+    id: crypto.randomUUID(),
+    label,
+    patch,
+    size: JSON.stringify(patch).length,
+    at: new Date().toISOString(),
+  };
+  return { undo: capBySize([...state.undo, entry].slice(-HISTORY_LIMIT)), redo: [] };
+}
+
+/** 元に戻す（最後の操作を redo へ移す）。履歴が無ければ null */
+export function takeUndo(state: HistoryState): { entry: HistoryEntry; state: HistoryState } | null {
+  const entry = state.undo[state.undo.length - 1];
+  if (!entry) return null;
+  return {
+    entry,
+    state: { undo: state.undo.slice(0, -1), redo: [...state.redo, entry].slice(-HISTORY_LIMIT) },
+  };
+}
+
+/** やり直す（takeUndo の逆） */
+export function takeRedo(state: HistoryState): { entry: HistoryEntry; state: HistoryState } | null {
+  const entry = state.redo[state.redo.length - 1];
+  if (!entry) return null;
+  return {
+    entry,
+    state: { undo: [...state.undo, entry].slice(-HISTORY_LIMIT), redo: state.redo.slice(0, -1) },
+  };
+}
+
+/** 古い履歴を半分捨てる（保存容量が足りないとき用） */
+export function trimHistory(state: HistoryState): HistoryState {
+  return {
+    undo: state.undo.slice(Math.ceil(state.undo.length / 2)),
+    redo: state.redo.slice(Math.ceil(state.redo.length / 2)),
+  };
+}
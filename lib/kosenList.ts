@@ -16,6 +16,11 @@
  * ────────────────────────────────────────────────────────────────────────
  */
 
+import type { GradeStrategyId, GradingScaleId } from './types';
+import type { PromotionRuleSet } from './promotionRules';
+import type { SchoolAbsencePolicy } from './absencePolicy';
+import type { CalendarTemplate } from './academicCalendar';
+
 // ─────────────────────────────────────────────
 // 型定義
 // ─────────────────────────────────────────────
@@ -65,6 +70,31 @@ export interface KosenSchool {
   legacyCutoffYear?: number;
   /** マルチキャンパス校のキャンパス名 */
   campuses?: string[];
+  /**
+   * 進級・卒業判定ルール（学業成績評価規程）
+   * 省略した項目は promotionRules.ts の DEFAULT_PROMOTION_RULES を使用
+   */
+  promotionRules?: Partial<PromotionRuleSet>;
+  /**
+   * 評語と GP の対応表（gradingScale.ts の GRADING_SCALES の ID）
+   * 省略時は DEFAULT_GRADING_SCALE（秀・優・良・可・不可）。利用者が選んだ尺度があればそちらを使う
+   */
+  gradingScale?: GradingScaleId;
+  /**
+   * 欠課規程（公欠・忌引の扱い、遅刻の換算、単位時間）
+   * 省略した項目は absencePolicy.ts の DEFAULT_ABSENCE_POLICIES を使用
+   */
+  absencePolicy?: SchoolAbsencePolicy;
+  /**
+   * 年間行事予定の既定値（学期の開始・終了日、長期休業）
+   * 省略した項目は academicCalendar.ts の DEFAULT_CALENDAR_TEMPLATE を使用
+   */
+  calendarTemplate?: Partial<CalendarTemplate>;
+  /**
+   * 成績・欠課の計算方式
+   * 省略時は gradeStrategy.ts の 'standard'（評価項目ごとの集計・欠課規程）。利用者が選んだ方式があればそちらを使う
+   */
+  gradeStrategy?: GradeStrategyId;
 }
 
 // ─────────────────────────────────────────────
@@ -1,5 +1,5 @@
 import { Subject } from './types';
-import { SyllabusDetail, syllabusCache } from './syllabusDetailExtractor';
+import { SyllabusDetail, syllabusCache, calculateMeetingCount } from './syllabusDetailExtractor';
 
 /**
  * lib/kosenNaganoSyllabusService.ts
@@ -124,7 +124,7 @@ export const kosenNaganoService = {
     academicYear: number
   ): Subject[] {
     return syllabi.map((detail, index) => {
-      const classesPerSemester = detail.credits * 15;
+      const classesPerSemester = calculateMeetingCount(detail.credits, detail.creditKind);
       const absenceThreshold =
         detail.classType === 'experiment'
           ? Math.ceil(classesPerSemester / 10)
@@ -141,9 +141,10 @@ export const kosenNaganoService = {
         id: `nagano-${Date.now()}-${Math.random()}`,
         name: detail.subjectName,
         instructor: detail.instructor,
-        courseType: 'required' as const,
+        courseType: detail.courseType ?? 'required',
         classType: detail.classType,
         credits: detail.credits,
+        creditKind: detail.creditKind,
         passingGrade: 60,
         evaluationCriteria,
         grades: [],
@@ -153,6 +154,7 @@ export const kosenNaganoService = {
         classesPerSemester,
         semester,
         academicYear,
+        schedule: detail.schedule,
       };
     });
   },
@@ -0,0 +1,102 @@
+/**
+ * lib/lessonSchedule.ts
+ *
+ * シラバスの授業計画（Subject.schedule）と年間予定の対応付け
+ *
+ * 授業計画の週は「第何回の授業か」を表すので、試験の週を除いた k 番目の授業を
+ * 年間予定から生成した k 回目の授業日に対応させる（休日・振替授業は generateMeetings が反映済み）。
+ * 中間試験・期末試験の週は、年間予定の定期試験期間（名前に 中間 / 期末・学年末 を含むもの）に対応させ、
+ * 無ければ授業時間内の試験とみなしてその位置の授業日を試験日にする。
+ *
+ * 曜日が未設定で授業日を生成できない科目は、学期の開始日から1週ずつ進めた日付を目安にする。
+ */
+
+import { AcademicCalendar, CalendarPeriod, LessonExamKind, LessonPlanWeek, Subject } from './types';
+import { generateMeetings, getSemesterOnDate } from './academicCalendar';
+import { getSchoolDayOfWeek, parseDateKey, toDateKey } from './attendanceCalendar';
+
+// ─────────────────────────────────────────────
+// 型定義
+// ─────────────────────────────────────────────
+
+export interface ScheduledLesson {
+  lesson: LessonPlanWeek;
+  /** 授業日（定期試験期間に対応した試験は期間の初日）。年間予定が無ければ undefined */
+  date?: string;
+  /** 対応する定期試験期間 */
+  examPeriod?: CalendarPeriod;
+  /** 日付が授業日ではなく学期の開始日からの週数による目安 */
+  estimated: boolean;
+}
+
+export const LESSON_EXAM_LABELS: Record<LessonExamKind, string> = {
+  midterm: '中間試験',
+  final: '期末試験',
+};
+
+// ─────────────────────────────────────────────
+// 対応付け
+// ─────────────────────────────────────────────
+
+/** 科目の学期の授業計画（通年科目の計画から前期/後期の分だけ） */
+export function getSemesterSchedule(subject: Pick<Subject, 'schedule' | 'semester'>): LessonPlanWeek[] {
+  return (subject.schedule ?? []).filter(lesson => lesson.semester === subject.semester);
+}
+
+function findExamPeriod(
+  calendar: AcademicCalendar,
+  subject: Pick<Subject, 'semester'>,
+  exam: LessonPlanWeek['exam']
+): CalendarPeriod | undefined {
+  const pattern = exam === 'midterm' ? /中間/ : /期末|学年末/;
+  return calendar.examPeriods.find(
+    period => pattern.test(period.name) && getSemesterOnDate(calendar, period.start) === subject.semester
+  );
+}
+
+/** 授業計画の各週に授業日（試験は試験期間）を割り当てる */
+export function scheduleLessons(
+  subject: Pick<Subject, 'schedule' | 'semester' | 'dayOfWeek'>,
+  calendar?: AcademicCalendar
+): ScheduledLesson[] {
+  const lessons = getSemesterSchedule(subject);
+  if (!calendar) return lessons.map(lesson => ({ lesson, estimated: false }));
+
+  const meetings = generateMeetings(subject, calendar);
+  if (meetings.length === 0) {
+    // 曜日が無い科目は学期の開始日から1週ずつ
+    const start = parseDateKey(calendar.terms[subject.semester].start);
+    return lessons.map((lesson, i) => {
+      const date = new Date(start);
+      date.setDate(start.getDate() + i * 7);
+      return { lesson, date: toDateKey(date), estimated: true };
+    });
+  }
+
+  let meetingIndex = 0;
+  return lessons.map(lesson => {
+    const examPeriod = lesson.exam ? findExamPeriod(calendar, subject, lesson.exam) : undefined;
+    if (examPeriod) return { lesson, date: examPeriod.start, examPeriod, estimated: false };
+    return { lesson, date: meetings[meetingIndex++], estimated: false };
+  });
+}
+
+/**
+ * 今週（月〜日）の授業。今週に無ければ次の授業
+ * @returns isThisWeek = 今週の授業か。日付の無い計画や学期の授業が終わっていれば null
+ */
+export function getCurrentLesson(
+  scheduled: ScheduledLesson[],
+  today: Date = new Date()
+): { scheduled: ScheduledLesson; isThisWeek: boolean } | null {
+  const weekStart = new Date(today.getFullYear(), today.getMonth(), today.getDate() - getSchoolDayOfWeek(today));
+  const weekEnd = new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + 6);
+  const startKey = toDateKey(weekStart);
+  const endKey = toDateKey(weekEnd);
+
+  // 試験期間は複数日にわたるので終了日で判定する
+  const lastDay = (s: ScheduledLesson) => s.examPeriod?.end ?? s.date ?? '';
+  const next = scheduled.find(s => s.date && lastDay(s) >= startKey);
+  if (!next?.date) return null;
+  return { scheduled: next, isThisWeek: next.date <= endKey };
+}
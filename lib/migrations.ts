@@ -0,0 +1,171 @@
+/**
+ * lib/migrations.ts
+ *
+ * localStorage に保存された AppConfig のスキーマ移行
+ *
+ * 保存データの形を変えるときは:
+ *   1. CONFIG_MIGRATIONS の末尾に { version: N+1, migrate } を追加
+ *   2. CURRENT_SCHEMA_VERSION を N+1 に上げる
+ * migrate は「1つ前のバージョンの生データ」を受け取り、次のバージョンの形にして返す。
+ * 読み込み時に保存済みバージョンから順番に適用されるので、古いデータも段階的に追いつく。
+ */
+
+/** 現在のアプリが期待する保存データのバージョン */
+export const CURRENT_SCHEMA_VERSION = 3;
+
+/** 移行関数が扱う未検証の保存データ */
+export type RawConfig = Record<string, unknown>;
+
+/** オブジェクトならそのまま、それ以外は空のオブジェクトとして扱う */
+export const asRawConfig = (value: unknown): RawConfig =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as RawConfig) : {};
+
+/** 配列の要素をそれぞれ asRawConfig で読む（配列でなければ空） */
+const asRawList = (value: unknown): RawConfig[] => (Array.isArray(value) ? value.map(asRawConfig) : []);
+
+export interface ConfigMigration {
+  /** この移行を適用した後のバージョン */
+  version: number;
+  /** 変更内容の説明 */
+  description: string;
+  migrate: (data: RawConfig) => RawConfig;
+}
+
+export interface MigrationResult {
+  data: RawConfig;
+  fromVersion: number;
+  toVersion: number;
+  /** 実際に適用した移行のバージョン一覧 */
+  applied: number[];
+}
+
+// ─────────────────────────────────────────────
+// 移行定義（version の昇順で並べること）
+// ─────────────────────────────────────────────
+
+export const CONFIG_MIGRATIONS: ConfigMigration[] = [
+  {
+    version: 1,
+    description: 'schemaVersion 導入前の科目に欠損フィールド（absenceRecords / classType / classesPerSemester など）を補完',
+    migrate: (data) => {
+      const schoolInfo = asRawConfig(data.schoolInfo);
+      const defaultClasses = Number(data.classesPerSemester) || 40;
+      const timetable = asRawConfig(data.timetable);
+      const subjects = asRawList(timetable.subjects);
+
+      return {
+        ...data,
+        classesPerSemester: defaultClasses,
+        timetable: {
+          ...timetable,
+          periodsPerDay: timetable.periodsPerDay ?? 5,
+          subjects: subjects.map((subject) => {
+            const credits = Number(subject.credits) || 1;
+            const classType = subject.classType ?? 'lecture';
+            const classesPerSemester = Number(subject.classesPerSemester) || credits * 15 || defaultClasses;
+            const absenceRecords = Array.isArray(subject.absenceRecords) ? subject.absenceRecords : [];
+
+            return {
+              ...subject,
+              instructor: subject.instructor ?? '未入力',
+              courseType: subject.courseType ?? 'required',
+              classType,
+              credits,
+              passingGrade: subject.passingGrade ?? 60,
+              evaluationCriteria: subject.evaluationCriteria ?? [],
+              grades: subject.grades ?? [],
+              absences: subject.absences ?? absenceRecords.length,
+              absenceRecords,
+              classesPerSemester,
+              absenceThreshold:
+                subject.absenceThreshold ??
+                (classType === 'lecture'
+                  ? Math.floor(classesPerSemester / 3)
+                  : Math.ceil(classesPerSemester / 10)),
+              semester: subject.semester ?? schoolInfo.semester ?? 'spring',
+              academicYear: subject.academicYear ?? schoolInfo.academicYear ?? new Date().getFullYear(),
+            };
+          }),
+        },
+      };
+    },
+  },
+  {
+    version: 2,
+    description: '単一の timetable を (年度, 学期) ごとの terms アーカイブに分割',
+    migrate: (data) => {
+      const { timetable: rawTimetable, ...rest } = data;
+      const timetable = asRawConfig(rawTimetable);
+      const schoolInfo = asRawConfig(data.schoolInfo);
+      const currentYear = Number(schoolInfo.academicYear) || new Date().getFullYear();
+      const currentSemester = schoolInfo.semester === 'fall' ? 'fall' : 'spring';
+      const currentGrade = Number(schoolInfo.grade) || 1;
+      const periodsPerDay = timetable.periodsPerDay ?? 5;
+      const subjects = asRawList(timetable.subjects);
+
+      const terms = new Map<string, RawConfig & { timetable: { subjects: RawConfig[]; periodsPerDay: unknown } }>();
+      const getTerm = (academicYear: number, semester: string) => {
+        const id = `${academicYear}-${semester}`;
+        if (!terms.has(id)) {
+          terms.set(id, {
+            id,
+            academicYear,
+            semester,
+            grade: Math.min(5, Math.max(1, currentGrade - (currentYear - academicYear))),
+            timetable: { subjects: [], periodsPerDay },
+            closed: false,
+          });
+        }
+        return terms.get(id)!;
+      };
+
+      // 現在の学期は科目が無くても必ず作る
+      const activeTerm = getTerm(currentYear, currentSemester);
+      for (const subject of subjects) {
+        getTerm(
+          Number(subject.academicYear) || currentYear,
+          subject.semester === 'fall' ? 'fall' : 'spring'
+        ).timetable.subjects.push(subject);
+      }
+
+      return {
+        ...rest,
+        terms: [...terms.values()],
+        activeTermId: activeTerm.id,
+      };
+    },
+  },
+  {
+    version: 3,
+    description: '年間行事予定（calendars）を追加',
+    migrate: (data) => ({
+      ...data,
+      calendars: Array.isArray(data.calendars) ? data.calendars : [],
+    }),
+  },
+];
+
+/**
+ * 保存データを CURRENT_SCHEMA_VERSION まで順に移行する
+ * schemaVersion が無いデータは version 0 として扱う
+ */
+export function migrateConfig(raw: RawConfig): MigrationResult {
+  const fromVersion = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0;
+  const applied: number[] = [];
+  let data = raw;
+
+  for (const migration of CONFIG_MIGRATIONS) {
+    if (migration.version <= fromVersion) continue;
+    if (migration.version > CURRENT_SCHEMA_VERSION) break;
+
+    data = { ...migration.migrate(data), schemaVersion: migration.version };
+    applied.push(migration.version);
+  }
+
+  return {
+    data,
+    fromVersion,
+    toVersion: applied.length > 0 ? applied[applied.length - 1] : fromVersion,
+    applied,
+  };
+}
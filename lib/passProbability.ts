@@ -0,0 +1,189 @@
+/**
+ * lib/passProbability.ts
+ *
+ * 合格確率の見積もり
+ *
+ * GradeStatus.status は現在の点数の閾値（60点以上で安全 など）による区分なので、
+ * これから採点される評価項目の結果を統計的に見積もった合格確率と期待最終成績を別に求める。
+ *
+ *   1. 全科目（アーカイブを含む）の成績を評価項目の種類（試験・レポート・小テスト・その他）ごとに集め、
+ *      得点率の平均と標準偏差を求める。件数が少ない種類は全体の分布に寄せる（縮小推定）
+ *   2. 残りの評価項目の得点率をその分布の正規分布とみなし、科目の最終成績の分布を近似する
+ *      （期待値は成績計算の戦略で計算し、ばらつきは各項目の残りの重みで合成する）
+ *   3. 最終成績が合格点以上になる確率を正規分布の累積分布関数で求める
+ *
+ * 欠課上限を超えている科目は成績に関係なく 0%、確定済み・採点済みの科目は 0% か 100% になる。
+ */
+
+import { EvaluationCriteria, Subject } from './types';
+import { GradeCalculationStrategy } from './gradeStrategy';
+import { getGradePercent } from './gradeCalculatorV2';
+
+// ─────────────────────────────────────────────
+// 型定義
+// ─────────────────────────────────────────────
+
+export type CriterionKind = 'exam' | 'report' | 'quiz' | 'other';
+
+export const CRITERION_KIND_LABELS: Record<CriterionKind, string> = {
+  exam: '試験',
+  report: 'レポート',
+  quiz: '小テスト',
+  other: 'その他',
+};
+
+export interface ScoreDistribution {
+  /** 得点率（0〜100）の平均 */
+  mean: number;
+  /** 得点率の標準偏差 */
+  sd: number;
+  /** 元になった成績の件数 */
+  count: number;
+}
+
+export type ScoreDistributions = Record<CriterionKind, ScoreDistribution>;
+
+export interface PassEstimate {
+  /** 合格確率（0〜1） */
+  probability: number;
+  /** 期待される最終成績 */
+  expectedGrade: number;
+  /** 最終成績の標準偏差（確定していれば 0） */
+  sd: number;
+  /** 'estimated' = 残りの評価項目から見積もった / 'certain' = 結果が決まっている */
+  basis: 'estimated' | 'certain';
+}
+
+/** 成績が1件も無いときの分布 */
+const DEFAULT_DISTRIBUTION: ScoreDistribution = { mean: 65, sd: 15, count: 0 };
+
+/** 縮小推定で全体の分布を何件分として混ぜるか */
+const PRIOR_WEIGHT = 3;
+
+/** 標準偏差の下限（件数が少なくても確率が 0% / 100% に張り付かないように） */
+const MIN_SD = 5;
+
+// ─────────────────────────────────────────────
+// 評価項目の種類
+// ─────────────────────────────────────────────
+
+/** 評価項目名から種類を推定する（「小テスト」は「テスト」より先に判定） */
+export function getCriterionKind(criteria: Pick<EvaluationCriteria, 'name'>): CriterionKind {
+  const name = criteria.name;
+  if (/小テスト|小試験|確認テスト|クイズ|quiz/i.test(name)) return 'quiz';
+  if (/試験|テスト|考査|中間|期末|exam|test/i.test(name)) return 'exam';
+  if (/レポート|課題|提出物|演習|report|assignment/i.test(name)) return 'report';
+  return 'other';
+}
+
+// ─────────────────────────────────────────────
+// 得点率の分布
+// ─────────────────────────────────────────────
+
+function summarize(values: number[]): { mean: number; sd: number } {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance =
+    values.length > 1 ? values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1) : 0;
+  return { mean, sd: Math.sqrt(variance) };
+}
+
+/** 全科目の成績から評価項目の種類ごとの得点率の分布を求める */
+export function buildScoreDistributions(subjects: Subject[]): ScoreDistributions {
+  const samples: Record<CriterionKind, number[]> = { exam: [], report: [], quiz: [], other: [] };
+
+  for (const subject of subjects) {
+    for (const grade of subject.grades) {
+      const criteria = subject.evaluationCriteria.find((c) => c.id === grade.criteriaId);
+      if (!criteria) continue;
+      samples[getCriterionKind(criteria)].push(Math.min(100, getGradePercent(grade, criteria)));
+    }
+  }
+
+  const all = Object.values(samples).flat();
+  const prior = all.length > 1 ? { ...summarize(all), count: all.length } : DEFAULT_DISTRIBUTION;
+  const priorSd = Math.max(MIN_SD, prior.sd);
+
+  const estimate = (values: number[]): ScoreDistribution => {
+    if (values.length === 0) return { mean: prior.mean, sd: priorSd, count: 0 };
+    const { mean, sd } = summarize(values);
+    const n = values.length;
+    return {
+      mean: (n * mean + PRIOR_WEIGHT * prior.mean) / (n + PRIOR_WEIGHT),
+      sd: Math.max(MIN_SD, Math.sqrt((n * sd ** 2 + PRIOR_WEIGHT * priorSd ** 2) / (n + PRIOR_WEIGHT))),
+      count: n,
+    };
+  };
+
+  return {
+    exam: estimate(samples.exam),
+    report: estimate(samples.report),
+    quiz: estimate(samples.quiz),
+    other: estimate(samples.other),
+  };
+}
+
+// ─────────────────────────────────────────────
+// 合格確率
+// ─────────────────────────────────────────────
+
+/** 標準正規分布の累積分布関数（Abramowitz-Stegun 7.1.26 の erf 近似） */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) *
+      t *
+      Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+function certain(grade: number, passed: boolean): PassEstimate {
+  return { probability: passed ? 1 : 0, expectedGrade: grade, sd: 0, basis: 'certain' };
+}
+
+/**
+ * 科目の合格確率と期待最終成績
+ * @param distributions buildScoreDistributions で求めた種類ごとの分布
+ */
+export function estimatePassProbability(
+  subject: Subject,
+  distributions: ScoreDistributions,
+  strategy: GradeCalculationStrategy
+): PassEstimate {
+  if (subject.finalGrade) return certain(subject.finalGrade.value, subject.finalGrade.passed);
+
+  const current = strategy.calculateSubjectGrade(subject);
+  if (strategy.calculateEffectiveAbsences(subject) > strategy.calculateAbsenceLimit(subject)) {
+    return certain(current, false);
+  }
+
+  const totalWeight = subject.evaluationCriteria.reduce((sum, c) => sum + c.weight, 0);
+  if (totalWeight === 0) return certain(current, current >= subject.passingGrade);
+
+  // 残りの評価項目は期待得点率を仮の点数として当てはめ、ばらつきは残りの重みで合成する
+  const expectedScores: Record<string, number> = {};
+  let variance = 0;
+  for (const criteria of subject.evaluationCriteria) {
+    const remainingShare = strategy.isCriteriaRemaining(subject, criteria)
+      ? 1
+      : 1 - strategy.getCriteriaGradedShare(subject, criteria);
+    if (remainingShare <= 0) continue;
+
+    const { mean, sd } = distributions[getCriterionKind(criteria)];
+    const gradedPercent = remainingShare < 1 ? strategy.calculateCriteriaPercent(subject, criteria) : null;
+    const expectedPercent =
+      gradedPercent === null ? mean : gradedPercent * (1 - remainingShare) + mean * remainingShare;
+    expectedScores[criteria.id] = (expectedPercent / 100) * criteria.maxPoints;
+    variance += ((criteria.weight / totalWeight) * remainingShare * sd) ** 2;
+  }
+
+  if (Object.keys(expectedScores).length === 0) return certain(current, current >= subject.passingGrade);
+
+  const expectedGrade = strategy.calculateSubjectGrade(strategy.applyHypotheticalScores(subject, expectedScores));
+  const sd = Math.sqrt(variance);
+  // 点数は整数に丸められるので合格点 - 0.5 を境界にする
+  const probability = 1 - normalCdf((subject.passingGrade - 0.5 - expectedGrade) / sd);
+
+  return { probability, expectedGrade, sd, basis: 'estimated' };
+}
@@ -0,0 +1,217 @@
+/**
+ * lib/promotionRules.ts
+ *
+ * 進級・卒業判定ルールエンジン
+ *
+ * 学校ごとの学業成績評価規程（不可単位の上限・必修科目の扱い・卒業要件単位数）を
+ * PromotionRuleSet として表し、アーカイブ済み学期の確定成績と
+ * 現在学期の見込み成績から各条件の「達成 / 注意 / 未達」を判定する。
+ *
+ * 学校固有の値は kosenList.ts の KosenSchool.promotionRules で上書きする。
+ */
+
+import { CourseType, SchoolInfo, Subject } from './types';
+import { GradeCalculationStrategy, DEFAULT_GRADE_STRATEGY } from './gradeStrategy';
+import { getSchoolByName } from './kosenList';
+
+// ─────────────────────────────────────────────
+// 型定義
+// ─────────────────────────────────────────────
+
+export interface PromotionRuleSet {
+  /** 1年間で許容される不可（未修得）単位数の上限。これを超えると原級留置 */
+  maxFailedCreditsPerYear: number;
+  /** 修得必須とみなす科目区分 */
+  requiredCourseTypes: CourseType[];
+  /** 科目区分に関係なく修得必須の科目名（部分一致） */
+  requiredSubjectNames: string[];
+  /** 学年ごとの最低修得単位数（省略時は判定しない） */
+  minCreditsPerYear?: number;
+  /** 卒業に必要な総修得単位数 */
+  graduationCredits: number;
+  /** 在籍年数（本科は5年） */
+  programYears: number;
+}
+
+export type PromotionConditionStatus = 'met' | 'at-risk' | 'failed';
+
+export interface PromotionCondition {
+  id: 'failed-credits' | 'required-subjects' | 'year-credits' | 'graduation-credits';
+  label: string;
+  status: PromotionConditionStatus;
+  /** UI 表示用の説明文 */
+  detail: string;
+  current: number;
+  required: number;
+}
+
+export interface PromotionEvaluation {
+  /** 条件のうち最も悪い状態 */
+  overall: PromotionConditionStatus;
+  conditions: PromotionCondition[];
+  /** 全学期で修得済み（確定 + 合格見込み）の単位数 */
+  earnedCredits: number;
+}
+
+/** 多くの高専で採用されている標準的な値（目安） */
+export const DEFAULT_PROMOTION_RULES: PromotionRuleSet = {
+  maxFailedCreditsPerYear: 4,
+  requiredCourseTypes: ['required'],
+  requiredSubjectNames: [],
+  graduationCredits: 167,
+  programYears: 5,
+};
+
+// ─────────────────────────────────────────────
+// ルール解決
+// ─────────────────────────────────────────────
+
+/** 学校名から進級ルールを取得（未設定の項目は標準値） */
+export function getPromotionRules(schoolName: string): PromotionRuleSet {
+  const school = getSchoolByName(schoolName);
+  return { ...DEFAULT_PROMOTION_RULES, ...school?.promotionRules };
+}
+
+// ─────────────────────────────────────────────
+// 判定
+// ─────────────────────────────────────────────
+
+/** pending = まだ点数が無く見込みを判断できない（学期の初めなど） */
+type SubjectOutcome = 'passed' | 'at-risk' | 'failed' | 'pending';
+
+/**
+ * 科目の合否見込み
+ * 確定済み（finalGrade あり）はその結果、未確定は現在のステータスから判断する。
+ * 未確定の科目を不可とみなすのは欠課上限を超えたときと、残りの評価で満点を取っても合格できないときだけ。
+ */
+function getSubjectOutcome(subject: Subject, strategy: GradeCalculationStrategy): SubjectOutcome {
+  if (subject.finalGrade) return subject.finalGrade.passed ? 'passed' : 'failed';
+
+  const status = strategy.getGradeStatus(subject);
+  if (status.absenceWarning) return 'failed';
+  if (subject.grades.length === 0) return status.status === 'risk' ? 'at-risk' : 'pending';
+  if (status.status === 'safe') return 'passed';
+  if (status.status === 'risk' || status.canPass) return 'at-risk';
+  return 'failed';
+}
+
+function sumCredits(subjects: Subject[]): number {
+  return subjects.reduce((sum, s) => sum + (s.credits || 0), 0);
+}
+
+function isRequiredSubject(subject: Subject, rules: PromotionRuleSet): boolean {
+  return (
+    rules.requiredCourseTypes.includes(subject.courseType) ||
+    rules.requiredSubjectNames.some((name) => subject.name.includes(name))
+  );
+}
+
+const STATUS_RANK: Record<PromotionConditionStatus, number> = { met: 0, 'at-risk': 1, failed: 2 };
+
+/**
+ * 全学期の科目を進級・卒業ルールに照らして判定する
+ * @param subjects アーカイブを含む全科目
+ * @param schoolInfo 現在の学年・年度
+ * @param strategy 未確定の科目の見込みを計算する成績計算の戦略
+ */
+export function evaluatePromotion(
+  subjects: Subject[],
+  schoolInfo: Pick<SchoolInfo, 'grade' | 'academicYear'>,
+  rules: PromotionRuleSet = DEFAULT_PROMOTION_RULES,
+  strategy: GradeCalculationStrategy = DEFAULT_GRADE_STRATEGY
+): PromotionEvaluation {
+  const outcomes = subjects.map((subject) => ({ subject, outcome: getSubjectOutcome(subject, strategy) }));
+  const thisYear = outcomes.filter((o) => o.subject.academicYear === schoolInfo.academicYear);
+  const conditions: PromotionCondition[] = [];
+
+  // ── 1. 不可単位の上限 ─────────────────────────────────────────────────
+  const failedCredits = sumCredits(thisYear.filter((o) => o.outcome === 'failed').map((o) => o.subject));
+  const riskCredits = sumCredits(thisYear.filter((o) => o.outcome === 'at-risk').map((o) => o.subject));
+  conditions.push({
+    id: 'failed-credits',
+    label: '不可単位数',
+    status:
+      failedCredits > rules.maxFailedCreditsPerYear
+        ? 'failed'
+        : failedCredits + riskCredits > rules.maxFailedCreditsPerYear
+        ? 'at-risk'
+        : 'met',
+    detail:
+      `今年度の不可 ${failedCredits} 単位（上限 ${rules.maxFailedCreditsPerYear} 単位）` +
+      (riskCredits > 0 ? `・危険 ${riskCredits} 単位` : ''),
+    current: failedCredits,
+    required: rules.maxFailedCreditsPerYear,
+  });
+
+  // ── 2. 必修科目 ──────────────────────────────────────────────────────
+  const required = thisYear.filter((o) => isRequiredSubject(o.subject, rules));
+  const failedRequired = required.filter((o) => o.outcome === 'failed');
+  const riskRequired = required.filter((o) => o.outcome === 'at-risk');
+  const pendingRequired = required.filter((o) => o.outcome === 'pending');
+  conditions.push({
+    id: 'required-subjects',
+    label: '必修科目',
+    status: failedRequired.length > 0 ? 'failed' : riskRequired.length > 0 ? 'at-risk' : 'met',
+    detail:
+      failedRequired.length > 0
+        ? `不可: ${failedRequired.map((o) => o.subject.name).join('、')}`
+        : riskRequired.length > 0
+        ? `危険: ${riskRequired.map((o) => o.subject.name).join('、')}`
+        : pendingRequired.length > 0
+        ? `${required.length - pendingRequired.length} 科目合格見込み・未評価 ${pendingRequired.length} 科目`
+        : `${required.length} 科目すべて合格見込み`,
+    current: required.length - failedRequired.length,
+    required: required.length,
+  });
+
+  // ── 3. 学年の最低修得単位（設定がある学校のみ） ─────────────────────────
+  if (rules.minCreditsPerYear !== undefined) {
+    const earnedThisYear = sumCredits(thisYear.filter((o) => o.outcome === 'passed').map((o) => o.subject));
+    const pendingThisYear = sumCredits(thisYear.filter((o) => o.outcome === 'pending').map((o) => o.subject));
+    const possibleThisYear = earnedThisYear + riskCredits + pendingThisYear;
+    conditions.push({
+      id: 'year-credits',
+      label: '学年修得単位',
+      status:
+        earnedThisYear >= rules.minCreditsPerYear
+          ? 'met'
+          : possibleThisYear >= rules.minCreditsPerYear
+          ? 'at-risk'
+          : 'failed',
+      detail: `今年度 ${earnedThisYear} 単位修得見込み（必要 ${rules.minCreditsPerYear} 単位）`,
+      current: earnedThisYear,
+      required: rules.minCreditsPerYear,
+    });
+  }
+
+  // ── 4. 卒業要件単位 ──────────────────────────────────────────────────
+  const earnedCredits = sumCredits(outcomes.filter((o) => o.outcome === 'passed').map((o) => o.subject));
+  const pendingCredits = sumCredits(
+    outcomes.filter((o) => o.outcome === 'at-risk' || o.outcome === 'pending').map((o) => o.subject)
+  );
+  // 学年に応じた目安ペース（例: 3年生なら 167 × 3/5）。最終学年は卒業要件そのもの
+  const isFinalYear = schoolInfo.grade >= rules.programYears;
+  const expectedByNow = isFinalYear
+    ? rules.graduationCredits
+    : Math.floor((rules.graduationCredits * schoolInfo.grade) / rules.programYears);
+  // 未確定の科目をすべて合格しても届かないときだけ注意（最終学年なら未達）
+  const reachable = earnedCredits + pendingCredits >= expectedByNow;
+  conditions.push({
+    id: 'graduation-credits',
+    label: '卒業要件単位',
+    status: reachable ? 'met' : isFinalYear ? 'failed' : 'at-risk',
+    detail:
+      `修得 ${earnedCredits} / ${rules.graduationCredits} 単位` +
+      (pendingCredits > 0 ? `・見込み +${pendingCredits} 単位` : '') +
+      (isFinalYear ? '' : `（${schoolInfo.grade}年終了時の目安 ${expectedByNow} 単位）`),
+    current: earnedCredits,
+    required: rules.graduationCredits,
+  });
+
+  const overall = conditions.reduce<PromotionConditionStatus>(
+    (worst, c) => (STATUS_RANK[c.status] > STATUS_RANK[worst] ? c.status : worst),
+    'met'
+  );
+
+  return { overall, conditions, earnedCredits };
+}
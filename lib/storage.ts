@@ -1,11 +1,42 @@
 'use client';
 
-import { AppConfig, Subject } from './types';
+import { AbsenceKind, AcademicCalendar, AppConfig, AppExport, ImportMode, SemesterType, Subject, Term } from './types';
 import { eventEmitter } from './events';
+import { getGradeStrategy } from './gradeStrategy';
+import { getAbsenceKind } from './absencePolicy';
+import { applyAttendanceMark, toDateKey } from './attendanceCalendar';
+import { getCalendarForYear } from './academicCalendar';
+import { createTerm, ensureTerm, findSubject, getActiveTerm } from './termArchive';
+import { CURRENT_SCHEMA_VERSION, migrateConfig, RawConfig } from './migrations';
+import { parseStoredConfig, QuarantinedSubject } from './validation';
+import { applyImport, createExport } from './dataTransfer';
+import {
+  applyPatch,
+  createHistoryState,
+  diffConfigs,
+  parseHistoryState,
+  recordChange,
+  takeRedo,
+  takeUndo,
+  trimHistory,
+  ConfigPatch,
+  HistoryState,
+  PatchSide,
+} from './history';
+import { mergeConcurrentChanges } from './configMerge';
+import { syllabusCache } from './syllabusDetailExtractor';
+import { createLocalStorageAdapter, openIndexedDBAdapter, StorageAdapter } from './storageAdapter';
 
-const STORAGE_KEY = 'grade-app-config';
+const STORAGE_KEY = 'grade-app-config'; // legacy single-key storage (fallback when IndexedDB is unavailable)
+const QUARANTINE_KEY = 'grade-app-quarantine';
+const HISTORY_KEY = 'grade-app-history'; // history for the localStorage fallback
+const REVISION_KEY = 'grade-app-revision';
+const SAVED_REVISION_KEY = 'grade-app-saved-revision'; // written once the data has reached the adapter
+
+const DEFAULT_TERM = createTerm(new Date().getFullYear(), 'spring', 1);
 
 const DEFAULT_CONFIG: AppConfig = {
+  schemaVersion: CURRENT_SCHEMA_VERSION,
   schoolInfo: {
     schoolName: '',
     department: '',
@@ -13,84 +44,477 @@ const DEFAULT_CONFIG: AppConfig = {
     semester: 'spring',
     academicYear: new Date().getFullYear(),
   },
-  timetable: {
-    subjects: [],
-    periodsPerDay: 5,
-  },
+  terms: [DEFAULT_TERM],
+  activeTermId: DEFAULT_TERM.id,
+  calendars: [],
   classesPerSemester: 40,
   onboardingComplete: false,
 };
 
+// Fresh copy so callers can mutate the result without touching the default
+const createDefaultConfig = (): AppConfig => structuredClone(DEFAULT_CONFIG);
+
+// Subjects of a closed term keep the finalGrade frozen by closeTerm, so they are not edited until it is reopened
+function rejectClosedTerm(term: Term, subjectName: string): boolean {
+  if (!term.closed) return false;
+  console.warn(`[storage] 締め済みの学期の科目は変更できません（学期を再開してください）: ${subjectName}`);
+  return true;
+}
+
+// Backend the data is persisted to (IndexedDB once init has run)
+let adapter: StorageAdapter = createLocalStorageAdapter(STORAGE_KEY, HISTORY_KEY);
+let initPromise: Promise<void> | null = null;
+
+// Undo/redo stacks, loaded with the data and written to the adapter after every change
+let history: HistoryState = createHistoryState();
+
+// In-memory copy of the stored data, migrated and validated once when loaded, so reads stay synchronous.
+// The cached object is never modified (getConfig hands out copies); writes go to the adapter in order
+let cache: { config: AppConfig | null; revision: number } = { config: null, revision: 0 };
+let writeQueue: Promise<void> = Promise.resolve();
+
+const enqueueWrite = (task: () => Promise<void>) => {
+  writeQueue = writeQueue.then(task).catch(error => console.error('Failed to save config:', error));
+};
+
+// Write the data, then publish its revision: tabs without BroadcastChannel reload when SAVED_REVISION_KEY
+// changes, so it must not change before the (asynchronous) adapter write has finished
+const enqueueDataWrite = (revision: number, task: () => Promise<void>) => {
+  enqueueWrite(async () => {
+    await task();
+    localStorage.setItem(SAVED_REVISION_KEY, String(revision));
+  });
+};
+
+// Revision (and cached data) each config object was read at; saveConfig uses it to detect writes from other tabs
+const readRevisions = new WeakMap<AppConfig, { revision: number; base: AppConfig | null }>();
+
+// Migrate and validate raw stored data (no side effects)
+const parseConfig = (data: RawConfig) => {
+  const migration = migrateConfig(data);
+  return { migration, ...parseStoredConfig(migration.data, createDefaultConfig()) };
+};
+
+// Cache data read from the adapter; the upgraded shape is written back so migrations only run once
+const loadCache = (data: RawConfig | null): void => {
+  const revision = storage.getRevision();
+  if (!data) {
+    cache = { config: null, revision };
+    return;
+  }
+
+  try {
+    const { migration, config, quarantined, repairedCount } = parseConfig(data);
+    if (quarantined.length > 0) {
+      console.warn(`[storage] ${quarantined.length}件の科目を修復できず隔離しました`, quarantined);
+      storage.quarantineSubjects(quarantined);
+    }
+    cache = { config, revision };
+    if (migration.applied.length > 0 || quarantined.length > 0 || repairedCount > 0) {
+      enqueueWrite(() => adapter.save(config));
+    }
+  } catch (error) {
+    console.error('Failed to load config:', error);
+    cache = { config: null, revision };
+  }
+};
+
+const loadHistory = async (): Promise<void> => {
+  try {
+    history = parseHistoryState(await adapter.loadHistory());
+  } catch (error) {
+    console.error('Failed to load history:', error);
+    history = createHistoryState();
+  }
+};
+
+const trackRead = (config: AppConfig): AppConfig => {
+  readRevisions.set(config, { revision: cache.revision, base: cache.config });
+  return config;
+};
+
+// Take the next shared revision (other tabs compare it with the one they last loaded)
+const nextRevision = (): number => {
+  const revision = Math.max(storage.getRevision(), cache.revision) + 1;
+  localStorage.setItem(REVISION_KEY, String(revision));
+  return revision;
+};
+
 export const storage = {
-  // Get the entire config
+  // Load the stored data into memory; call once before reading (moves legacy localStorage data to IndexedDB)
+  init: (): Promise<void> => {
+    if (typeof window === 'undefined') return Promise.resolve();
+
+    initPromise ??= (async () => {
+      const legacy = createLocalStorageAdapter(STORAGE_KEY, HISTORY_KEY);
+      const indexedDB = await openIndexedDBAdapter().catch(error => {
+        console.warn('[storage] IndexedDB を利用できないため localStorage に保存します', error);
+        return null;
+      });
+
+      let data: RawConfig | null = null;
+      if (indexedDB) {
+        data = await indexedDB.load();
+        const legacyData = data ? null : await legacy.load();
+        if (legacyData) {
+          const { config, quarantined } = parseConfig(legacyData);
+          storage.quarantineSubjects(quarantined);
+          await indexedDB.save(config);
+          await legacy.clear();
+          data = await indexedDB.load();
+        }
+        // Whole-config snapshots kept by earlier versions; the history now lives next to the data
+        localStorage.removeItem(HISTORY_KEY);
+      } else {
+        data = await legacy.load();
+      }
+
+      adapter = indexedDB ?? legacy;
+      loadCache(data);
+      await loadHistory();
+    })();
+    return initPromise;
+  },
+
+  // Re-read the adapter after another tab saved
+  reload: async (): Promise<void> => {
+    await writeQueue;
+    loadCache(await adapter.load());
+    await loadHistory();
+  },
+
+  // Resolves once every queued write has reached the adapter
+  flush: (): Promise<void> => writeQueue,
+
+  // Get the entire config (a copy of the cached data, so callers may modify it before saving)
   getConfig: (): AppConfig => {
-    if (typeof window === 'undefined') return DEFAULT_CONFIG;
-    
-    try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      if (!stored) return DEFAULT_CONFIG;
-      return JSON.parse(stored);
-    } catch (error) {
-      console.error('Failed to load config:', error);
-      return DEFAULT_CONFIG;
-    }
+    if (typeof window === 'undefined') return createDefaultConfig();
+    return trackRead(cache.config ? structuredClone(cache.config) : createDefaultConfig());
   },
 
-  // Save the entire config
-  saveConfig: (config: AppConfig): void => {
+  // Save the entire config; it becomes the cached data, so it must not be modified afterwards
+  // changedSubjectIds lets the adapter write only those subjects (omitted = compare everything)
+  // If another tab saved after this config was read, both changes are merged instead of overwriting
+  saveConfig: (config: AppConfig, changedSubjectIds?: string[]): void => {
     if (typeof window === 'undefined') return;
     
     try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+      // Another tab's save is already loaded: merge with it now
+      const read = readRevisions.get(config);
+      const conflicted = read !== undefined && read.revision !== cache.revision;
+      let toSave = config;
+      let changes = changedSubjectIds;
+      if (conflicted) {
+        toSave = mergeConcurrentChanges(read.base ?? createDefaultConfig(), storage.getConfig(), config);
+        changes = undefined;
+        console.warn('[storage] 別のタブでの変更と統合しました');
+      }
+
+      // Another tab saved but it has not been loaded yet: merge when writing
+      const unloaded = storage.getRevision() !== cache.revision;
+      const base = cache.config;
+      const revision = nextRevision();
+      cache = { config: toSave, revision };
+      readRevisions.delete(config);
+
+      enqueueDataWrite(revision, async () => {
+        const latest = unloaded ? await adapter.load() : null;
+        if (!latest) return adapter.save(toSave, changes);
+
+        const data = mergeConcurrentChanges(base ?? createDefaultConfig(), parseConfig(latest).config, toSave);
+        console.warn('[storage] 別のタブでの変更と統合しました');
+        if (cache.config === toSave) {
+          cache = { config: data, revision };
+          eventEmitter.emit('config:updated', data);
+        }
+        await adapter.save(data);
+      });
+
+      if (conflicted) eventEmitter.emit('config:updated', toSave);
     } catch (error) {
       console.error('Failed to save config:', error);
     }
   },
 
-  // Update a specific subject
-  updateSubject: (subjectId: string, updates: Partial<Subject>): void => {
+  // Incremented on every write so concurrent writers can be detected
+  getRevision: (): number => {
+    if (typeof window === 'undefined') return 0;
+    return Number(localStorage.getItem(REVISION_KEY)) || 0;
+  },
+
+  // Save a user-facing change and remember what it changed so it can be undone
+  commit: (config: AppConfig, label: string, changedSubjectIds?: string[]): void => {
+    if (typeof window === 'undefined') return;
+
+    storage.saveHistory(recordChange(history, label, diffConfigs(cache.config, config, changedSubjectIds)));
+    storage.saveConfig(config, changedSubjectIds);
+  },
+
+  // Undo/redo stacks (kept across reloads)
+  getHistory: (): HistoryState => history,
+
+  saveHistory: (next: HistoryState): void => {
+    if (typeof window === 'undefined') return;
+
+    history = next;
+    // Drop the oldest entries until the history fits next to the data
+    enqueueWrite(async () => {
+      let remaining = next;
+      for (;;) {
+        try {
+          await adapter.saveHistory(remaining);
+          return;
+        } catch (error) {
+          if (remaining.undo.length + remaining.redo.length === 0) {
+            console.error('Failed to save history:', error);
+            return;
+          }
+          remaining = trimHistory(remaining);
+        }
+      }
+    });
+  },
+
+  // Revert the last change; returns its label (null when there is nothing to undo)
+  undo: (): string | null => {
+    if (typeof window === 'undefined') return null;
+
+    const result = takeUndo(history);
+    if (!result) return null;
+    storage.applyHistoryPatch(result.entry.patch, 'before');
+    storage.saveHistory(result.state);
+    eventEmitter.emit('config:updated', storage.getConfig());
+    return result.entry.label;
+  },
+
+  // Re-apply the last undone change; returns its label
+  redo: (): string | null => {
+    if (typeof window === 'undefined') return null;
+
+    const result = takeRedo(history);
+    if (!result) return null;
+    storage.applyHistoryPatch(result.entry.patch, 'after');
+    storage.saveHistory(result.state);
+    eventEmitter.emit('config:updated', storage.getConfig());
+    return result.entry.label;
+  },
+
+  // Put the subjects (and settings) a history entry changed back to one side of it
+  applyHistoryPatch: (patch: ConfigPatch, side: PatchSide): void => {
+    const config = applyPatch(cache.config ?? createDefaultConfig(), patch, side);
+    const changedSubjectIds = patch.subjects.map(change => change.id);
+    const revision = nextRevision();
+    cache = { config, revision };
+    enqueueDataWrite(revision, () => (config === null ? adapter.clear() : adapter.save(config, changedSubjectIds)));
+  },
+
+  // Subjects of the term currently shown in the timetable
+  getActiveSubjects: (): Subject[] => {
+    return getActiveTerm(storage.getConfig()).timetable.subjects;
+  },
+
+  // Update a specific subject (in whichever term it belongs to)
+  updateSubject: (subjectId: string, updates: Partial<Subject>, label: string = '科目を更新'): void => {
     const config = storage.getConfig();
-    const subjectIndex = config.timetable.subjects.findIndex(s => s.id === subjectId);
+    const found = findSubject(config, subjectId);
     
-    if (subjectIndex !== -1) {
-      config.timetable.subjects[subjectIndex] = {
-        ...config.timetable.subjects[subjectIndex],
-        ...updates,
-      };
-      storage.saveConfig(config);
-      eventEmitter.emit('subject:updated', config.timetable.subjects[subjectIndex]);
+    if (found) {
+      if (rejectClosedTerm(found.term, found.subject.name)) return;
+      const previous = found.subject;
+      const subject = { ...previous, ...updates };
+      found.term.timetable.subjects[found.index] = subject;
+      storage.commit(config, label, [subjectId]);
+      eventEmitter.emit('subject:updated', subject);
+
+      // Granular events for grades/records added or removed by this update
+      const previousGradeIds = new Set(previous.grades.map(g => g.id));
+      const gradeIds = new Set(subject.grades.map(g => g.id));
+      subject.grades
+        .filter(grade => !previousGradeIds.has(grade.id))
+        .forEach(grade => eventEmitter.emit('grade:added', { subjectId, grade }));
+      previous.grades
+        .filter(grade => !gradeIds.has(grade.id))
+        .forEach(grade => eventEmitter.emit('grade:deleted', { subjectId, gradeId: grade.id }));
+
+      const previousRecordIds = new Set((previous.absenceRecords ?? []).map(r => r.id));
+      const recordIds = new Set((subject.absenceRecords ?? []).map(r => r.id));
+      if ((subject.absenceRecords ?? []).some(r => !previousRecordIds.has(r.id))) {
+        eventEmitter.emit('absence:added', { subjectId, subject });
+      }
+      (previous.absenceRecords ?? [])
+        .filter(record => !recordIds.has(record.id))
+        .forEach(record => eventEmitter.emit('absence:removed', { subjectId, recordId: record.id }));
     }
   },
 
-  // Add a new subject
+  // Add a new subject to the term matching its academicYear/semester
   addSubject: (subject: Subject): void => {
     const config = storage.getConfig();
-    config.timetable.subjects.push(subject);
-    storage.saveConfig(config);
+    const term = ensureTerm(config, subject.academicYear, subject.semester);
+    if (rejectClosedTerm(term, subject.name)) return;
+    term.timetable.subjects.push(subject);
+    storage.commit(config, '科目を追加', [subject.id]);
     eventEmitter.emit('subject:added', subject);
   },
 
   // Delete a subject
   deleteSubject: (subjectId: string): void => {
     const config = storage.getConfig();
-    config.timetable.subjects = config.timetable.subjects.filter(
-      s => s.id !== subjectId
-    );
-    storage.saveConfig(config);
+    const found = findSubject(config, subjectId);
+    if (!found || rejectClosedTerm(found.term, found.subject.name)) return;
+
+    found.term.timetable.subjects.splice(found.index, 1);
+    storage.commit(config, '科目を削除', [subjectId]);
     eventEmitter.emit('subject:deleted', { id: subjectId });
   },
 
-  // Clear all data
+  // Switch the term shown in the timetable
+  // Navigation is saved without a history entry so undo keeps reverting the user's last edit
+  setActiveTerm: (termId: string): void => {
+    const config = storage.getConfig();
+    if (!config.terms.some(t => t.id === termId)) return;
+
+    config.activeTermId = termId;
+    storage.saveConfig(config, []);
+    eventEmitter.emit('term:changed', { termId });
+  },
+
+  // Create (or reuse) a term and make it active
+  startTerm: (academicYear: number, semester: SemesterType): void => {
+    const config = storage.getConfig();
+    const termCount = config.terms.length;
+    config.activeTermId = ensureTerm(config, academicYear, semester).id;
+    // Only creating a term is recorded; switching to an existing one is navigation
+    if (config.terms.length > termCount) storage.commit(config, '学期を開始', []);
+    else storage.saveConfig(config, []);
+    eventEmitter.emit('term:changed', { termId: config.activeTermId });
+  },
+
+  // Close a term: freeze each subject's final grade so later rule changes don't rewrite history
+  closeTerm: (termId: string): void => {
+    const config = storage.getConfig();
+    const term = config.terms.find(t => t.id === termId);
+    if (!term || term.closed) return;
+
+    const frozenAt = new Date().toISOString();
+    const gradeStrategy = getGradeStrategy(config.schoolInfo);
+    term.timetable.subjects = term.timetable.subjects.map(subject => {
+      const status = gradeStrategy.getGradeStatus(subject);
+      return {
+        ...subject,
+        finalGrade: {
+          value: status.value,
+          gpa: status.gpa,
+          passed: status.value >= subject.passingGrade && !status.absenceWarning,
+          frozenAt,
+        },
+      };
+    });
+    term.closed = true;
+    term.closedAt = frozenAt;
+    storage.commit(config, '学期を締める', term.timetable.subjects.map(s => s.id));
+    eventEmitter.emit('config:updated', config);
+  },
+
+  // Reopen a closed term and drop its frozen grades
+  reopenTerm: (termId: string): void => {
+    const config = storage.getConfig();
+    const term = config.terms.find(t => t.id === termId);
+    if (!term || !term.closed) return;
+
+    term.timetable.subjects = term.timetable.subjects.map(({ finalGrade, ...subject }) => subject);
+    term.closed = false;
+    term.closedAt = undefined;
+    storage.commit(config, '学期を再開', term.timetable.subjects.map(s => s.id));
+    eventEmitter.emit('config:updated', config);
+  },
+
+  // Term GPA goal for the planner (undefined clears it)
+  setTermGPAGoal: (termId: string, gpaGoal: number | undefined): void => {
+    const config = storage.getConfig();
+    const term = config.terms.find(t => t.id === termId);
+    if (!term || term.gpaGoal === gpaGoal) return;
+
+    term.gpaGoal = gpaGoal;
+    storage.commit(config, 'GPA目標を変更', []);
+    eventEmitter.emit('config:updated', config);
+  },
+
+  // Academic calendar for a year (generated defaults when none has been saved)
+  getCalendar: (academicYear: number): AcademicCalendar => {
+    const config = storage.getConfig();
+    return getCalendarForYear(config.calendars, academicYear, config.schoolInfo.schoolName);
+  },
+
+  // Save (replace) the academic calendar for its year
+  saveCalendar: (calendar: AcademicCalendar): void => {
+    const config = storage.getConfig();
+    config.calendars = [
+      ...config.calendars.filter(c => c.academicYear !== calendar.academicYear),
+      calendar,
+    ];
+    storage.commit(config, '年間行事予定を保存', []);
+    eventEmitter.emit('config:updated', config);
+  },
+
+  // Clear all data (the history is kept so this can be undone)
   clear: (): void => {
     if (typeof window === 'undefined') return;
-    localStorage.removeItem(STORAGE_KEY);
+    storage.saveHistory(recordChange(history, 'すべて削除', diffConfigs(cache.config, null)));
+    const revision = nextRevision();
+    cache = { config: null, revision };
+    enqueueDataWrite(revision, () => adapter.clear());
+    localStorage.removeItem(QUARANTINE_KEY);
+  },
+
+  // Everything needed to restore the app elsewhere (config + syllabus caches)
+  exportData: (): AppExport => {
+    return createExport(storage.getConfig(), syllabusCache.getAll());
+  },
+
+  // Import a file already checked by parseImportFile (replace everything or merge by subject id)
+  importData: (file: AppExport, mode: ImportMode): void => {
+    const config = applyImport(storage.getConfig(), file.config, mode);
+    if (mode === 'replace') syllabusCache.clearAll();
+    syllabusCache.restoreAll(file.syllabusCaches);
+    storage.commit(config, 'データをインポート');
+    eventEmitter.emit('config:updated', config);
+  },
+
+  // Subjects that failed validation on load (kept so they can be inspected or restored)
+  getQuarantinedSubjects: (): QuarantinedSubject[] => {
+    if (typeof window === 'undefined') return [];
+
+    try {
+      const stored = localStorage.getItem(QUARANTINE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Failed to load quarantined subjects:', error);
+      return [];
+    }
+  },
+
+  // Append subjects to the quarantine list
+  quarantineSubjects: (entries: QuarantinedSubject[]): void => {
+    if (typeof window === 'undefined' || entries.length === 0) return;
+
+    try {
+      const existing = storage.getQuarantinedSubjects();
+      localStorage.setItem(QUARANTINE_KEY, JSON.stringify([...existing, ...entries]));
+    } catch (error) {
+      console.error('Failed to save quarantined subjects:', error);
+    }
   },
 
   // Update school info (for onboarding)
   updateSchoolInfo: (schoolInfo: Partial<AppConfig['schoolInfo']>): void => {
     const config = storage.getConfig();
     config.schoolInfo = { ...config.schoolInfo, ...schoolInfo };
-    storage.saveConfig(config);
+    // Keep the student's current term in the archive and show it
+    const term = ensureTerm(config, config.schoolInfo.academicYear, config.schoolInfo.semester);
+    term.grade = config.schoolInfo.grade;
+    config.activeTermId = term.id;
+    storage.commit(config, '学校情報を更新', []);
     eventEmitter.emit('config:updated', config);
   },
 
@@ -98,28 +522,59 @@ export const storage = {
   completeOnboarding: (): void => {
     const config = storage.getConfig();
     config.onboardingComplete = true;
-    storage.saveConfig(config);
+    storage.commit(config, '初期設定を完了', []);
     eventEmitter.emit('config:updated', config);
   },
 
   // Add absence record to subject
-  addAbsenceRecord: (subjectId: string, reason?: string): void => {
+  // The raw counter is kept in step with the records; the effective count comes from absencePolicy
+  addAbsenceRecord: (
+    subjectId: string,
+    reason?: string,
+    options: { kind?: AbsenceKind; periods?: number; date?: string } = {}
+  ): void => {
     const config = storage.getConfig();
-    const subject = config.timetable.subjects.find(s => s.id === subjectId);
+    const found = findSubject(config, subjectId);
     
-    if (subject) {
-      subject.absences += 1;
+    if (found && !rejectClosedTerm(found.term, found.subject.name)) {
+      const { subject } = found;
+      const periods = options.periods ?? 1;
+      subject.absences += periods;
       if (!subject.absenceRecords) {
         subject.absenceRecords = [];
       }
       subject.absenceRecords.push({
         id: crypto.randomUUID(),
-        date: new Date().toISOString().split('T')[0],
+        date: options.date ?? toDateKey(new Date()), // back-dated entries pass a date
+        kind: options.kind ?? getAbsenceKind({ reason }),
+        ...(periods !== 1 && { periods }),
         reason,
         approved: false,
       });
-      storage.saveConfig(config);
+      storage.commit(config, '欠課を記録', [subjectId]);
       eventEmitter.emit('absence:added', { subjectId, subject });
     }
   },
+
+  // Mark one class meeting (replaces that day's records; null = 出席)
+  markAttendance: (subjectId: string, date: string, kind: AbsenceKind | null): void => {
+    const config = storage.getConfig();
+    const found = findSubject(config, subjectId);
+    if (!found || rejectClosedTerm(found.term, found.subject.name)) return;
+
+    const replaced = (found.subject.absenceRecords ?? []).filter(r => r.date === date);
+    const subject = applyAttendanceMark(found.subject, date, kind);
+    found.term.timetable.subjects[found.index] = subject;
+    storage.commit(config, '出欠を記録', [subjectId]);
+    replaced.forEach(record => eventEmitter.emit('absence:removed', { subjectId, recordId: record.id }));
+    if (kind) eventEmitter.emit('absence:added', { subjectId, subject });
+  },
 };
+
+// Let other tabs know about changes made here (once written) and reload when they save
+if (typeof window !== 'undefined') {
+  eventEmitter.connectTabs(SAVED_REVISION_KEY, {
+    beforeRelay: storage.flush,
+    beforeRemote: storage.reload,
+  });
+}
@@ -0,0 +1,350 @@
+/**
+ * lib/storageAdapter.ts
+ *
+ * 保存先の抽象化（StorageAdapter）と実装
+ *
+ *   - IndexedDB: 科目・成績・欠課記録を別々のオブジェクトストアに保存する（既定）
+ *   - localStorage: 旧来の1キー保存。IndexedDB が使えない環境のフォールバックと旧データの読み出し用
+ *
+ * 元に戻す / やり直す の履歴（lib/history.ts）も同じ保存先に置く。clear では消さない。
+ *
+ * storage.ts は起動時（storage.init）に adapter から読み込んだデータをメモリに持ち、
+ * 読み出しは同期的に、書き込みは adapter へ非同期に反映する。
+ * IndexedDB では前回書き込んだ内容と比べ、変わった行だけを書き換える。
+ * 変更した科目が分かっている保存（成績の追加など）はその科目の行だけを比べる。
+ */
+
+import { AbsenceRecord, AppConfig, Grade, Subject } from './types';
+import { HistoryEntry, HistoryState } from './history';
+import { RawConfig } from './migrations';
+import { stripSubjects } from './termArchive';
+
+export interface StorageAdapter {
+  /** 保存先の名前（ログ用） */
+  name: string;
+  /** 保存済みのデータ（未検証・未移行）。何も保存されていなければ null */
+  load(): Promise<RawConfig | null>;
+  /**
+   * @param changedSubjectIds 前回の保存から変わった科目（追加・削除を含む）。
+   *   省略時は全体を比べる。学校情報・学期などの科目以外の情報は常に比べる
+   */
+  save(config: AppConfig, changedSubjectIds?: string[]): Promise<void>;
+  /** 保存したデータを消す（履歴は残す） */
+  clear(): Promise<void>;
+  /** 元に戻す / やり直す の履歴（未検証）。無ければ null */
+  loadHistory(): Promise<unknown>;
+  saveHistory(history: HistoryState): Promise<void>;
+}
+
+// ─────────────────────────────────────────────
+// localStorage（旧形式）
+// ─────────────────────────────────────────────
+
+export function createLocalStorageAdapter(key: string, historyKey: string): StorageAdapter {
+  return {
+    name: 'localStorage',
+    load: async () => {
+      const stored = localStorage.getItem(key);
+      return stored ? JSON.parse(stored) : null;
+    },
+    save: async (config) => {
+      localStorage.setItem(key, JSON.stringify(config));
+    },
+    clear: async () => {
+      localStorage.removeItem(key);
+    },
+    loadHistory: async () => {
+      const stored = localStorage.getItem(historyKey);
+      return stored ? JSON.parse(stored) : null;
+    },
+    saveHistory: async (history) => {
+      localStorage.setItem(historyKey, JSON.stringify(history));
+    },
+  };
+}
+
+// ─────────────────────────────────────────────
+// IndexedDB
+// ─────────────────────────────────────────────
+
+const DB_NAME = 'grade-app';
+const DB_VERSION = 2;
+
+/** 学期・学校情報など（科目を除いた AppConfig）を1件だけ保存する */
+const META_STORE = 'meta';
+const META_KEY = 'config';
+const SUBJECTS_STORE = 'subjects';
+const GRADES_STORE = 'grades';
+const ABSENCE_RECORDS_STORE = 'absenceRecords';
+/** 履歴の各項目（キーは HistoryEntry.id）と、undo / redo の並び（キーは HISTORY_STACKS_KEY） */
+const HISTORY_STORE = 'history';
+const HISTORY_STACKS_KEY = 'stacks';
+
+type RowStore = typeof SUBJECTS_STORE | typeof GRADES_STORE | typeof ABSENCE_RECORDS_STORE;
+const ROW_STORES: RowStore[] = [SUBJECTS_STORE, GRADES_STORE, ABSENCE_RECORDS_STORE];
+
+type SubjectRow = Omit<Subject, 'grades' | 'absenceRecords'> & { termId: string; order: number };
+type GradeRow = Grade & { subjectId: string; order: number };
+type AbsenceRecordRow = AbsenceRecord & { subjectId: string; order: number };
+
+interface Rows {
+  meta: AppConfig;
+  subjects: SubjectRow[];
+  grades: GradeRow[];
+  absenceRecords: AbsenceRecordRow[];
+}
+
+/** 1科目分の行 */
+interface SubjectRows {
+  subject: SubjectRow;
+  grades: GradeRow[];
+  absenceRecords: AbsenceRecordRow[];
+}
+
+/** 前回読み書きした1科目分の行（成績・記録は ID → JSON） */
+interface WrittenSubject {
+  termId: string;
+  order: number;
+  row: string;
+  grades: Map<string, string>;
+  absenceRecords: Map<string, string>;
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const req = indexedDB.open(DB_NAME, DB_VERSION);
+  req.onupgradeneeded = (event) => {
+    const db = req.result;
+    if (event.oldVersion < 1) {
+      db.createObjectStore(META_STORE);
+      db.createObjectStore(SUBJECTS_STORE, { keyPath: 'id' }).createIndex('termId', 'termId');
+      // 成績・記録の ID は科目内でのみ一意とみなす
+      db.createObjectStore(GRADES_STORE, { keyPath: ['subjectId', 'id'] }).createIndex('subjectId', 'subjectId');
+      db.createObjectStore(ABSENCE_RECORDS_STORE, { keyPath: ['subjectId', 'id'] }).createIndex('subjectId', 'subjectId');
+    }
+    if (event.oldVersion < 2) db.createObjectStore(HISTORY_STORE);
+  };
+  return request(req);
+}
+
+/** 科目を各ストアの行に分解する */
+function toSubjectRows({ grades, absenceRecords, ...subject }: Subject, termId: string, order: number): SubjectRows {
+  return {
+    subject: { ...subject, termId, order },
+    grades: grades.map((grade, i) => ({ ...grade, subjectId: subject.id, order: i })),
+    absenceRecords: (absenceRecords ?? []).map((record, i) => ({ ...record, subjectId: subject.id, order: i })),
+  };
+}
+
+/** 各ストアの行から AppConfig を組み立てる */
+function fromRows(rows: Rows): RawConfig {
+  const byOrder = (a: { order: number }, b: { order: number }) => a.order - b.order;
+  const groupBySubject = <T extends { subjectId: string; order: number }>(items: T[]) => {
+    const grouped = new Map<string, Omit<T, 'subjectId' | 'order'>[]>();
+    for (const { subjectId, order, ...item } of [...items].sort(byOrder)) {
+      grouped.set(subjectId, [...(grouped.get(subjectId) ?? []), item]);
+    }
+    return grouped;
+  };
+  const grades = groupBySubject(rows.grades);
+  const absenceRecords = groupBySubject(rows.absenceRecords);
+  const subjects = [...rows.subjects].sort(byOrder);
+
+  return {
+    ...rows.meta,
+    terms: rows.meta.terms.map((term) => ({
+      ...term,
+      timetable: {
+        ...term.timetable,
+        subjects: subjects
+          .filter((s) => s.termId === term.id)
+          .map(({ termId, order, ...subject }) => ({
+            ...subject,
+            grades: grades.get(subject.id) ?? [],
+            absenceRecords: absenceRecords.get(subject.id) ?? [],
+          })),
+      },
+    })),
+  };
+}
+
+const toJsonMap = (rows: { id: string }[]) => new Map(rows.map((row) => [row.id, JSON.stringify(row)]));
+
+/**
+ * IndexedDB の adapter を開く（使えない環境では reject）
+ * 前回読み書きした行を覚えておき、保存時は差分だけを put / delete する。
+ */
+export async function openIndexedDBAdapter(): Promise<StorageAdapter> {
+  if (typeof indexedDB === 'undefined') throw new Error('IndexedDB is not available');
+  const db = await openDatabase();
+
+  // 前回読み書きした内容（科目以外の情報と、科目 ID → 行）
+  let written: { meta: string | null; subjects: Map<string, WrittenSubject> } = { meta: null, subjects: new Map() };
+  // 保存済みの履歴の項目 ID
+  let writtenHistory = new Set<string>();
+
+  const rememberSubject = (rows: SubjectRows): WrittenSubject => ({
+    termId: rows.subject.termId,
+    order: rows.subject.order,
+    row: JSON.stringify(rows.subject),
+    grades: toJsonMap(rows.grades),
+    absenceRecords: toJsonMap(rows.absenceRecords),
+  });
+
+  /** 1科目分の成績・記録の行を前回の内容（ID → JSON）と比べて書き換える */
+  const writeRows = (
+    store: IDBObjectStore,
+    subjectId: string,
+    rows: { id: string }[],
+    next: Map<string, string>,
+    previous: Map<string, string> = new Map()
+  ) => {
+    for (const row of rows) {
+      if (previous.get(row.id) !== next.get(row.id)) store.put(row);
+    }
+    for (const id of previous.keys()) {
+      if (!next.has(id)) store.delete([subjectId, id]);
+    }
+  };
+
+  return {
+    name: 'IndexedDB',
+
+    load: async () => {
+      const tx = db.transaction([META_STORE, ...ROW_STORES], 'readonly');
+      const [meta, subjects, grades, absenceRecords] = await Promise.all([
+        request(tx.objectStore(META_STORE).get(META_KEY)),
+        request(tx.objectStore(SUBJECTS_STORE).getAll()),
+        request(tx.objectStore(GRADES_STORE).getAll()),
+        request(tx.objectStore(ABSENCE_RECORDS_STORE).getAll()),
+      ]);
+      if (!meta) return null;
+
+      written = { meta: JSON.stringify(meta), subjects: new Map() };
+      for (const subject of subjects as SubjectRow[]) {
+        written.subjects.set(subject.id, {
+          termId: subject.termId,
+          order: subject.order,
+          row: JSON.stringify(subject),
+          grades: new Map(),
+          absenceRecords: new Map(),
+        });
+      }
+      for (const grade of grades as GradeRow[]) {
+        written.subjects.get(grade.subjectId)?.grades.set(grade.id, JSON.stringify(grade));
+      }
+      for (const record of absenceRecords as AbsenceRecordRow[]) {
+        written.subjects.get(record.subjectId)?.absenceRecords.set(record.id, JSON.stringify(record));
+      }
+      return fromRows({ meta, subjects, grades, absenceRecords });
+    },
+
+    save: async (config, changedSubjectIds) => {
+      const tx = db.transaction([META_STORE, ...ROW_STORES], 'readwrite');
+
+      const meta = stripSubjects(config);
+      const metaJson = JSON.stringify(meta);
+      if (written.meta !== metaJson) tx.objectStore(META_STORE).put(meta, META_KEY);
+
+      const located = new Map<string, { subject: Subject; termId: string; order: number }>();
+      for (const term of config.terms) {
+        term.timetable.subjects.forEach((subject, order) => located.set(subject.id, { subject, termId: term.id, order }));
+      }
+
+      // 比べる科目: 指定された科目と、追加・削除で並び順がずれた科目
+      const ids = new Set(changedSubjectIds ?? [...located.keys(), ...written.subjects.keys()]);
+      for (const [id, { termId, order }] of located) {
+        const previous = written.subjects.get(id);
+        if (previous && (previous.termId !== termId || previous.order !== order)) ids.add(id);
+      }
+
+      const subjects = new Map(written.subjects);
+      for (const id of ids) {
+        const previous = written.subjects.get(id);
+        const current = located.get(id);
+
+        if (!current) {
+          if (!previous) continue;
+          tx.objectStore(SUBJECTS_STORE).delete(id);
+          for (const gradeId of previous.grades.keys()) tx.objectStore(GRADES_STORE).delete([id, gradeId]);
+          for (const recordId of previous.absenceRecords.keys()) {
+            tx.objectStore(ABSENCE_RECORDS_STORE).delete([id, recordId]);
+          }
+          subjects.delete(id);
+          continue;
+        }
+
+        const rows = toSubjectRows(current.subject, current.termId, current.order);
+        const next = rememberSubject(rows);
+        if (previous?.row !== next.row) tx.objectStore(SUBJECTS_STORE).put(rows.subject);
+        writeRows(tx.objectStore(GRADES_STORE), id, rows.grades, next.grades, previous?.grades);
+        writeRows(
+          tx.objectStore(ABSENCE_RECORDS_STORE),
+          id,
+          rows.absenceRecords,
+          next.absenceRecords,
+          previous?.absenceRecords
+        );
+        subjects.set(id, next);
+      }
+
+      await transactionDone(tx);
+      written = { meta: metaJson, subjects };
+    },
+
+    clear: async () => {
+      const tx = db.transaction([META_STORE, ...ROW_STORES], 'readwrite');
+      for (const store of [META_STORE, ...ROW_STORES]) tx.objectStore(store).clear();
+      await transactionDone(tx);
+      written = { meta: null, subjects: new Map() };
+    },
+
+    loadHistory: async () => {
+      const tx = db.transaction(HISTORY_STORE, 'readonly');
+      const store = tx.objectStore(HISTORY_STORE);
+      const stacks: { undo: string[]; redo: string[] } | undefined = await request(store.get(HISTORY_STACKS_KEY));
+      if (!stacks) return null;
+
+      const ids = [...stacks.undo, ...stacks.redo];
+      const found: (HistoryEntry | undefined)[] = await Promise.all(ids.map((id) => request(store.get(id))));
+      const entries = new Map(ids.flatMap((id, i) => (found[i] ? [[id, found[i]] as const] : [])));
+      writtenHistory = new Set(entries.keys());
+      const pick = (stack: string[]) => stack.map((id) => entries.get(id)).filter(Boolean);
+      return { undo: pick(stacks.undo), redo: pick(stacks.redo) };
+    },
+
+    // 項目は変わらないので、新しい項目の追加・使わなくなった項目の削除と並びの更新だけを書く
+    saveHistory: async (history) => {
+      const tx = db.transaction(HISTORY_STORE, 'readwrite');
+      const store = tx.objectStore(HISTORY_STORE);
+      const ids = new Set<string>();
+      for (const entry of [...history.undo, ...history.redo]) {
+        ids.add(entry.id);
+        if (!writtenHistory.has(entry.id)) store.put(entry, entry.id);
+      }
+      for (const id of writtenHistory) {
+        if (!ids.has(id)) store.delete(id);
+      }
+      store.put(
+        { undo: history.undo.map((e) => e.id), redo: history.redo.map((e) => e.id) },
+        HISTORY_STACKS_KEY
+      );
+      await transactionDone(tx);
+      writtenHistory = ids;
+    },
+  };
+}
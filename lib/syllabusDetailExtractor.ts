@@ -1,4 +1,4 @@
-import { Subject } from './types';
+import { CreditKind, LessonPlanWeek, Subject } from './types';
 
 /**
  * Extracted syllabus detail from LLM parsing
@@ -14,6 +14,28 @@ export interface SyllabusDetail {
   }[];
   classType: 'lecture' | 'practical' | 'experiment';
   description?: string;
+  /** 必修 / 選択 from 科目区分 (missing in older caches) */
+  courseType?: 'required' | 'elective';
+  /** 履修単位 / 学修単位 (missing in older caches and when the page does not say) */
+  creditKind?: CreditKind;
+  /** Weekly 授業計画, when the page has one */
+  schedule?: LessonPlanWeek[];
+}
+
+/**
+ * 90-minute class meetings per credit
+ * 履修単位: 30 class hours = 15 meetings; 学修単位: 15 class hours (the rest is self-study) = 7.5 meetings
+ */
+const MEETINGS_PER_CREDIT: Record<CreditKind, number> = {
+  rishu: 15,
+  gakushu: 7.5,
+};
+
+/**
+ * Number of class meetings for a syllabus subject (学修単位 subjects meet half as often)
+ */
+export function calculateMeetingCount(credits: number, creditKind: CreditKind = 'rishu'): number {
+  return Math.max(1, Math.round(credits * MEETINGS_PER_CREDIT[creditKind]));
 }
 
 /**
@@ -174,6 +196,10 @@ export function validateSyllabusDetail(detail: any): {
       evaluationCriteria,
       classType: detail.classType,
       description: detail.description?.trim() || undefined,
+      courseType: detail.courseType === 'elective' ? 'elective' : 'required',
+      // Leave an unstated kind unknown instead of assuming 履修単位
+      creditKind: detail.creditKind === 'gakushu' || detail.creditKind === 'rishu' ? detail.creditKind : undefined,
+      schedule: Array.isArray(detail.schedule) && detail.schedule.length > 0 ? detail.schedule : undefined,
     },
     errors: [],
   };
@@ -187,7 +213,7 @@ export function syllabusDetailToSubject(
   semester: 'spring' | 'fall',
   academicYear: number
 ): Subject {
-  const classesPerSemester = detail.credits * 15;
+  const classesPerSemester = calculateMeetingCount(detail.credits, detail.creditKind);
   const absenceThreshold = detail.classType === 'experiment'
     ? Math.ceil(classesPerSemester / 10)
     : Math.floor(classesPerSemester / 3);
@@ -203,9 +229,10 @@ export function syllabusDetailToSubject(
     id: `subject-${Date.now()}-${Math.random()}`,
     name: detail.subjectName,
     instructor: detail.instructor,
-    courseType: 'required',
+    courseType: detail.courseType ?? 'required',
     classType: detail.classType,
     credits: detail.credits,
+    creditKind: detail.creditKind,
     passingGrade: 60,
     evaluationCriteria,
     grades: [],
@@ -215,6 +242,7 @@ export function syllabusDetailToSubject(
     classesPerSemester,
     semester,
     academicYear,
+    schedule: detail.schedule,
   };
 }
 
@@ -286,6 +314,40 @@ export const syllabusCache = {
     }
   },
 
+  /**
+   * All raw cache entries keyed by storage key (for data export)
+   */
+  getAll(): Record<string, unknown> {
+    if (typeof window === 'undefined') return {};
+
+    const entries: Record<string, unknown> = {};
+    try {
+      Object.keys(localStorage)
+        .filter(k => k.startsWith('syllabus_cache_'))
+        .forEach(key => {
+          entries[key] = JSON.parse(localStorage.getItem(key) ?? 'null');
+        });
+    } catch (error) {
+      console.error('[v0] Failed to read syllabus caches:', error);
+    }
+    return entries;
+  },
+
+  /**
+   * Restore raw cache entries written by getAll (for data import)
+   */
+  restoreAll(entries: Record<string, unknown>): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      Object.entries(entries)
+        .filter(([key]) => key.startsWith('syllabus_cache_'))
+        .forEach(([key, value]) => localStorage.setItem(key, JSON.stringify(value)));
+    } catch (error) {
+      console.error('[v0] Failed to restore syllabus caches:', error);
+    }
+  },
+
   /**
    * Clear all syllabus caches
    */
@@ -0,0 +1,547 @@
+/**
+ * lib/syllabusMarkdownParser.ts
+ *
+ * 高専Webシラバスの Markdown（Firecrawl の出力、または syllabusSource で HTML から変換したもの）から
+ * SyllabusDetail を抽出する。/api/syllabus/detail から使い、
+ * scripts/checkSyllabusFixtures.ts で fixtures/syllabus の保存済みページに対する精度を確認する。
+ *
+ * ── 実際の高専Webシラバス Markdown 構造 ────────────────────────────────
+ *  科目名:   # 論理回路Ⅰ
+ *  基礎情報: | 担当教員 | 姜 天水 | | |
+ *            | 科目区分 | 専門 / 必修 |
+ *            | 単位の種別と単位数 | 履修単位: 1 |
+ *            | 開設期 | 前期 |
+ *            | 授業形態 | 授業 |
+ *  評価割合: |  | 試験 | レポート | 平常点 |  | その他 | 合計 |
+ *            | --- | --- | --- | --- | --- | --- | --- |
+ *            | 総合評価割合 | 80 | 20 | 0 | 0 | 0 | 100 |
+ * ────────────────────────────────────────────────────────────────────────
+ */
+
+import type { CreditKind, LessonExamKind, LessonPlanWeek, SemesterType } from './types';
+import type { SyllabusDetail } from './syllabusDetailExtractor';
+
+// ─────────────────────────────────────────────────────────────────────────
+// 抽出（各項目が見つからなければ既定値にフォールバック）
+// ─────────────────────────────────────────────────────────────────────────
+
+export function extractSyllabusDetail(markdown: string, url: string): Partial<SyllabusDetail> {
+  const term = extractTerm(markdown);
+  return {
+    subjectName: extractSubjectName(markdown, url),
+    instructor: extractInstructor(markdown),
+    credits: extractCredits(markdown),
+    creditKind: extractCreditKind(markdown),
+    courseType: extractCourseType(markdown),
+    term,
+    classType: extractClassType(markdown),
+    evaluationCriteria: extractEvaluationCriteria(markdown),
+    description: extractDescription(markdown),
+    schedule: extractSchedule(markdown, term === 'fall' ? 'fall' : 'spring'),
+  };
+}
+
+// ── 科目名 ────────────────────────────────────────────────────────────────
+export function extractSubjectName(content: string, url: string): string {
+  // 1. h1ヘッダー: # 論理回路Ⅰ  （最初の1件）
+  const h1 = content.match(/^#\s+(.+?)$/m);
+  const h1Name = h1?.[1]?.trim();
+  if (h1Name && h1Name.length > 0 && h1Name.length < 80) {
+    // ナビゲーションや無関係ヘッダーを除外
+    if (!['高専Webシラバス', 'ホーム'].includes(h1Name)) return h1Name;
+  }
+
+  // 2. テーブル内 授業科目フィールド: | 授業科目 | 論理回路Ⅰ | | |
+  const tableSubject = content.match(/授業科目\s*\|\s*([^|\n]+)/);
+  const tableName = tableSubject?.[1]?.trim();
+  if (tableName && tableName.length > 0 && tableName.length < 80) return tableName;
+
+  // 3. URLの subject_id をフォールバック
+  try {
+    const params = new URL(url).searchParams;
+    return params.get('subject_id') ?? 'Unknown';
+  } catch {
+    return 'Unknown';
+  }
+}
+
+// ── 担当教員 ──────────────────────────────────────────────────────────────
+export function extractInstructor(content: string): string {
+  const patterns = [
+    // 高専Webシラバス公式形式（テーブル）: | 担当教員 | 姜 天水 | | |
+    /担当教員\s*\|\s*([^|\n]+)/,
+    // コロン形式（念のため）
+    /担当教員\s*[:：]\s*([^\n|]+)/i,
+    /担当者\s*[:：]\s*([^\n|]+)/i,
+    /Instructor\s*[:：]\s*([^\n|]+)/i,
+  ];
+  for (const p of patterns) {
+    const m = content.match(p);
+    if (!m) continue;
+    // パイプや空白を除去してクリーンな名前を取得
+    const name = m[1].trim().replace(/\s*\|.*$/, '').trim();
+    if (name && name.length > 0 && name.length < 60) return name;
+  }
+  return '未入力';
+}
+
+// ── 単位数 ────────────────────────────────────────────────────────────────
+export function extractCredits(content: string): number {
+  const patterns = [
+    // 高専Webシラバス公式形式: | 単位の種別と単位数 | 履修単位: 1 |
+    /単位の種別と単位数\s*\|[^|]*?(\d+)/,
+    // 履修単位 / 学修単位
+    /履修単位[：:\s]*(\d+)/,
+    /学修単位[：:\s]*(\d+)/,
+    // 汎用形式
+    /単位数\s*[:：]\s*(\d+)/i,
+    /(\d+)\s*単位/i,
+    /Credits?\s*[:：]\s*(\d+)/i,
+  ];
+  for (const p of patterns) {
+    const m = content.match(p);
+    if (!m) continue;
+    const n = parseInt(m[1], 10);
+    if (n >= 1 && n <= 10) return n;
+  }
+  return 2; // デフォルト
+}
+
+// ── 単位の種別（履修単位/学修単位） ──────────────────────────────────────
+// ページに書かれていなければ undefined（履修単位と決めつけない）
+export function extractCreditKind(content: string): CreditKind | undefined {
+  // | 単位の種別と単位数 | 学修単位: 2 |
+  const kindMatch = content.match(/単位の種別と単位数\s*\|\s*([^|\n]+)/);
+  if (kindMatch) {
+    if (/学修/.test(kindMatch[1])) return 'gakushu';
+    if (/履修/.test(kindMatch[1])) return 'rishu';
+  }
+  if (/学修単位/.test(content)) return 'gakushu';
+  if (/履修単位/.test(content)) return 'rishu';
+  return undefined;
+}
+
+// ── 科目区分（必修/選択） ─────────────────────────────────────────────────
+export function extractCourseType(content: string): 'required' | 'elective' {
+  // | 科目区分 | 専門 / 選択 |  （「選択必修」も選択として扱う）
+  const categoryMatch = content.match(/科目区分\s*\|\s*([^|\n]+)/);
+  if (categoryMatch && /選択/.test(categoryMatch[1])) return 'elective';
+  return 'required';
+}
+
+// ── 開講期（前期/後期/通年） ─────────────────────────────────────────────
+export function extractTerm(content: string): 'spring' | 'fall' | 'both' {
+  // 開設期フィールドから直接取得: | 開設期 | 前期 |
+  const termMatch = content.match(/開設期\s*\|\s*([^|\n]+)/);
+  if (termMatch) {
+    const term = termMatch[1].trim();
+    if (/通年|前期.*後期|後期.*前期|前後期/.test(term)) return 'both';
+    if (/後期/.test(term)) return 'fall';
+    if (/前期/.test(term)) return 'spring';
+  }
+
+  // フォールバック: ページ全体から判断
+  const hasFront = /前期/.test(content);
+  const hasBack = /後期/.test(content);
+  if (hasFront && hasBack) return 'both';
+  if (hasBack) return 'fall';
+  return 'spring';
+}
+
+// ── 授業種別（講義/実験/実習） ────────────────────────────────────────────
+export function extractClassType(content: string): 'lecture' | 'practical' | 'experiment' {
+  // 授業形態フィールドから直接取得: | 授業形態 | 実験 |
+  const formMatch = content.match(/授業形態\s*\|\s*([^|\n]+)/);
+  if (formMatch) {
+    const form = formMatch[1].trim();
+    if (/実験/.test(form)) return 'experiment';
+    if (/実習|演習/.test(form)) return 'practical';
+    return 'lecture'; // 授業, 講義 など
+  }
+
+  // フォールバック: 科目名（h1）から判断
+  const h1 = content.match(/^#\s+(.+?)$/m);
+  if (h1) {
+    const title = h1[1];
+    if (/実験/.test(title)) return 'experiment';
+    if (/実習|演習/.test(title)) return 'practical';
+  }
+
+  return 'lecture';
+}
+
+// ── 評価割合 ─────────────────────────────────────────────────────────────
+//
+// 高専Webシラバスの評価割合テーブル構造（実測）:
+//
+//   ### 評価割合
+//   |  | 試験 | レポート | 平常点 |  | その他 | 合計 |
+//   | --- | --- | --- | --- | --- | --- | --- |
+//   | 総合評価割合 | 80 | 20 | 0 | 0 | 0 | 100 |
+//   | 配点 | 80 | 20 | 0 | 0 | 0 | 100 |
+//
+// → ヘッダー行と値行が別れており、%記号なし。
+//   "総合評価割合"行の値を採用する。
+//
+export function extractEvaluationCriteria(
+  content: string
+): Array<{ name: string; percentage: number }> {
+  const EVAL_KEYWORDS = ['試験', 'レポート', '平常点', 'その他', '小テスト', '出席', '報告書'];
+
+  // ── Strategy 1: ### 評価割合 テーブル（最優先）────────────────────────
+  // セクション内のテーブル行を抽出
+  const evalSection = content.match(
+    /###\s*評価割合([\s\S]*?)(?=\n###|\n©|$)/
+  );
+  const section = evalSection ? evalSection[1] : content;
+
+  const tableLines = section
+    .split('\n')
+    .map((l) => l.trim())
+    .filter((l) => l.startsWith('|'));
+
+  let headerCols: string[] = [];
+  let valueCols: string[] = [];
+
+  for (const line of tableLines) {
+    // セパレータ行 (| --- | --- | ...) をスキップ
+    if (/^\|[\s|:-]+\|$/.test(line)) continue;
+
+    // パイプで分割、先頭と末尾の空要素を除去してトリム
+    const cols = line.split('|').map((c) => c.trim());
+    const cells = cols.slice(1, cols.length - 1);
+
+    if (cells.length < 2) continue;
+
+    // ヘッダー行: 評価キーワードを含む行
+    if (EVAL_KEYWORDS.some((kw) => cells.includes(kw))) {
+      headerCols = cells;
+      continue;
+    }
+
+    // 値行: "総合評価割合" で始まる行
+    if (cells[0] === '総合評価割合' && headerCols.length > 0) {
+      valueCols = cells.slice(1); // ラベル列 "総合評価割合" を除去
+      break;
+    }
+  }
+
+  if (headerCols.length > 0 && valueCols.length > 0) {
+    // headerCols[0] は空（行ラベル用の列）→ 実際の名前は [1] から始まる
+    const nameOffset = headerCols[0] === '' ? 1 : 0;
+    const result: Array<{ name: string; percentage: number }> = [];
+
+    for (let i = 0; i < valueCols.length; i++) {
+      const name = headerCols[nameOffset + i] ?? '';
+      const val = parseInt(valueCols[i], 10);
+
+      // 空名・"合計"・NaN・0以下は除外
+      if (!name || name === '合計' || isNaN(val) || val <= 0) continue;
+
+      result.push({ name, percentage: val });
+    }
+
+    if (result.length > 0) {
+      const total = result.reduce((s, c) => s + c.percentage, 0);
+      console.log(
+        `[syllabusParser] 評価割合テーブル解析成功: ` +
+        `${result.map((c) => `${c.name}=${c.percentage}`).join(', ')} (合計=${total})`
+      );
+      return result;
+    }
+  }
+
+  // ── Strategy 2: 注意点の括弧内 % ─────────────────────────────────────
+  // 例: ＜成績評価＞確認試験の成績（80%）、レポート（20%）
+  const notesMatch = content.match(
+    /(?:＜成績評価＞|成績評価[:：]?)([\s\S]*?)(?:\n\n|\n(?=[^|\s]))/
+  );
+  if (notesMatch) {
+    const notesText = notesMatch[1];
+    const result: Array<{ name: string; percentage: number }> = [];
+    // 評価区分キーワード + 括弧パーセント
+    const evalItemRe =
+      /(試験|筆記試験|到達度試験|確認試験|中間試験|期末試験|定期試験|小テスト|レポート|報告書|平常点|出席|課題)[^（(（\n]*?[（(（](\d+)%[）)）]/g;
+    let m;
+    while ((m = evalItemRe.exec(notesText)) !== null) {
+      const name = m[1];
+      const pct = parseInt(m[2], 10);
+      if (pct > 0 && pct <= 100 && !result.find((r) => r.name === name)) {
+        result.push({ name, percentage: pct });
+      }
+    }
+    const total = result.reduce((s, c) => s + c.percentage, 0);
+    if (result.length > 0 && total >= 98 && total <= 102) {
+      console.log(
+        `[syllabusParser] 注意点テキスト解析: ` +
+        `${result.map((c) => `${c.name}=${c.percentage}`).join(', ')} (合計=${total})`
+      );
+      return result;
+    }
+  }
+
+  // ── Strategy 3: 汎用インライン検索 ───────────────────────────────────
+  const generalResult: Array<{ name: string; percentage: number }> = [];
+  // キーワードの直近の%数値を取得（誤マッチを最小化するため範囲を限定）
+  const generalRe =
+    /(試験|筆記試験|到達度試験|確認試験|小テスト|レポート|報告書|平常点|出席|課題)[^\d（(（\n]{0,20}?(\d{1,3})\s*%/g;
+  let gm;
+  while ((gm = generalRe.exec(content)) !== null) {
+    const name = gm[1];
+    const pct = parseInt(gm[2], 10);
+    if (pct > 0 && pct <= 100 && !generalResult.find((r) => r.name === name)) {
+      generalResult.push({ name, percentage: pct });
+    }
+  }
+  const generalTotal = generalResult.reduce((s, c) => s + c.percentage, 0);
+  if (generalResult.length > 0 && generalTotal >= 98 && generalTotal <= 102) {
+    console.log(
+      `[syllabusParser] 汎用インライン解析: ` +
+      `${generalResult.map((c) => `${c.name}=${c.percentage}`).join(', ')} (合計=${generalTotal})`
+    );
+    return generalResult;
+  }
+
+  // ── デフォルト ───────────────────────────────────────────────────────
+  console.warn(
+    '[syllabusParser] 評価割合の自動抽出に失敗しました。デフォルト値（試験80%/レポート20%）を使用します。'
+  );
+  return [
+    { name: '試験', percentage: 80 },
+    { name: 'レポート', percentage: 20 },
+  ];
+}
+
+// ── 授業概要 ──────────────────────────────────────────────────────────────
+export function extractDescription(content: string): string | undefined {
+  // 概要フィールド: **概要:**\n\nテキスト
+  const overviewMatch = content.match(
+    /\*\*概要[:：]\*\*\s*\n+\s*([^\n*|]{10,})/
+  );
+  if (overviewMatch) return overviewMatch[1].trim().slice(0, 400);
+
+  // テーブル形式の概要
+  const tableOverview = content.match(/(?:概要|授業概要)\s*\|\s*([^|\n]{10,})/);
+  if (tableOverview) return tableOverview[1].trim().slice(0, 400);
+
+  return undefined;
+}
+
+// ── 授業計画 ─────────────────────────────────────────────────────────────
+//
+//   ### 授業計画
+//   |  |  | 週 | 授業内容 | 週ごとの到達目標 |
+//   | --- | --- | --- | --- | --- |
+//   | 前期 | 1stQ | 1週 | ガイダンス | … |
+//   |  |  | 8週 | 中間試験 |  |
+//
+// → 前期/後期・クォーターの列は rowspan で省略されることがあるので、本文の行は右端をそろえて列を対応させる。
+//   週番号は前期・後期ごとに振り直されるので、並び順を保ったまま学期を付けて返す。
+//
+
+const EXAM_TOPIC = /(中間|期末|学年末|定期)(試験|考査)/;
+const NOT_EXAM_TOPIC = /返却|解説|答案|振り返り|対策|復習/;
+
+function getLessonExamKind(topic: string): LessonExamKind | undefined {
+  const m = topic.match(EXAM_TOPIC);
+  if (!m || NOT_EXAM_TOPIC.test(topic)) return undefined;
+  return m[1] === '中間' ? 'midterm' : 'final';
+}
+
+/**
+ * 授業計画の表（授業内容の列がある表）を週ごとの計画にする。見つからなければ undefined
+ * @param defaultSemester 前期/後期の列が無いときの学期
+ */
+export function extractSchedule(
+  content: string,
+  defaultSemester: SemesterType = 'spring'
+): LessonPlanWeek[] | undefined {
+  const section = content.match(/###\s*授業計画([\s\S]*?)(?=\n###|\n©|$)/)?.[1] ?? content;
+  const lines = section.split('\n').map((l) => l.trim());
+
+  const headerIndex = lines.findIndex((l) => {
+    if (!l.startsWith('|')) return false;
+    const cells = splitTableRow(l);
+    return cells.includes('週') && cells.includes('授業内容');
+  });
+  if (headerIndex === -1) return undefined;
+
+  const header = splitTableRow(lines[headerIndex]);
+  const weekIndex = header.indexOf('週');
+  const topicIndex = header.indexOf('授業内容');
+  const goalIndex = header.findIndex((c) => c.includes('到達目標'));
+
+  const result: LessonPlanWeek[] = [];
+  let semester = defaultSemester;
+
+  for (const line of lines.slice(headerIndex + 1)) {
+    if (!line.startsWith('|')) break; // 表の終わり
+    if (/^\|[\s|:-]+\|$/.test(line)) continue;
+
+    const cells = splitTableRow(line);
+    const offset = header.length - cells.length;
+    const valueAt = (index: number) => (index >= 0 ? cells[index - offset] ?? '' : '');
+
+    // 前期/後期（またはクォーター）は省略された行では直前の値を引き継ぐ
+    for (const cell of cells.slice(0, Math.max(0, weekIndex - offset))) {
+      if (/^前期$|^[12](st|nd)Q$/.test(cell)) semester = 'spring';
+      if (/^後期$|^[34](rd|th)Q$/.test(cell)) semester = 'fall';
+    }
+
+    const week = parseInt(valueAt(weekIndex).match(/\d+/)?.[0] ?? '', 10);
+    const topic = valueAt(topicIndex);
+    if (isNaN(week) || !topic) continue;
+
+    const goal = valueAt(goalIndex);
+    const exam = getLessonExamKind(topic);
+    result.push({ semester, week, topic, ...(goal ? { goal } : {}), ...(exam ? { exam } : {}) });
+  }
+
+  return result.length > 0 ? result : undefined;
+}
+
+// ─────────────────────────────────────────────────────────────────────────
+// 表の共通処理
+// ─────────────────────────────────────────────────────────────────────────
+
+/** | 区切りの行をセルに分ける（先頭と末尾の空要素を除く） */
+function splitTableRow(line: string): string[] {
+  const cols = line.split('|').map((c) => c.trim());
+  return cols.slice(1, cols.length - 1);
+}
+
+// ─────────────────────────────────────────────────────────────────────────
+// 科目一覧（PublicSubjects）
+// ─────────────────────────────────────────────────────────────────────────
+//
+// 科目一覧ページの表構造:
+//
+//   | 科目区分 |  | 授業科目 | 科目番号 | 単位種別 | 単位数 | 1年 |  |  |  | 2年 |  | … | 担当教員 | 履修上の区分 |
+//   | 前 |  | 後 |  | 前 |  | 後 |  | …                                     ← 学年ごとの前期/後期（1Q〜4Q のこともある）
+//   | 一般 | 必修 | [国語Ⅰ](…PublicSyllabus?…) | 0001 | 履修単位 | 2 | 2 | 2 | 2 | 2 |  | … |
+//
+// → 学年の列に週時間数が入っている科目がその学年・学期の開講。
+//   科目区分などは rowspan で省略されて行が短くなるため、本文の行は右端をそろえて列を対応させる。
+//
+
+export interface SyllabusListing {
+  /** 個別シラバスのURL（lang=ja） */
+  url: string;
+  subjectName: string;
+  /** 開講学年（1〜5） */
+  grade: number;
+  term: 'spring' | 'fall' | 'both';
+  courseType: 'required' | 'elective';
+  credits?: number;
+}
+
+const YEAR_HEADER = /^([1-5])\s*年$/;
+const SPRING_MARKER = /^(前|前期|1Q|2Q|1stQ|2ndQ)$/i;
+const FALL_MARKER = /^(後|後期|3Q|4Q|3rdQ|4thQ)$/i;
+const SYLLABUS_LINK = /\[([^\]]+)\]\((\S*?PublicSyllabus\S*?)\)/;
+
+/**
+ * 科目一覧ページの表から各科目の個別シラバスURLと開講学年・学期・必修/選択を取り出す
+ * 表が見つからなければ空配列（呼び出し側でリンクだけの抽出にフォールバックする）
+ */
+export function extractSubjectList(content: string, pageUrl: string): SyllabusListing[] {
+  const lines = content.split('\n').map((l) => l.trim());
+  const headerIndex = lines.findIndex(
+    (l) => l.startsWith('|') && splitTableRow(l).some((c) => YEAR_HEADER.test(c))
+  );
+  if (headerIndex === -1) return [];
+
+  // ── 学年ごとの列（学年の見出しから次の見出しまでの空セル） ───────────────
+  const header = splitTableRow(lines[headerIndex]);
+  const yearStarts = header.flatMap((cell, index) => {
+    const m = cell.match(YEAR_HEADER);
+    return m ? [{ grade: Number(m[1]), start: index }] : [];
+  });
+  const columns: Array<{ index: number; grade: number; half?: 'spring' | 'fall' }> = [];
+  yearStarts.forEach(({ grade, start }, n) => {
+    const next = yearStarts[n + 1]?.start ?? header.length;
+    let end = start + 1;
+    while (end < next && header[end] === '') end++;
+    for (let i = start; i < end; i++) columns.push({ index: i, grade });
+  });
+
+  // ── 前期/後期: 見出し2行目の印を順に対応させる。無ければ学年の列を前半/後半に分ける ──
+  let bodyStart = headerIndex + 1;
+  while (bodyStart < lines.length && /^\|[\s|:-]+\|$/.test(lines[bodyStart])) bodyStart++;
+  const markers = (lines[bodyStart]?.startsWith('|') ? splitTableRow(lines[bodyStart]) : []).filter(
+    (c) => SPRING_MARKER.test(c) || FALL_MARKER.test(c)
+  );
+  if (markers.length === columns.length && markers.length > 0) {
+    markers.forEach((marker, i) => {
+      columns[i].half = SPRING_MARKER.test(marker) ? 'spring' : 'fall';
+    });
+    bodyStart++;
+  } else {
+    for (const { grade } of yearStarts) {
+      const span = columns.filter((c) => c.grade === grade);
+      if (span.length < 2) continue;
+      span.forEach((c, i) => {
+        c.half = i < span.length / 2 ? 'spring' : 'fall';
+      });
+    }
+  }
+
+  const creditsIndex = header.indexOf('単位数');
+
+  // ── 本文 ─────────────────────────────────────────────────────────────────
+  const result: SyllabusListing[] = [];
+  let courseType: SyllabusListing['courseType'] = 'required';
+
+  for (const line of lines.slice(bodyStart)) {
+    if (!line.startsWith('|')) {
+      if (result.length > 0) break; // 表の終わり
+      continue;
+    }
+    if (/^\|[\s|:-]+\|$/.test(line)) continue;
+
+    const cells = splitTableRow(line);
+    // 科目区分は rowspan で省略されることがあるので直前の行の値を引き継ぐ
+    const category = cells.find((c) => /^(必修|選択|必修選択|選択必修)$/.test(c));
+    if (category) courseType = category.startsWith('必修') ? 'required' : 'elective';
+
+    const link = cells.map((c) => c.match(SYLLABUS_LINK)).find((m) => m !== null);
+    if (!link) continue;
+
+    const offset = header.length - cells.length;
+    const valueAt = (index: number) => cells[index - offset] ?? '';
+    const active = columns.filter((c) => {
+      const hours = parseFloat(valueAt(c.index));
+      return !isNaN(hours) && hours > 0;
+    });
+    if (active.length === 0) continue;
+
+    const grade = active[0].grade;
+    const halves = new Set(active.filter((c) => c.grade === grade).map((c) => c.half));
+    const term: SyllabusListing['term'] =
+      halves.has(undefined) || (halves.has('spring') && halves.has('fall'))
+        ? 'both'
+        : halves.has('fall')
+          ? 'fall'
+          : 'spring';
+
+    let url: URL;
+    try {
+      url = new URL(link[2], pageUrl);
+    } catch {
+      continue;
+    }
+    url.searchParams.set('lang', 'ja');
+
+    const credits = creditsIndex >= 0 ? parseInt(valueAt(creditsIndex), 10) : NaN;
+    result.push({
+      url: url.toString(),
+      subjectName: link[1].trim(),
+      grade,
+      term,
+      courseType,
+      credits: isNaN(credits) ? undefined : credits,
+    });
+  }
+
+  return result;
+}
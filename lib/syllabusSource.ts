@@ -0,0 +1,362 @@
+/**
+ * lib/syllabusSource.ts
+ *
+ * シラバスページの取得元（サーバー専用）
+ *
+ * /api/syllabus/urls と /api/syllabus/detail はページの取得方法を知らずに済むよう、
+ * 取得元をこのインターフェースで切り替える。どの実装もページを「リンク一覧」か
+ * 「Markdown」で返し、Markdown は Firecrawl の出力と同じ形（# 科目名、| 区切りの表）にそろえる。
+ *
+ *   firecrawl … Firecrawl API でスクレイピング（FIRECRAWL_API_KEY が必要）
+ *   direct    … syllabus.kosen-k.go.jp を直接 fetch し、HTML の表を Markdown に変換
+ *               （SSRF を防ぐため SYLLABUS_ORIGIN 以外のURL・リダイレクト先には接続しない）
+ *   fixture   … ローカルに保存したページを読む（開発・オフライン確認用）
+ *
+ * 環境変数:
+ *   SYLLABUS_SOURCE       firecrawl | direct | fixture
+ *                         （未設定なら FIRECRAWL_API_KEY があれば firecrawl、なければ direct）
+ *   FIRECRAWL_API_KEY     firecrawl で使う API キー
+ *   SYLLABUS_FIXTURE_DIR  fixture で読むディレクトリ（既定: fixtures/syllabus）
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+
+// ─────────────────────────────────────────────
+// 型定義
+// ─────────────────────────────────────────────
+
+export type SyllabusSourceId = 'firecrawl' | 'direct' | 'fixture';
+
+export const SYLLABUS_SOURCE_IDS: SyllabusSourceId[] = ['firecrawl', 'direct', 'fixture'];
+
+export interface SyllabusSource {
+  id: SyllabusSourceId;
+  /** ページ内のリンク（絶対URL） */
+  fetchLinks(url: string): Promise<string[]>;
+  /** ページ本文（Firecrawl と同じ形の Markdown） */
+  fetchMarkdown(url: string): Promise<string>;
+}
+
+/** 取得に失敗したときのエラー（status はそのまま API のレスポンスに使う） */
+export class SyllabusSourceError extends Error {
+  constructor(message: string, public readonly status: number = 502) {
+    super(message);
+    this.name = 'SyllabusSourceError';
+  }
+}
+
+const FIRECRAWL_SCRAPE_URL = 'https://api.firecrawl.dev/v1/scrape';
+const DIRECT_TIMEOUT_MS = 25000;
+const DIRECT_MAX_REDIRECTS = 5;
+const DEFAULT_FIXTURE_DIR = path.join('fixtures', 'syllabus');
+
+/** 取得を許可するシラバスサイト（これ以外のURLはサーバーから取得しない） */
+export const SYLLABUS_ORIGIN = 'https://syllabus.kosen-k.go.jp';
+
+/** 高専Webシラバス（https://syllabus.kosen-k.go.jp）のURLか */
+export function isSyllabusSiteUrl(url: string): boolean {
+  try {
+    return new URL(url).origin === SYLLABUS_ORIGIN;
+  } catch {
+    return false;
+  }
+}
+
+// ─────────────────────────────────────────────
+// HTML → Markdown
+// ─────────────────────────────────────────────
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&amp;/g, '&');
+}
+
+/** タグを除いた1行のテキスト（表のセル用に | は全角にする） */
+function cellText(html: string): string {
+  return decodeEntities(html.replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]+>/g, ' '))
+    .replace(/\s+/g, ' ')
+    .replace(/\|/g, '｜')
+    .trim();
+}
+
+/** <table> を | 区切りの表にする（colspan は空セルで埋めて列をそろえる） */
+function tableToMarkdown(tableHtml: string): string {
+  const rows: string[][] = [];
+  for (const row of tableHtml.match(/<tr[\s\S]*?<\/tr>/gi) ?? []) {
+    const cells: string[] = [];
+    for (const cell of row.matchAll(/<t([hd])([^>]*)>([\s\S]*?)<\/t\1>/gi)) {
+      cells.push(cellText(cell[3]));
+      const colspan = parseInt(cell[2].match(/colspan\s*=\s*["']?(\d+)/i)?.[1] ?? '1', 10);
+      for (let i = 1; i < colspan; i++) cells.push('');
+    }
+    if (cells.length > 0) rows.push(cells);
+  }
+  if (rows.length === 0) return '';
+
+  const lines = rows.map((cells) => `| ${cells.join(' | ')} |`);
+  lines.splice(1, 0, `| ${rows[0].map(() => '---').join(' | ')} |`);
+  return `\n\n${lines.join('\n')}\n\n`;
+}
+
+/** href を絶対URLにする（壊れた href は null） */
+function resolveHref(href: string, baseUrl?: string): string | null {
+  try {
+    return new URL(decodeEntities(href), baseUrl).toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 高専Webシラバスの HTML を Firecrawl と同じ形の Markdown にする
+ * 抽出（syllabusMarkdownParser）が使う見出し・表・太字・リンクだけを変換し、それ以外はテキストにする。
+ * @param baseUrl 相対リンクを解決するページのURL
+ */
+export function htmlToMarkdown(html: string, baseUrl?: string): string {
+  const body = html.match(/<body[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html;
+  // 変換済みの部分は最後にもう一度実体参照を戻すので & を戻しておく
+  const escaped = (text: string) => text.replace(/&/g, '&amp;');
+  return decodeEntities(
+    body
+      .replace(/<(script|style|noscript)[^>]*>[\s\S]*?<\/\1>/gi, '')
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<a\s[^>]*href\s*=\s*["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi, (_, href: string, text: string) => {
+        const url = resolveHref(href, baseUrl);
+        return url ? escaped(`[${cellText(text)}](${url})`) : text;
+      })
+      .replace(/<table[\s\S]*?<\/table>/gi, (table) => escaped(tableToMarkdown(table)))
+      .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, text: string) =>
+        `\n\n${'#'.repeat(Number(level))} ${escaped(cellText(text))}\n\n`
+      )
+      .replace(/<(strong|b)[^>]*>([\s\S]*?)<\/\1>/gi, (_, _tag: string, text: string) => `**${escaped(cellText(text))}**`)
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|li|section|dd|dt)>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .split('\n')
+    .map((line) => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/** HTML 内の <a href> を絶対URLにして返す */
+export function extractLinks(html: string, baseUrl: string): string[] {
+  return [...html.matchAll(/<a\s[^>]*href\s*=\s*["']([^"']+)["']/gi)]
+    .map((match) => resolveHref(match[1], baseUrl))
+    .filter((url): url is string => url !== null);
+}
+
+/** Markdown 内の [text](url) のリンク先を絶対URLにして返す */
+export function extractMarkdownLinks(markdown: string, baseUrl: string): string[] {
+  return [...markdown.matchAll(/\]\((\S+?)(?:\s+"[^"]*")?\)/g)]
+    .map((match) => resolveHref(match[1], baseUrl))
+    .filter((url): url is string => url !== null);
+}
+
+// ─────────────────────────────────────────────
+// Firecrawl
+// ─────────────────────────────────────────────
+
+function createFirecrawlSource(apiKey: string): SyllabusSource {
+  const scrape = async (url: string, format: 'links' | 'markdown', timeout: number) => {
+    let response: Response;
+    try {
+      response = await fetch(FIRECRAWL_SCRAPE_URL, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ url, formats: [format], timeout }),
+      });
+    } catch (fetchErr) {
+      const msg = fetchErr instanceof Error ? fetchErr.message : String(fetchErr);
+      throw new SyllabusSourceError(`Firecrawlへのリクエストが失敗しました: ${msg}`);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '(レスポンスボディ取得失敗)');
+      console.error(
+        `[syllabusSource] Firecrawl APIエラー: HTTP ${response.status} ${response.statusText}\n` +
+        `  URL: ${url}\n` +
+        `  Body: ${errorText.slice(0, 500)}`
+      );
+      throw new SyllabusSourceError(
+        `Firecrawl APIエラー (HTTP ${response.status}): ${errorText.slice(0, 200)}`,
+        response.status
+      );
+    }
+
+    try {
+      return (await response.json()) as Record<string, unknown>;
+    } catch {
+      throw new SyllabusSourceError('FirecrawlレスポンスのJSONパースに失敗しました');
+    }
+  };
+
+  return {
+    id: 'firecrawl',
+
+    fetchLinks: async (url) => {
+      const data = await scrape(url, 'links', 30000);
+      return (
+        (data?.data as { links?: string[] })?.links ??
+        (data?.links as string[]) ??
+        []
+      );
+    },
+
+    fetchMarkdown: async (url) => {
+      const data = await scrape(url, 'markdown', 25000);
+      return (
+        (data?.data as { markdown?: string })?.markdown ??
+        (data?.markdown as string) ??
+        ''
+      );
+    },
+  };
+}
+
+// ─────────────────────────────────────────────
+// 直接取得
+// ─────────────────────────────────────────────
+
+function createDirectSource(): SyllabusSource {
+  /** リダイレクトはシラバスサイト内だけ追う（他のホストへは接続しない） */
+  const fetchHtml = async (url: string): Promise<string> => {
+    let currentUrl = url;
+    for (let redirects = 0; ; redirects++) {
+      if (!isSyllabusSiteUrl(currentUrl)) {
+        throw new SyllabusSourceError(`シラバスサイト以外のURLは取得できません: ${currentUrl}`, 400);
+      }
+
+      let response: Response;
+      try {
+        response = await fetch(currentUrl, {
+          headers: { Accept: 'text/html', 'Accept-Language': 'ja' },
+          redirect: 'manual',
+          signal: AbortSignal.timeout(DIRECT_TIMEOUT_MS),
+        });
+      } catch (fetchErr) {
+        const msg = fetchErr instanceof Error ? fetchErr.message : String(fetchErr);
+        throw new SyllabusSourceError(`シラバスサイトへの接続に失敗しました: ${msg}`);
+      }
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        if (redirects >= DIRECT_MAX_REDIRECTS) {
+          throw new SyllabusSourceError('シラバスサイトのリダイレクトが多すぎます');
+        }
+        const next = resolveHref(location, currentUrl);
+        if (!next || !isSyllabusSiteUrl(next)) {
+          throw new SyllabusSourceError(`シラバスサイト外へのリダイレクトは追いません: ${location}`);
+        }
+        currentUrl = next;
+        continue;
+      }
+
+      if (!response.ok) {
+        throw new SyllabusSourceError(
+          `シラバスサイトがエラーを返しました (HTTP ${response.status})`,
+          response.status
+        );
+      }
+      return response.text();
+    }
+  };
+
+  return {
+    id: 'direct',
+    fetchLinks: async (url) => extractLinks(await fetchHtml(url), url),
+    fetchMarkdown: async (url) => htmlToMarkdown(await fetchHtml(url), url),
+  };
+}
+
+// ─────────────────────────────────────────────
+// ローカルのフィクスチャ
+// ─────────────────────────────────────────────
+
+/**
+ * URL → フィクスチャのファイル名（拡張子なし）
+ * 例: .../PublicSyllabus?school_id=20&department_id=31&subject_id=123&year=2025&lang=ja
+ *   → PublicSyllabus_department_id-31_school_id-20_subject_id-123_year-2025
+ */
+export function getFixtureName(url: string): string {
+  const parsed = new URL(url);
+  const page = parsed.pathname.split('/').filter(Boolean).pop() ?? 'index';
+  const params = [...parsed.searchParams.entries()]
+    .filter(([key]) => key !== 'lang')
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}-${value}`);
+  return [page, ...params].join('_').replace(/[^\w.-]/g, '_');
+}
+
+function createFixtureSource(dir: string): SyllabusSource {
+  /** .md（Markdown）→ .html の順に探す */
+  const readFixture = async (url: string): Promise<{ format: 'markdown' | 'html'; content: string }> => {
+    const name = getFixtureName(url);
+    for (const [ext, format] of [['.md', 'markdown'], ['.html', 'html']] as const) {
+      try {
+        return { format, content: await readFile(path.resolve(dir, name + ext), 'utf8') };
+      } catch {
+        // 次の拡張子
+      }
+    }
+    throw new SyllabusSourceError(`フィクスチャが見つかりません: ${path.join(dir, name)}.{md,html}`, 404);
+  };
+
+  return {
+    id: 'fixture',
+
+    fetchLinks: async (url) => {
+      const { format, content } = await readFixture(url);
+      if (format === 'html') return extractLinks(content, url);
+      return extractMarkdownLinks(content, url);
+    },
+
+    fetchMarkdown: async (url) => {
+      const { format, content } = await readFixture(url);
+      return format === 'html' ? htmlToMarkdown(content, url) : content;
+    },
+  };
+}
+
+// ─────────────────────────────────────────────
+// 選択
+// ─────────────────────────────────────────────
+
+/** 環境変数から取得元を選ぶ（設定に誤りがあれば status 500 の SyllabusSourceError） */
+export function getSyllabusSource(env: Record<string, string | undefined> = process.env): SyllabusSource {
+  const apiKey = env.FIRECRAWL_API_KEY;
+  const requested = env.SYLLABUS_SOURCE?.trim().toLowerCase();
+  const id: SyllabusSourceId = requested ? (requested as SyllabusSourceId) : apiKey ? 'firecrawl' : 'direct';
+
+  switch (id) {
+    case 'firecrawl':
+      if (!apiKey) {
+        throw new SyllabusSourceError(
+          'サーバー設定エラー: SYLLABUS_SOURCE=firecrawl ですが FIRECRAWL_API_KEY が未設定です',
+          500
+        );
+      }
+      return createFirecrawlSource(apiKey);
+    case 'direct':
+      return createDirectSource();
+    case 'fixture':
+      return createFixtureSource(env.SYLLABUS_FIXTURE_DIR || DEFAULT_FIXTURE_DIR);
+    default:
+      throw new SyllabusSourceError(
+        `サーバー設定エラー: SYLLABUS_SOURCE="${requested}" は不明です（${SYLLABUS_SOURCE_IDS.join(' / ')}）`,
+        500
+      );
+  }
+}
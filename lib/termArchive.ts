@@ -0,0 +1,121 @@
+/**
+ * lib/termArchive.ts
+ *
+ * 学期アーカイブ（年度 × 前期/後期 ごとの時間割）のヘルパー
+ * AppConfig.terms を直接いじるロジックはここに集約し、storage.ts から使う。
+ */
+
+import { AcademicYear, AppConfig, SemesterType, Subject, Term } from './types';
+
+const SEMESTER_ORDER: Record<SemesterType, number> = { spring: 0, fall: 1 };
+
+/** 学期IDを生成する（例: "2024-spring"） */
+export function makeTermId(academicYear: AcademicYear, semester: SemesterType): string {
+  return `${academicYear}-${semester}`;
+}
+
+/** 空の学期を作成する */
+export function createTerm(
+  academicYear: AcademicYear,
+  semester: SemesterType,
+  grade: number,
+  periodsPerDay: number = 5
+): Term {
+  return {
+    id: makeTermId(academicYear, semester),
+    academicYear,
+    semester,
+    grade,
+    timetable: { subjects: [], periodsPerDay },
+    closed: false,
+  };
+}
+
+/** 表示用ラベル（例: "2024年度 前期（2年）"） */
+export function getTermLabel(term: Pick<Term, 'academicYear' | 'semester' | 'grade'>): string {
+  return `${term.academicYear}年度 ${term.semester === 'spring' ? '前期' : '後期'}（${term.grade}年）`;
+}
+
+/** 古い順に並べ替えた学期一覧 */
+export function sortTerms(terms: Term[]): Term[] {
+  return [...terms].sort(
+    (a, b) =>
+      a.academicYear - b.academicYear ||
+      SEMESTER_ORDER[a.semester] - SEMESTER_ORDER[b.semester]
+  );
+}
+
+/** 表示中の学期（見つからなければ最新の学期） */
+export function getActiveTerm(config: AppConfig): Term {
+  const active = config.terms.find((t) => t.id === config.activeTermId);
+  if (active) return active;
+  const sorted = sortTerms(config.terms);
+  return sorted[sorted.length - 1];
+}
+
+/**
+ * 指定した年度・学期の学期を返す。無ければ作成して config に追加する
+ * 学年は schoolInfo の現在の学年・年度から逆算する
+ */
+export function ensureTerm(
+  config: AppConfig,
+  academicYear: AcademicYear,
+  semester: SemesterType
+): Term {
+  const id = makeTermId(academicYear, semester);
+  const existing = config.terms.find((t) => t.id === id);
+  if (existing) return existing;
+
+  const grade = Math.min(
+    5,
+    Math.max(1, config.schoolInfo.grade - (config.schoolInfo.academicYear - academicYear))
+  );
+  const periodsPerDay = getActiveTerm(config)?.timetable.periodsPerDay ?? 5;
+  const term = createTerm(academicYear, semester, grade, periodsPerDay);
+  config.terms.push(term);
+  return term;
+}
+
+/** 科目IDから所属する学期と科目を探す */
+export function findSubject(
+  config: AppConfig,
+  subjectId: string
+): { term: Term; subject: Subject; index: number } | null {
+  for (const term of config.terms) {
+    const index = term.timetable.subjects.findIndex((s) => s.id === subjectId);
+    if (index !== -1) {
+      return { term, subject: term.timetable.subjects[index], index };
+    }
+  }
+  return null;
+}
+
+/** 科目を除いた AppConfig（学校情報・学期の設定・年間予定など） */
+export function stripSubjects(config: AppConfig): AppConfig {
+  return {
+    ...config,
+    terms: config.terms.map((term) => ({ ...term, timetable: { ...term.timetable, subjects: [] } })),
+  };
+}
+
+/** 全学期の科目（累積表示用） */
+export function getAllSubjects(config: AppConfig): Subject[] {
+  return sortTerms(config.terms).flatMap((t) => t.timetable.subjects);
+}
+
+/** 締め済み学期の科目のみ */
+export function getArchivedSubjects(config: AppConfig): Subject[] {
+  return sortTerms(config.terms)
+    .filter((t) => t.closed)
+    .flatMap((t) => t.timetable.subjects);
+}
+
+/** 次の学期（前期 → 同年度後期、後期 → 翌年度前期） */
+export function getNextTermKey(term: Pick<Term, 'academicYear' | 'semester'>): {
+  academicYear: AcademicYear;
+  semester: SemesterType;
+} {
+  return term.semester === 'spring'
+    ? { academicYear: term.academicYear, semester: 'fall' }
+    : { academicYear: term.academicYear + 1, semester: 'spring' };
+}
@@ -4,7 +4,10 @@
 export type CourseType = 'required' | 'elective' | 'specialized' | 'general';
 export type ClassType = 'lecture' | 'practical' | 'experiment'; // 講義・演習 / 実験・実習
 export type SemesterType = 'spring' | 'fall';
+export type CreditKind = 'rishu' | 'gakushu'; // 履修単位 / 学修単位
 export type AcademicYear = number; // e.g., 2024 for 2024-2025 school year
+export type GradingScaleId = 'five-level' | 'four-level' | 'linear'; // see lib/gradingScale.ts
+export type GradeStrategyId = 'standard' | 'legacy'; // see lib/gradeStrategy.ts
 
 // School information for onboarding
 export interface SchoolInfo {
@@ -13,27 +16,54 @@ export interface SchoolInfo {
   grade: number; // 1-5 for KOSEN
   semester: SemesterType;
   academicYear: AcademicYear;
+  gradingScale?: GradingScaleId; // 評価尺度を学校の標準から変えるとき
+  gradeStrategy?: GradeStrategyId; // 成績・欠課の計算方式を学校の標準から変えるとき
 }
 
+// 欠課 / 遅刻 / 早退 / 公欠 / 忌引
+export type AbsenceKind = 'absent' | 'late' | 'early-leave' | 'official' | 'bereavement';
+
 // Absence history tracking
 export interface AbsenceRecord {
   id: string;
   date: string; // ISO date
+  kind?: AbsenceKind; // inferred from reason for records saved before kinds existed
+  periods?: number; // number of classes (コマ) this record covers, default 1
   reason?: string; // 病欠, 公欠, etc.
-  approved: boolean; // whether absence was officially approved
+  approved: boolean; // whether absence was officially approved (approved records are excluded by default)
+}
+
+export type CriteriaProgress = 'graded' | 'remaining'; // 採点済み / これから評価される
+
+// How repeated items (e.g. 小テスト) are combined; dropLowest is applied before bestOf
+export interface ItemAggregation {
+  dropLowest?: number; // ignore the N lowest items (at least one item is always kept)
+  bestOf?: number; // count only the N highest items
 }
 
-export interface EvaluationCriteria {
+// A weighted part of one criterion (e.g. 前期中間 / 前期期末 under 試験)
+export interface SubAssessment extends ItemAggregation {
+  id: string;
+  name: string;
+  weight: number; // relative weight within the criterion
+  maxPoints?: number; // defaults to the criterion's maxPoints
+}
+
+export interface EvaluationCriteria extends ItemAggregation {
   id: string;
   name: string;
   weight: number; // percentage, should sum to 100 per subject
   maxPoints: number;
+  progress?: CriteriaProgress; // explicit tag; inferred from recorded grades when omitted
+  subAssessments?: SubAssessment[]; // when set, grades are grouped by subAssessmentId
 }
 
 export interface Grade {
   id: string;
   criteriaId: string;
+  subAssessmentId?: string;
   points: number;
+  maxPoints?: number; // per-item max; defaults to the sub-assessment / criterion max
   date: string; // ISO date
 }
 
@@ -44,6 +74,7 @@ export interface Subject {
   courseType: CourseType; // 必修, 選択など
   classType: ClassType; // 講義・演習 / 実験・実習
   credits: number; // 単位数
+  creditKind?: CreditKind; // 履修単位 / 学修単位 (unknown for manually added subjects)
   passingGrade: number; // 合格ライン（通常60）
   evaluationCriteria: EvaluationCriteria[];
   grades: Grade[];
@@ -55,6 +86,36 @@ export interface Subject {
   period?: number; // 1-8 (typical school periods, optional for fetched subjects)
   semester: SemesterType;
   academicYear: AcademicYear;
+  finalGrade?: FinalGrade; // set when the term is closed
+  whatIfScenarios?: WhatIfScenario[]; // saved simulator scenarios (never affect real grades)
+  schedule?: LessonPlanWeek[]; // 授業計画 from the syllabus (in syllabus order)
+}
+
+// One row of the syllabus 授業計画; week numbers restart each semester
+export interface LessonPlanWeek {
+  semester: SemesterType; // 前期 / 後期
+  week: number; // 週 as written in the syllabus
+  topic: string; // 授業内容
+  goal?: string; // 週ごとの到達目標
+  exam?: LessonExamKind; // the week is a 中間試験 / 期末試験
+}
+
+export type LessonExamKind = 'midterm' | 'final';
+
+// Hypothetical scores saved from the what-if simulator
+export interface WhatIfScenario {
+  id: string;
+  name: string;
+  scores: Record<string, number>; // criteriaId -> hypothetical score (in the criterion's maxPoints)
+  createdAt: string; // ISO datetime
+}
+
+// Grade frozen when a term is closed; calculators prefer it over live grades
+export interface FinalGrade {
+  value: number;
+  gpa: number;
+  passed: boolean;
+  frozenAt: string; // ISO datetime
 }
 
 export interface TimetableConfig {
@@ -62,13 +123,71 @@ export interface TimetableConfig {
   periodsPerDay: number;
 }
 
+// One (academicYear, semester) timetable in the multi-year archive
+export interface Term {
+  id: string; // `${academicYear}-${semester}`
+  academicYear: AcademicYear;
+  semester: SemesterType;
+  grade: number; // 学年 during this term
+  timetable: TimetableConfig;
+  closed: boolean; // closed terms have their final grades frozen
+  closedAt?: string; // ISO datetime
+  gpaGoal?: number; // 学期GPAの目標（GPA目標プランナー）
+}
+
+// Academic calendar (年間行事予定). Dates are 'YYYY-MM-DD', ranges are inclusive.
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+export interface CalendarPeriod extends DateRange {
+  name: string; // e.g. 夏季休業, 前期中間試験
+}
+
+export interface SubstituteDay {
+  date: string;
+  followsDayOfWeek: number; // 振替授業: this date runs the timetable of this day (0-6, Monday-Sunday)
+  name?: string;
+}
+
+export interface AcademicCalendar {
+  academicYear: AcademicYear;
+  terms: Record<SemesterType, DateRange>;
+  holidays: CalendarPeriod[]; // 休日・休業期間 (no classes)
+  examPeriods: CalendarPeriod[]; // 定期試験 (no regular classes)
+  substituteDays: SubstituteDay[];
+}
+
 export interface AppConfig {
+  schemaVersion: number; // bumped whenever the stored shape changes (see lib/migrations.ts)
   schoolInfo: SchoolInfo;
-  timetable: TimetableConfig;
+  terms: Term[];
+  activeTermId: string; // term currently shown in the timetable
+  calendars: AcademicCalendar[]; // one per academic year; defaults are generated when missing
   classesPerSemester: number; // default for absence calculation
   onboardingComplete: boolean; // track if user has completed setup
 }
 
+// Versioned backup file written by storage.exportData (see lib/dataTransfer.ts)
+export interface AppExport {
+  format: 'kosen-grade-app';
+  formatVersion: number;
+  exportedAt: string; // ISO datetime
+  config: AppConfig;
+  syllabusCaches: Record<string, unknown>; // localStorage key -> cached syllabus entry
+}
+
+// replace: the file becomes the whole data set / merge: subjects are merged by id
+export type ImportMode = 'replace' | 'merge';
+
+// Subjects that an import would add, change or remove (across all terms)
+export interface SubjectDiff {
+  added: Subject[];
+  changed: { before: Subject; after: Subject }[];
+  removed: Subject[];
+}
+
 export interface GradeStatus {
   value: number; // calculated grade
   status: 'safe' | 'risk' | 'fail';
@@ -77,6 +196,19 @@ export interface GradeStatus {
   absenceWarning: boolean;
   canPass: boolean; // whether student can still pass
   gpa: number; // calculated GPA for the subject
+  letterGrade: string; // 評語 from the school's grading scale (秀/優/良/可/不可 etc.)
+}
+
+// Score a remaining criterion needs (as its average) for the subject to pass
+export interface CriteriaTarget {
+  criteriaId: string;
+  subAssessmentId?: string;
+  name: string;
+  weight: number;
+  maxPoints: number;
+  targetPercent: number; // 0-100+, >100 means unreachable
+  targetPoints: number; // targetPercent converted to the criterion's maxPoints
+  achievable: boolean;
 }
 
 export interface GPAData {
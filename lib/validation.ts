@@ -1,29 +1,103 @@
 import { z } from 'zod';
+import { asRawConfig, type RawConfig } from './migrations';
+import type { AppConfig as StoredAppConfig, Subject as StoredSubject, Term as StoredTerm } from './types';
 
 // Zod schemas for validation
+const ItemAggregationShape = {
+  dropLowest: z.number().int().min(0).optional(),
+  bestOf: z.number().int().min(1).optional(),
+};
+
+export const SubAssessmentSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1, 'Name is required'),
+  weight: z.number().min(0),
+  maxPoints: z.number().min(1).optional(),
+  ...ItemAggregationShape,
+});
+
 export const EvaluationCriteriaSchema = z.object({
   id: z.string(),
   name: z.string().min(1, 'Name is required'),
   weight: z.number().min(0).max(100),
   maxPoints: z.number().min(1),
+  progress: z.enum(['graded', 'remaining']).optional(),
+  subAssessments: z.array(SubAssessmentSchema).optional(),
+  ...ItemAggregationShape,
 });
 
 export const GradeSchema = z.object({
   id: z.string(),
   criteriaId: z.string(),
+  subAssessmentId: z.string().optional(),
   points: z.number().min(0),
+  maxPoints: z.number().min(1).optional(),
   date: z.string(),
 });
 
+export const AbsenceRecordSchema = z.object({
+  id: z.string(),
+  date: z.string(),
+  kind: z.enum(['absent', 'late', 'early-leave', 'official', 'bereavement']).optional(),
+  periods: z.number().int().min(1).optional(),
+  reason: z.string().optional(),
+  approved: z.boolean(),
+});
+
+export const WhatIfScenarioSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  scores: z.record(z.number()),
+  createdAt: z.string(),
+});
+
+export const LessonPlanWeekSchema = z.object({
+  semester: z.enum(['spring', 'fall']),
+  week: z.number().int().min(1),
+  topic: z.string(),
+  goal: z.string().optional(),
+  exam: z.enum(['midterm', 'final']).optional(),
+});
+
 export const SubjectSchema = z.object({
   id: z.string(),
   name: z.string().min(1, 'Subject name is required'),
+  instructor: z.string(),
+  courseType: z.enum(['required', 'elective', 'specialized', 'general']),
+  classType: z.enum(['lecture', 'practical', 'experiment']),
+  credits: z.number().min(1),
+  creditKind: z.enum(['rishu', 'gakushu']).optional(),
+  passingGrade: z.number().min(0).max(100),
   evaluationCriteria: z.array(EvaluationCriteriaSchema),
   grades: z.array(GradeSchema),
   absences: z.number().min(0),
+  absenceRecords: z.array(AbsenceRecordSchema),
   absenceThreshold: z.number().min(0),
-  dayOfWeek: z.number().min(0).max(6),
-  period: z.number().min(1).max(8),
+  classesPerSemester: z.number().min(1),
+  dayOfWeek: z.number().min(0).max(6).optional(),
+  period: z.number().min(1).max(8).optional(),
+  semester: z.enum(['spring', 'fall']),
+  academicYear: z.number(),
+  finalGrade: z
+    .object({
+      value: z.number(),
+      gpa: z.number(),
+      passed: z.boolean(),
+      frozenAt: z.string(),
+    })
+    .optional(),
+  whatIfScenarios: z.array(WhatIfScenarioSchema).optional(),
+  schedule: z.array(LessonPlanWeekSchema).optional(),
+});
+
+export const SchoolInfoSchema = z.object({
+  schoolName: z.string(),
+  department: z.string(),
+  grade: z.number().min(1).max(5),
+  semester: z.enum(['spring', 'fall']),
+  academicYear: z.number(),
+  gradingScale: z.enum(['five-level', 'four-level', 'linear']).optional(),
+  gradeStrategy: z.enum(['standard', 'legacy']).optional(),
 });
 
 export const TimetableConfigSchema = z.object({
@@ -31,14 +105,226 @@ export const TimetableConfigSchema = z.object({
   periodsPerDay: z.number().min(1).max(10),
 });
 
-export const AppConfigSchema = z.object({
+export const TermSchema = z.object({
+  id: z.string(),
+  academicYear: z.number(),
+  semester: z.enum(['spring', 'fall']),
+  grade: z.number().min(1).max(5),
   timetable: TimetableConfigSchema,
+  closed: z.boolean(),
+  closedAt: z.string().optional(),
+  gpaGoal: z.number().min(0).optional(),
+});
+
+const DateKeySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+
+export const DateRangeSchema = z.object({
+  start: DateKeySchema,
+  end: DateKeySchema,
+});
+
+export const CalendarPeriodSchema = DateRangeSchema.extend({
+  name: z.string(),
+});
+
+export const AcademicCalendarSchema = z.object({
+  academicYear: z.number(),
+  terms: z.object({
+    spring: DateRangeSchema,
+    fall: DateRangeSchema,
+  }),
+  holidays: z.array(CalendarPeriodSchema),
+  examPeriods: z.array(CalendarPeriodSchema),
+  substituteDays: z.array(
+    z.object({
+      date: DateKeySchema,
+      followsDayOfWeek: z.number().int().min(0).max(6),
+      name: z.string().optional(),
+    })
+  ),
+});
+
+export const AppConfigSchema = z.object({
+  schemaVersion: z.number().int().min(0),
+  schoolInfo: SchoolInfoSchema,
+  terms: z.array(TermSchema).min(1),
+  activeTermId: z.string(),
+  calendars: z.array(AcademicCalendarSchema),
   classesPerSemester: z.number().min(1),
+  onboardingComplete: z.boolean(),
+});
+
+// Backup files are checked loosely here; the config is migrated and validated on import
+export const AppExportSchema = z.object({
+  format: z.literal('kosen-grade-app'),
+  formatVersion: z.number().int().min(1),
+  exportedAt: z.string(),
+  config: z.record(z.any()),
+  syllabusCaches: z.record(z.unknown()).default({}),
 });
 
 // Type exports for use throughout the app
+export type SubAssessment = z.infer<typeof SubAssessmentSchema>;
 export type EvaluationCriteria = z.infer<typeof EvaluationCriteriaSchema>;
 export type Grade = z.infer<typeof GradeSchema>;
 export type Subject = z.infer<typeof SubjectSchema>;
 export type TimetableConfig = z.infer<typeof TimetableConfigSchema>;
+export type Term = z.infer<typeof TermSchema>;
+export type AcademicCalendar = z.infer<typeof AcademicCalendarSchema>;
 export type AppConfig = z.infer<typeof AppConfigSchema>;
+
+// ─────────────────────────────────────────────
+// 保存データの読み込み時検証（修復 / 隔離）
+// ─────────────────────────────────────────────
+
+/**
+ * 配列の各要素を個別に検証し、壊れた要素だけを落とす
+ * 1件の不正な成績のせいで科目全体の成績を失わないようにする
+ */
+function repairableArray<T extends z.ZodTypeAny>(item: T) {
+  return z
+    .array(z.unknown())
+    .catch([])
+    .transform((items) =>
+      items.flatMap((value) => {
+        const result = item.safeParse(value);
+        return result.success ? [result.data as z.output<T>] : [];
+      })
+    );
+}
+
+/**
+ * localStorage から読んだ科目用のスキーマ
+ * id と name 以外は不正値をデフォルトに置き換えて修復する。
+ * 未知のフィールドは将来のバージョンのために保持する（passthrough）。
+ */
+export const StoredSubjectSchema = SubjectSchema.extend({
+  instructor: SubjectSchema.shape.instructor.catch('未入力'),
+  courseType: SubjectSchema.shape.courseType.catch('required'),
+  classType: SubjectSchema.shape.classType.catch('lecture'),
+  credits: SubjectSchema.shape.credits.catch(1),
+  creditKind: SubjectSchema.shape.creditKind.catch(undefined),
+  passingGrade: SubjectSchema.shape.passingGrade.catch(60),
+  evaluationCriteria: repairableArray(EvaluationCriteriaSchema.passthrough()),
+  grades: repairableArray(GradeSchema.passthrough()),
+  absences: SubjectSchema.shape.absences.catch(0),
+  absenceRecords: repairableArray(AbsenceRecordSchema.passthrough()),
+  absenceThreshold: SubjectSchema.shape.absenceThreshold.catch(0),
+  classesPerSemester: SubjectSchema.shape.classesPerSemester.catch(40),
+  dayOfWeek: SubjectSchema.shape.dayOfWeek.catch(undefined),
+  period: SubjectSchema.shape.period.catch(undefined),
+  semester: SubjectSchema.shape.semester.catch('spring'),
+  academicYear: SubjectSchema.shape.academicYear.catch(() => new Date().getFullYear()),
+  finalGrade: SubjectSchema.shape.finalGrade.catch(undefined),
+  whatIfScenarios: repairableArray(WhatIfScenarioSchema),
+  schedule: SubjectSchema.shape.schedule.catch(undefined),
+}).passthrough();
+
+/** 修復できずに隔離された科目 */
+export interface QuarantinedSubject {
+  raw: unknown;
+  errors: string[];
+  quarantinedAt: string; // ISO datetime
+}
+
+export interface StoredConfigParseResult {
+  config: StoredAppConfig;
+  quarantined: QuarantinedSubject[];
+  /** 修復（デフォルト値での置き換え）が行われた科目数 */
+  repairedCount: number;
+}
+
+/** 科目配列を1件ずつ検証し、修復済みの科目と隔離対象に振り分ける */
+function parseStoredSubjects(rawSubjects: unknown): {
+  subjects: StoredSubject[];
+  quarantined: QuarantinedSubject[];
+  repairedCount: number;
+} {
+  const subjects: StoredSubject[] = [];
+  const quarantined: QuarantinedSubject[] = [];
+  let repairedCount = 0;
+
+  for (const raw of Array.isArray(rawSubjects) ? rawSubjects : []) {
+    const result = StoredSubjectSchema.safeParse(raw);
+    if (!result.success) {
+      quarantined.push({
+        raw,
+        errors: result.error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`),
+        quarantinedAt: new Date().toISOString(),
+      });
+      continue;
+    }
+    if (!SubjectSchema.safeParse(raw).success) repairedCount++;
+    subjects.push(result.data as StoredSubject);
+  }
+
+  return { subjects, quarantined, repairedCount };
+}
+
+/**
+ * 移行済みの保存データを検証して AppConfig を組み立てる
+ * 科目単位で検証するため、壊れた科目があっても他の科目は失われない。
+ */
+export function parseStoredConfig(
+  data: RawConfig,
+  fallback: StoredAppConfig
+): StoredConfigParseResult {
+  const quarantined: QuarantinedSubject[] = [];
+  let repairedCount = 0;
+
+  const terms: StoredTerm[] = [];
+  for (const rawTerm of Array.isArray(data.terms) ? data.terms : []) {
+    const meta = TermSchema.omit({ timetable: true }).safeParse(rawTerm);
+    const rawTimetable = asRawConfig(asRawConfig(rawTerm).timetable);
+    if (!meta.success) {
+      // 学期情報が壊れていても科目は隔離して残す
+      const parsed = parseStoredSubjects(rawTimetable.subjects);
+      quarantined.push(
+        ...parsed.subjects.map((subject) => ({
+          raw: subject,
+          errors: ['term: 所属する学期のデータが不正です'],
+          quarantinedAt: new Date().toISOString(),
+        })),
+        ...parsed.quarantined
+      );
+      continue;
+    }
+
+    const parsed = parseStoredSubjects(rawTimetable.subjects);
+    const periodsPerDay = TimetableConfigSchema.shape.periodsPerDay.safeParse(rawTimetable.periodsPerDay);
+    quarantined.push(...parsed.quarantined);
+    repairedCount += parsed.repairedCount;
+    terms.push({
+      ...meta.data,
+      timetable: {
+        subjects: parsed.subjects,
+        periodsPerDay: periodsPerDay.success ? periodsPerDay.data : 5,
+      },
+    });
+  }
+
+  const schoolInfo = SchoolInfoSchema.safeParse(data.schoolInfo);
+  const classesPerSemester = AppConfigSchema.shape.classesPerSemester.safeParse(data.classesPerSemester);
+  const validTerms = terms.length > 0 ? terms : fallback.terms;
+
+  return {
+    config: {
+      ...fallback,
+      ...data,
+      schemaVersion: typeof data.schemaVersion === 'number' ? data.schemaVersion : fallback.schemaVersion,
+      schoolInfo: schoolInfo.success ? schoolInfo.data : fallback.schoolInfo,
+      terms: validTerms,
+      activeTermId:
+        validTerms.find((t) => t.id === data.activeTermId)?.id ?? validTerms[validTerms.length - 1].id,
+      // 壊れた年間予定は捨てる（既定の予定が再生成される）
+      calendars: (Array.isArray(data.calendars) ? data.calendars : []).flatMap((raw) => {
+        const calendar = AcademicCalendarSchema.safeParse(raw);
+        return calendar.success ? [calendar.data] : [];
+      }),
+      classesPerSemester: classesPerSemester.success ? classesPerSemester.data : fallback.classesPerSemester,
+      onboardingComplete: data.onboardingComplete === true,
+    },
+    quarantined,
+    repairedCount,
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * scripts/checkAbsencePolicy.ts
+ *
+ * 欠課の数え方（lib/absencePolicy.ts）のテスト
+ *
+ * 公欠・忌引・認可済みの記録が欠課数から除外されるか、遅刻・早退が欠課に換算されるか、
+ * 1コマあたりの単位時間数が欠課数と上限の両方に掛かるかを確かめる。
+ * 1件でも失敗すれば終了コード 1。
+ *
+ *   npm run test:absence
+ */
+
+import assert from 'assert/strict';
+import { calculateAbsenceLimit, calculateEffectiveAbsences, DEFAULT_ABSENCE_POLICIES } from '../lib/absencePolicy';
+import type { AbsenceKind, AbsenceRecord } from '../lib/types';
+import { makeSubject, runCases, type TestCase } from './testHelpers';
+
+// ─────────────────────────────────────────────
+// データ
+// ─────────────────────────────────────────────
+
+const lecture = DEFAULT_ABSENCE_POLICIES.lecture;
+
+let nextId = 0;
+const record = (kind: AbsenceKind | undefined, overrides: Partial<AbsenceRecord> = {}): AbsenceRecord => ({
+  id: `r${nextId++}`,
+  date: '2026-05-01',
+  kind,
+  approved: false,
+  ...overrides,
+});
+
+/** 記録だけから欠課数を数える科目 */
+const withRecords = (...absenceRecords: AbsenceRecord[]) =>
+  makeSubject({ absenceRecords, absences: absenceRecords.reduce((sum, r) => sum + (r.periods ?? 1), 0) });
+
+// ─────────────────────────────────────────────
+// ケース
+// ─────────────────────────────────────────────
+
+const cases: TestCase[] = [
+  ['公欠・忌引は欠課数に含めない', () => {
+    const result = calculateEffectiveAbsences(
+      withRecords(record('absent'), record('official'), record('bereavement', { periods: 2 })),
+      lecture
+    );
+    assert.equal(result.effective, 1);
+    assert.equal(result.excluded, 3);
+  }],
+  ['認可済みの欠課は種類に関係なく除外する', () => {
+    const subject = withRecords(record('absent', { approved: true }), record('absent'));
+    assert.equal(calculateEffectiveAbsences(subject, lecture).effective, 1);
+    assert.equal(calculateEffectiveAbsences(subject, { ...lecture, excludeApproved: false }).effective, 2);
+  }],
+  ['kind の無い古い記録は理由の文字列から種類を推定する', () => {
+    const result = calculateEffectiveAbsences(
+      withRecords(record(undefined, { reason: '公欠' }), record(undefined, { reason: '遅刻' }), record(undefined)),
+      lecture
+    );
+    assert.equal(result.excluded, 1);
+    assert.equal(result.late, 1);
+    assert.equal(result.absent, 1);
+  }],
+  ['遅刻・早退は合わせて 3 回で欠課 1 回（端数は切り捨て）', () => {
+    const result = calculateEffectiveAbsences(
+      withRecords(record('late'), record('late'), record('early-leave'), record('late'), record('late')),
+      lecture
+    );
+    assert.equal(result.convertedFromLate, 1);
+    assert.equal(result.effective, 1);
+  }],
+  ['lateToAbsence が 0 なら遅刻・早退は数えない', () => {
+    const subject = withRecords(record('late'), record('late'), record('late'));
+    assert.equal(calculateEffectiveAbsences(subject, { ...lecture, lateToAbsence: 0 }).effective, 0);
+  }],
+  ['記録の無い手入力分は通常の欠課として数える', () => {
+    const subject = makeSubject({ absences: 4, absenceRecords: [record('official')] });
+    const result = calculateEffectiveAbsences(subject, lecture);
+    assert.equal(result.absent, 3);
+    assert.equal(result.effective, 3);
+  }],
+  ['unitsPerClass は欠課数と上限の両方に掛かる', () => {
+    const policy = { ...lecture, unitsPerClass: 2 };
+    const subject = withRecords(record('absent'), record('absent', { periods: 2 }));
+    assert.equal(calculateEffectiveAbsences(subject, policy).effective, 6);
+    assert.equal(calculateAbsenceLimit(subject, policy), 20);
+    assert.equal(calculateAbsenceLimit(subject, lecture), 10);
+  }],
+  ['実験・実習の上限は 1/10 を切り上げ', () => {
+    const subject = makeSubject({ classesPerSemester: 45 });
+    assert.equal(calculateAbsenceLimit(subject, DEFAULT_ABSENCE_POLICIES.experiment), 5);
+    assert.equal(calculateAbsenceLimit(subject, lecture), 15);
+  }],
+];
+
+// ─────────────────────────────────────────────
+// 実行
+// ─────────────────────────────────────────────
+
+runCases('欠課の数え方', cases);
@@ -0,0 +1,112 @@
+/**
+ * scripts/checkAcademicCalendar.ts
+ *
+ * 年間行事予定からの授業日の生成（lib/academicCalendar.ts の generateMeetings）のテスト
+ *
+ * 時間割の曜日（0 = 月曜）の日だけが数えられ、休日・試験期間は除かれ、
+ * 振替授業日は振替元の曜日として数えられるかと、授業回数の置き換えが現在の学期だけに
+ * 適用されるかを確かめる。
+ * 1件でも失敗すれば終了コード 1。
+ *
+ *   npm run test:calendar
+ */
+
+import assert from 'assert/strict';
+import { generateMeetings, getNationalHolidays, withActiveTermMeetings } from '../lib/academicCalendar';
+import type { AcademicCalendar } from '../lib/types';
+import { makeConfig, makeSubject, runCases, type TestCase } from './testHelpers';
+
+// ─────────────────────────────────────────────
+// データ
+// ─────────────────────────────────────────────
+
+/** 2026-04-06（月）〜 2026-05-10（日）の5週間だけの前期。休日も試験も無し */
+const makeCalendar = (overrides: Partial<AcademicCalendar> = {}): AcademicCalendar => ({
+  academicYear: 2026,
+  terms: {
+    spring: { start: '2026-04-06', end: '2026-05-10' },
+    fall: { start: '2026-10-01', end: '2027-03-10' },
+  },
+  holidays: [],
+  examPeriods: [],
+  substituteDays: [],
+  ...overrides,
+});
+
+const MONDAYS = ['2026-04-06', '2026-04-13', '2026-04-20', '2026-04-27', '2026-05-04'];
+
+const monday = makeSubject({ dayOfWeek: 0, period: 1 });
+
+// ─────────────────────────────────────────────
+// ケース
+// ─────────────────────────────────────────────
+
+const cases: TestCase[] = [
+  ['dayOfWeek 0 は月曜日の授業', () => {
+    assert.deepEqual(generateMeetings(monday, makeCalendar()), MONDAYS);
+    assert.deepEqual(generateMeetings(makeSubject({ dayOfWeek: 4 }), makeCalendar()).slice(0, 2), [
+      '2026-04-10',
+      '2026-04-17',
+    ]);
+  }],
+  ['曜日が未設定の科目は授業日なし', () => {
+    assert.deepEqual(generateMeetings(makeSubject(), makeCalendar()), []);
+  }],
+  ['休日・試験期間の日は数えない', () => {
+    const calendar = makeCalendar({
+      holidays: [{ start: '2026-05-04', end: '2026-05-04', name: 'みどりの日' }],
+      examPeriods: [{ start: '2026-04-27', end: '2026-04-28', name: '前期中間試験' }],
+    });
+    assert.deepEqual(generateMeetings(monday, calendar), ['2026-04-06', '2026-04-13', '2026-04-20']);
+  }],
+  ['振替授業日は祝日や土曜でも振替元の曜日として数える', () => {
+    const calendar = makeCalendar({
+      holidays: [
+        { start: '2026-04-29', end: '2026-04-29', name: '昭和の日' },
+        { start: '2026-05-04', end: '2026-05-04', name: 'みどりの日' },
+      ],
+      substituteDays: [
+        { date: '2026-04-29', followsDayOfWeek: 0 },
+        { date: '2026-05-09', followsDayOfWeek: 0 },
+      ],
+    });
+    assert.deepEqual(generateMeetings(monday, calendar), [
+      '2026-04-06',
+      '2026-04-13',
+      '2026-04-20',
+      '2026-04-27',
+      '2026-04-29',
+      '2026-05-09',
+    ]);
+    // 振替元の曜日以外の科目は振替日に授業なし
+    assert.equal(generateMeetings(makeSubject({ dayOfWeek: 2 }), calendar).includes('2026-04-29'), false);
+  }],
+  ['学期の期間外は数えない', () => {
+    const fall = makeSubject({ dayOfWeek: 0, semester: 'fall' });
+    const meetings = generateMeetings(fall, makeCalendar());
+    assert.equal(meetings[0], '2026-10-05');
+    assert.ok(meetings.every((date) => date >= '2026-10-01' && date <= '2027-03-10'));
+  }],
+  ['日曜と重なった祝日は次の祝日でない日が振替休日', () => {
+    // 2026-05-03（憲法記念日）は日曜、5/4・5/5 も祝日
+    const substitute = getNationalHolidays(2026).find((h) => h.name === '振替休日（憲法記念日）');
+    assert.equal(substitute?.start, '2026-05-06');
+  }],
+  ['授業回数は現在の締めていない学期の科目だけ年間予定から置き換える', () => {
+    const config = { ...makeConfig([monday]), calendars: [makeCalendar()] };
+    const past = makeSubject({ id: 'past', dayOfWeek: 0, academicYear: 2025 });
+    assert.deepEqual(
+      withActiveTermMeetings(config, [monday, past]).map((s) => s.classesPerSemester),
+      [MONDAYS.length, 30]
+    );
+
+    config.terms[0].closed = true;
+    assert.equal(withActiveTermMeetings(config, [monday])[0].classesPerSemester, 30);
+  }],
+];
+
+// ─────────────────────────────────────────────
+// 実行
+// ─────────────────────────────────────────────
+
+runCases('授業日の生成', cases);
@@ -0,0 +1,80 @@
+/**
+ * scripts/checkConfigMerge.ts
+ *
+ * 同時編集マージ（lib/configMerge.ts）のテスト
+ *
+ * base（読んだ時点）・latest（別タブが保存したデータ）・ours（このタブの変更）の組を
+ * mergeConcurrentChanges に通し、成績・欠課記録・シナリオの追加と削除が両方のタブから反映されるかを確かめる。
+ * 1件でも失敗すれば終了コード 1。
+ *
+ *   npm run test:merge
+ */
+
+import assert from 'assert/strict';
+import { mergeConcurrentChanges } from '../lib/configMerge';
+import type { AbsenceRecord, Grade, Subject, WhatIfScenario } from '../lib/types';
+import { makeConfig, makeSubject, runCases, type TestCase } from './testHelpers';
+
+// ─────────────────────────────────────────────
+// データ
+// ─────────────────────────────────────────────
+
+const grade = (id: string): Grade => ({ id, criteriaId: 'exam', points: 80, date: '2026-05-01' });
+
+const record = (id: string): AbsenceRecord => ({ id, date: '2026-05-01', kind: 'absent', approved: false });
+
+const scenario = (id: string): WhatIfScenario => ({ id, name: id, scores: {}, createdAt: '2026-05-01T00:00:00.000Z' });
+
+/** 3つの科目をマージした結果の科目 */
+function merge(base: Partial<Subject>, latest: Partial<Subject>, ours: Partial<Subject>): Subject {
+  const merged = mergeConcurrentChanges(
+    makeConfig([makeSubject(base)]),
+    makeConfig([makeSubject(latest)]),
+    makeConfig([makeSubject(ours)])
+  );
+  return merged.terms[0].timetable.subjects[0];
+}
+
+const ids = (items: { id: string }[] = []) => items.map((item) => item.id).sort();
+
+// ─────────────────────────────────────────────
+// ケース
+// ─────────────────────────────────────────────
+
+const cases: TestCase[] = [
+  ['両方のタブで追加した成績は両方残る', () => {
+    const subject = merge({ grades: [grade('G')] }, { grades: [grade('G'), grade('L')] }, { grades: [grade('G'), grade('H')] });
+    assert.deepEqual(ids(subject.grades), ['G', 'H', 'L']);
+  }],
+  ['別タブで削除した成績は復活しない', () => {
+    const subject = merge({ grades: [grade('G')] }, { grades: [] }, { grades: [grade('G'), grade('H')] });
+    assert.deepEqual(ids(subject.grades), ['H']);
+  }],
+  ['このタブで削除した成績は復活しない', () => {
+    const subject = merge({ grades: [grade('G')] }, { grades: [grade('G'), grade('L')] }, { grades: [] });
+    assert.deepEqual(ids(subject.grades), ['L']);
+  }],
+  ['別タブで削除した欠課記録は復活せず欠課数も減る', () => {
+    const subject = merge(
+      { absenceRecords: [record('A')], absences: 1 },
+      { absenceRecords: [], absences: 0 },
+      { absenceRecords: [record('A'), record('B')], absences: 2 }
+    );
+    assert.deepEqual(ids(subject.absenceRecords), ['B']);
+    assert.equal(subject.absences, 1);
+  }],
+  ['別タブで削除したシナリオは復活しない', () => {
+    const subject = merge(
+      { whatIfScenarios: [scenario('S')] },
+      { whatIfScenarios: [] },
+      { whatIfScenarios: [scenario('S'), scenario('T')] }
+    );
+    assert.deepEqual(ids(subject.whatIfScenarios), ['T']);
+  }],
+];
+
+// ─────────────────────────────────────────────
+// 実行
+// ─────────────────────────────────────────────
+
+runCases('同時編集マージ', cases);
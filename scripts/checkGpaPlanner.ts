@@ -0,0 +1,101 @@
+/**
+ * scripts/checkGpaPlanner.ts
+ *
+ * 学期 GPA 目標のプランナー（lib/gpaPlanner.ts の planForTargetGPA）のテスト
+ *
+ * 目標に届く場合は効率のよい科目から目標点を上げるか、届かない場合はそう報告するか、
+ * 採点の終わった科目は現在の GP のまま数えるかを確かめる。
+ * 1件でも失敗すれば終了コード 1。
+ *
+ *   npm run test:planner
+ */
+
+import assert from 'assert/strict';
+import { planForTargetGPA } from '../lib/gpaPlanner';
+import { getGradeStrategy } from '../lib/gradeStrategy';
+import type { Grade, Subject } from '../lib/types';
+import { makeConfig, makeSubject, runCases, type TestCase } from './testHelpers';
+
+// ─────────────────────────────────────────────
+// データ
+// ─────────────────────────────────────────────
+
+/** 5段階評価（秀 4・優 3・良 2・可 1） */
+const strategy = getGradeStrategy(makeConfig().schoolInfo);
+
+const exam = (criteriaId: string, points: number): Grade => ({ id: criteriaId, criteriaId, points, date: '2026-05-01' });
+
+/** 中間・期末が半分ずつの科目（成績が無ければ両方これから） */
+const twoExams = (overrides: Partial<Subject> = {}) =>
+  makeSubject({
+    evaluationCriteria: [
+      { id: 'mid', name: '中間試験', weight: 50, maxPoints: 100 },
+      { id: 'final', name: '期末試験', weight: 50, maxPoints: 100 },
+    ],
+    ...overrides,
+  });
+
+const targets = (subjects: { targetScore: number | null }[]) => subjects.map((s) => s.targetScore);
+
+// ─────────────────────────────────────────────
+// ケース
+// ─────────────────────────────────────────────
+
+const cases: TestCase[] = [
+  ['届く目標は単位数の多い（同じ努力で GPA が上がる）科目から上げる', () => {
+    const plan = planForTargetGPA(
+      [twoExams({ id: 'a', credits: 1 }), twoExams({ id: 'b', credits: 2 })],
+      2,
+      strategy
+    );
+    assert.equal(plan.achievable, true);
+    assert.deepEqual(targets(plan.subjects), [60, 80]);
+    assert.equal(plan.plannedGPA, 2.33);
+    assert.deepEqual(plan.subjects[1].criteriaTargets.map((t) => t.targetPercent), [80, 80]);
+  }],
+  ['合格点だけで届く目標なら全科目が合格点', () => {
+    const plan = planForTargetGPA([twoExams({ id: 'a' }), twoExams({ id: 'b' })], 1, strategy);
+    assert.equal(plan.achievable, true);
+    assert.deepEqual(targets(plan.subjects), [60, 60]);
+  }],
+  ['届かない目標は全科目を上げられるだけ上げて achievable = false', () => {
+    const plan = planForTargetGPA([twoExams({ id: 'a' }), twoExams({ id: 'b' })], 4.5, strategy);
+    assert.equal(plan.achievable, false);
+    assert.deepEqual(targets(plan.subjects), [90, 90]);
+    assert.equal(plan.plannedGPA, 4);
+  }],
+  ['合格できない科目は目標なし（不可）', () => {
+    const plan = planForTargetGPA([twoExams({ grades: [exam('mid', 0)] })], 2, strategy);
+    assert.equal(plan.achievable, false);
+    assert.equal(plan.subjects[0].targetScore, null);
+    assert.equal(plan.subjects[0].targetLabel, '不可');
+    assert.equal(plan.plannedGPA, 0);
+  }],
+  ['採点の終わった科目は現在の GP のまま数え、残りの科目だけ目標を決める', () => {
+    const graded = twoExams({ id: 'graded', grades: [exam('mid', 90), exam('final', 100)] });
+    const plan = planForTargetGPA([graded, twoExams({ id: 'open' })], 2.5, strategy);
+    assert.equal(plan.achievable, true);
+    assert.deepEqual(
+      plan.subjects.map((s) => [s.fixed, s.targetScore, s.targetGP, s.neededPercent]),
+      [
+        [true, 95, 4, 0],
+        [false, 60, 1, 60],
+      ]
+    );
+  }],
+  ['確定済みの成績も目標を変えられない科目として数える', () => {
+    const frozen = twoExams({
+      id: 'frozen',
+      finalGrade: { value: 72, gpa: 2, passed: true, frozenAt: '2026-09-30T00:00:00.000Z' },
+    });
+    const plan = planForTargetGPA([frozen], 3, strategy);
+    assert.equal(plan.subjects[0].fixed, true);
+    assert.equal(plan.achievable, false);
+  }],
+];
+
+// ─────────────────────────────────────────────
+// 実行
+// ─────────────────────────────────────────────
+
+runCases('GPA 目標のプランナー', cases);
@@ -0,0 +1,89 @@
+/**
+ * scripts/checkGradeStrategy.ts
+ *
+ * 成績計算の戦略の解決（lib/gradeStrategy.ts の getGradeStrategy）のテスト
+ *
+ * 学校情報から standard / legacy のどちらが選ばれ、評価尺度がどれになるかと、
+ * legacy を選んだときに単純平均・科目の欠課数の上限で計算されるかを確かめる。
+ * 1件でも失敗すれば終了コード 1。
+ *
+ *   npm run test:strategy
+ */
+
+import assert from 'assert/strict';
+import { getGradeStrategy } from '../lib/gradeStrategy';
+import type { Grade, SchoolInfo, Subject } from '../lib/types';
+import { makeSubject, runCases, type TestCase } from './testHelpers';
+
+// ─────────────────────────────────────────────
+// データ
+// ─────────────────────────────────────────────
+
+const schoolInfo = (overrides: Partial<SchoolInfo> = {}): SchoolInfo => ({
+  schoolName: '',
+  department: '',
+  grade: 2,
+  semester: 'spring',
+  academicYear: 2026,
+  ...overrides,
+});
+
+const quiz = (id: string, points: number): Grade => ({ id, criteriaId: 'quiz', points, date: '2026-05-01' });
+
+/** 評価が小テスト（最低1件除外）だけの科目。欠課は上限 3 に対して 4 */
+const makeQuizSubject = (): Subject => makeSubject({
+  evaluationCriteria: [{ id: 'quiz', name: '小テスト', weight: 100, maxPoints: 100, dropLowest: 1 }],
+  grades: [quiz('Q1', 40), quiz('Q2', 80)],
+  absences: 4,
+  absenceThreshold: 3,
+});
+
+// ─────────────────────────────────────────────
+// ケース
+// ─────────────────────────────────────────────
+
+const cases: TestCase[] = [
+  ['学校が不明で指定も無ければ standard', () => {
+    const strategy = getGradeStrategy(schoolInfo({ schoolName: '存在しない高専' }));
+    assert.equal(strategy.id, 'standard');
+    assert.equal(strategy.gradingScale.id, 'five-level');
+  }],
+  ['学校情報で legacy を選ぶと legacy', () => {
+    const strategy = getGradeStrategy(schoolInfo({ gradeStrategy: 'legacy' }));
+    assert.equal(strategy.id, 'legacy');
+  }],
+  ['legacy は評価項目の単純平均で成績を出す', () => {
+    const subject = makeQuizSubject();
+    assert.equal(getGradeStrategy(schoolInfo({ gradeStrategy: 'legacy' })).calculateSubjectGrade(subject), 60);
+    assert.equal(getGradeStrategy(schoolInfo()).calculateSubjectGrade(subject), 80);
+  }],
+  ['legacy は科目に設定した欠課数の上限で判定する', () => {
+    const strategy = getGradeStrategy(schoolInfo({ gradeStrategy: 'legacy' }));
+    const subject = makeQuizSubject();
+    assert.equal(strategy.calculateAbsenceLimit(subject), 3);
+    assert.equal(strategy.calculateEffectiveAbsences(subject), 4);
+    assert.equal(strategy.getGradeStatus(subject).absenceWarning, true);
+  }],
+  ['legacy の評価項目ごとの目標は legacy の合格必要点と同じ', () => {
+    const strategy = getGradeStrategy(schoolInfo({ gradeStrategy: 'legacy' }));
+    const subject = makeQuizSubject();
+    subject.evaluationCriteria = [
+      { ...subject.evaluationCriteria[0], weight: 40 },
+      { id: 'exam', name: '期末試験', weight: 60, maxPoints: 100 },
+    ];
+    const { needsToPass } = strategy.getGradeStatus(subject);
+    assert.equal(needsToPass, 60);
+    assert.deepEqual(strategy.calculateCriteriaTargets(subject).map(t => t.targetPercent), [needsToPass]);
+  }],
+  ['選んだ評価尺度は戦略にも反映される', () => {
+    const strategy = getGradeStrategy(schoolInfo({ gradeStrategy: 'legacy', gradingScale: 'four-level' }));
+    assert.equal(strategy.gradingScale.id, 'four-level');
+    assert.equal(strategy.getLetterGrade(makeQuizSubject()), '可');
+  }],
+];
+
+// ─────────────────────────────────────────────
+// 実行
+// ─────────────────────────────────────────────
+
+runCases('成績計算の戦略', cases);
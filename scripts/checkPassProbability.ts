@@ -0,0 +1,119 @@
+/**
+ * scripts/checkPassProbability.ts
+ *
+ * 合格確率の見積もり（lib/passProbability.ts）のテスト
+ *
+ * 結果が決まっている科目（確定済み・欠課超過・採点済み）が 0% か 100% になるかと、
+ * 評価項目の種類ごとの得点率の分布が件数に応じて全体の分布へ寄せられるかを確かめる。
+ * 1件でも失敗すれば終了コード 1。
+ *
+ *   npm run test:probability
+ */
+
+import assert from 'assert/strict';
+import { getGradeStrategy } from '../lib/gradeStrategy';
+import {
+  buildScoreDistributions,
+  estimatePassProbability,
+  type ScoreDistribution,
+  type ScoreDistributions,
+} from '../lib/passProbability';
+import type { Grade } from '../lib/types';
+import { makeConfig, makeSubject, runCases, type TestCase } from './testHelpers';
+
+// ─────────────────────────────────────────────
+// データ
+// ─────────────────────────────────────────────
+
+const strategy = getGradeStrategy(makeConfig().schoolInfo);
+
+const exam = (id: string, points: number): Grade => ({ id, criteriaId: 'exam', points, date: '2026-05-01' });
+
+const quiz = (id: string, points: number): Grade => ({ id, criteriaId: 'quiz', points, date: '2026-05-01' });
+
+/** 評価が「試験」と「小テスト」の科目 */
+const withQuiz = (grades: Grade[]) =>
+  makeSubject({
+    evaluationCriteria: [
+      { id: 'exam', name: '試験', weight: 50, maxPoints: 100 },
+      { id: 'quiz', name: '小テスト', weight: 50, maxPoints: 100 },
+    ],
+    grades,
+  });
+
+/** すべての種類が同じ分布 */
+const uniform = (distribution: ScoreDistribution): ScoreDistributions => ({
+  exam: distribution,
+  report: distribution,
+  quiz: distribution,
+  other: distribution,
+});
+
+const near = (actual: number, expected: number) =>
+  assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} ≒ ${expected}`);
+
+// ─────────────────────────────────────────────
+// ケース
+// ─────────────────────────────────────────────
+
+const cases: TestCase[] = [
+  ['確定済みの成績はその合否で 0% / 100%', () => {
+    const distributions = uniform({ mean: 90, sd: 10, count: 10 });
+    const failed = makeSubject({ finalGrade: { value: 55, gpa: 0, passed: false, frozenAt: '2026-09-30T00:00:00.000Z' } });
+    assert.deepEqual(estimatePassProbability(failed, distributions, strategy), {
+      probability: 0,
+      expectedGrade: 55,
+      sd: 0,
+      basis: 'certain',
+    });
+    const passed = makeSubject({ finalGrade: { value: 72, gpa: 2, passed: true, frozenAt: '2026-09-30T00:00:00.000Z' } });
+    assert.equal(estimatePassProbability(passed, distributions, strategy).probability, 1);
+  }],
+  ['欠課が上限を超えていれば点数に関係なく 0%', () => {
+    const subject = makeSubject({ grades: [exam('E1', 100)], absences: 11 });
+    const estimate = estimatePassProbability(subject, uniform({ mean: 90, sd: 10, count: 10 }), strategy);
+    assert.equal(estimate.probability, 0);
+    assert.equal(estimate.basis, 'certain');
+  }],
+  ['すべて採点済みなら現在の成績で 0% / 100%', () => {
+    const distributions = uniform({ mean: 90, sd: 10, count: 10 });
+    const passed = estimatePassProbability(makeSubject({ grades: [exam('E1', 60)] }), distributions, strategy);
+    assert.deepEqual([passed.probability, passed.basis], [1, 'certain']);
+    const failed = estimatePassProbability(makeSubject({ grades: [exam('E1', 59)] }), distributions, strategy);
+    assert.deepEqual([failed.probability, failed.basis], [0, 'certain']);
+  }],
+  ['残りの評価項目は分布の平均で期待値を、残りの重みでばらつきを見積もる', () => {
+    const subject = withQuiz([exam('E1', 70)]);
+    const estimate = estimatePassProbability(subject, uniform({ mean: 50, sd: 10, count: 10 }), strategy);
+    assert.equal(estimate.basis, 'estimated');
+    near(estimate.expectedGrade, 60);
+    near(estimate.sd, 5);
+    // 合格点 - 0.5 が境界なので期待値ちょうどなら 50% を少し上回る
+    assert.ok(estimate.probability > 0.5 && estimate.probability < 0.6, String(estimate.probability));
+  }],
+  ['成績が無ければ既定の分布', () => {
+    assert.deepEqual(buildScoreDistributions([makeSubject()]).exam, { mean: 65, sd: 15, count: 0 });
+  }],
+  ['件数の少ない種類の分布は全体の分布に寄せる（縮小推定）', () => {
+    const distributions = buildScoreDistributions([
+      withQuiz([exam('E1', 90), exam('E2', 90), quiz('Q1', 30), quiz('Q2', 30)]),
+    ]);
+    // 全体: 平均 60・分散 1200。試験: 2件の平均 90 に全体を 3 件分混ぜる
+    near(distributions.exam.mean, (2 * 90 + 3 * 60) / 5);
+    near(distributions.exam.sd, Math.sqrt((3 * 1200) / 5));
+    assert.equal(distributions.exam.count, 2);
+    // 成績の無い種類は全体の分布そのもの
+    near(distributions.report.mean, 60);
+    assert.equal(distributions.report.count, 0);
+  }],
+  ['得点率が揃っていても標準偏差は下限 5', () => {
+    const distributions = buildScoreDistributions([makeSubject({ grades: [exam('E1', 80), exam('E2', 80)] })]);
+    assert.deepEqual(distributions.exam, { mean: 80, sd: 5, count: 2 });
+  }],
+];
+
+// ─────────────────────────────────────────────
+// 実行
+// ─────────────────────────────────────────────
+
+runCases('合格確率の見積もり', cases);
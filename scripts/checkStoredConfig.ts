@@ -0,0 +1,116 @@
+/**
+ * scripts/checkStoredConfig.ts
+ *
+ * 保存データの読み込み（lib/migrations.ts の migrateConfig と lib/validation.ts の parseStoredConfig）のテスト
+ *
+ * schemaVersion の無い古いデータが現在の形まで移行されるかと、
+ * 壊れた科目が隔離され、壊れた学校情報や項目が既定値で修復されるかを確かめる。
+ * 1件でも失敗すれば終了コード 1。
+ *
+ *   npm run test:stored
+ */
+
+import assert from 'assert/strict';
+import { CURRENT_SCHEMA_VERSION, migrateConfig, type RawConfig } from '../lib/migrations';
+import { parseStoredConfig } from '../lib/validation';
+import { makeConfig, makeSubject, runCases, type TestCase } from './testHelpers';
+
+// ─────────────────────────────────────────────
+// データ
+// ─────────────────────────────────────────────
+
+/** schemaVersion 導入前（version 0）の保存データ。科目は必須項目だけ */
+const legacyConfig = (): RawConfig => ({
+  schoolInfo: { schoolName: '', department: '', grade: 3, semester: 'fall', academicYear: 2025 },
+  timetable: {
+    subjects: [
+      { id: 'math', name: '数学', credits: 2, academicYear: 2025, semester: 'fall' },
+      { id: 'eng', name: '英語', credits: 1, academicYear: 2025, semester: 'spring' },
+    ],
+  },
+  onboardingComplete: true,
+});
+
+/** 読み込みに失敗した部分の置き換え先 */
+const fallback = () => {
+  const config = makeConfig();
+  return { ...config, schoolInfo: { ...config.schoolInfo, schoolName: '既定の高専' } };
+};
+
+/** JSON を経由した（保存して読み直した）データ */
+const stored = (value: object): RawConfig => JSON.parse(JSON.stringify(value));
+
+/** 最初の学期の時間割（生データのまま書き換える用） */
+function firstTimetable(data: RawConfig): { subjects: Record<string, unknown>[] } {
+  const [term] = data.terms as { timetable: { subjects: Record<string, unknown>[] } }[];
+  return term.timetable;
+}
+
+// ─────────────────────────────────────────────
+// ケース
+// ─────────────────────────────────────────────
+
+const cases: TestCase[] = [
+  ['version 0 のデータは全移行を順に適用して現在のバージョンになる', () => {
+    const { data, fromVersion, toVersion, applied } = migrateConfig(legacyConfig());
+    assert.equal(fromVersion, 0);
+    assert.equal(toVersion, CURRENT_SCHEMA_VERSION);
+    assert.deepEqual(applied, [1, 2, 3]);
+    assert.equal(data.schemaVersion, CURRENT_SCHEMA_VERSION);
+    assert.equal('timetable' in data, false);
+    assert.deepEqual(data.calendars, []);
+  }],
+  ['version 0 の科目は (年度, 学期) ごとの学期に分かれ、欠損項目が補完される', () => {
+    const { data } = migrateConfig(legacyConfig());
+    const { config, quarantined } = parseStoredConfig(data, fallback());
+    assert.deepEqual(quarantined, []);
+    assert.deepEqual(config.terms.map((t) => t.id), ['2025-fall', '2025-spring']);
+    assert.equal(config.activeTermId, '2025-fall');
+
+    const [math] = config.terms[0].timetable.subjects;
+    assert.equal(math.classType, 'lecture');
+    assert.equal(math.classesPerSemester, 30);
+    assert.equal(math.absenceThreshold, 10);
+    assert.deepEqual(math.absenceRecords, []);
+  }],
+  ['現在のバージョンのデータには移行を適用しない', () => {
+    const { data, applied } = migrateConfig(stored(makeConfig([makeSubject()])));
+    assert.deepEqual(applied, []);
+    assert.deepEqual(data, stored(makeConfig([makeSubject()])));
+  }],
+  ['id の無い科目は隔離し、同じ学期の他の科目は残す', () => {
+    const data = stored(makeConfig([makeSubject(), makeSubject({ id: 'eng', name: '英語' })]));
+    const { subjects } = firstTimetable(data);
+    delete subjects[1].id;
+
+    const { config, quarantined } = parseStoredConfig(data, fallback());
+    assert.deepEqual(config.terms[0].timetable.subjects.map((s) => s.id), ['math']);
+    assert.equal(quarantined.length, 1);
+    assert.deepEqual(quarantined[0].raw, subjects[1]);
+    assert.match(quarantined[0].errors.join('\n'), /^id:/m);
+  }],
+  ['不正な学校情報は既定値で置き換える', () => {
+    const data = stored(makeConfig([makeSubject()]));
+    data.schoolInfo = { ...(data.schoolInfo as object), grade: 9 };
+
+    const { config, quarantined } = parseStoredConfig(data, fallback());
+    assert.deepEqual(config.schoolInfo, fallback().schoolInfo);
+    assert.deepEqual(quarantined, []);
+    assert.equal(config.terms[0].timetable.subjects.length, 1);
+  }],
+  ['不正な項目のある科目は既定値で修復して残す', () => {
+    const data = stored(makeConfig([makeSubject()]));
+    firstTimetable(data).subjects[0].credits = '二';
+
+    const { config, quarantined, repairedCount } = parseStoredConfig(data, fallback());
+    assert.deepEqual(quarantined, []);
+    assert.equal(repairedCount, 1);
+    assert.equal(config.terms[0].timetable.subjects[0].credits, 1);
+  }],
+];
+
+// ─────────────────────────────────────────────
+// 実行
+// ─────────────────────────────────────────────
+
+runCases('保存データの読み込み', cases);
@@ -0,0 +1,156 @@
+/**
+ * scripts/checkSyllabusFixtures.ts
+ *
+ * シラバス抽出のフィクスチャテスト
+ *
+ * fixtures/syllabus の保存済みページ（.md / .html）を syllabusSource の fixture 実装で読み、
+ * lib/syllabusMarkdownParser で抽出した結果を同名の .expected.json と比べて項目ごとの正解率を出す。
+ * 1件でも食い違えば終了コード 1。
+ *
+ *   npm run test:syllabus [-- <フィクスチャのディレクトリ>]
+ *
+ * .expected.json の形式:
+ *   { "url": "<シラバスのURL（ファイル名は getFixtureName(url)）>", "expected": { <SyllabusDetail の一部> } }
+ *   科目一覧ページは "expectedSubjects": [ <SyllabusListing> ] （extractSubjectList の結果と科目ごとに比べる）
+ * expected に書いた項目だけを比べる。
+ */
+
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import { getSyllabusSource, getFixtureName } from '../lib/syllabusSource';
+import { extractSyllabusDetail, extractSubjectList } from '../lib/syllabusMarkdownParser';
+import type { SyllabusListing } from '../lib/syllabusMarkdownParser';
+import type { SyllabusDetail } from '../lib/syllabusDetailExtractor';
+
+// ─────────────────────────────────────────────
+// 型定義
+// ─────────────────────────────────────────────
+
+interface FixtureCase {
+  url: string;
+  expected?: Partial<SyllabusDetail>;
+  expectedSubjects?: SyllabusListing[];
+}
+
+/** 比べる項目（表示順） */
+const FIELDS: (keyof SyllabusDetail)[] = [
+  'subjectName',
+  'instructor',
+  'credits',
+  'creditKind',
+  'courseType',
+  'term',
+  'classType',
+  'evaluationCriteria',
+  'description',
+  'schedule',
+];
+
+/** 科目一覧ページの集計行 */
+const SUBJECT_LIST = 'subjectList';
+
+const EXPECTED_SUFFIX = '.expected.json';
+
+// ─────────────────────────────────────────────
+// 実行
+// ─────────────────────────────────────────────
+
+/** 抽出中のログ（解析戦略の表示など）を出さずに実行する */
+function quietly<T>(fn: () => T): T {
+  const { log, warn } = console;
+  console.log = () => {};
+  console.warn = () => {};
+  try {
+    return fn();
+  } finally {
+    console.log = log;
+    console.warn = warn;
+  }
+}
+
+async function main() {
+  const dir = path.resolve(process.argv[2] ?? path.join('fixtures', 'syllabus'));
+  const source = getSyllabusSource({ SYLLABUS_SOURCE: 'fixture', SYLLABUS_FIXTURE_DIR: dir });
+
+  const files = (await readdir(dir)).filter((f) => f.endsWith(EXPECTED_SUFFIX)).sort();
+  if (files.length === 0) {
+    console.error(`フィクスチャがありません: ${dir}`);
+    process.exit(1);
+  }
+
+  const tally = new Map<string, { passed: number; total: number }>(
+    [...FIELDS, SUBJECT_LIST].map((field) => [field, { passed: 0, total: 0 }])
+  );
+  const failures: string[] = [];
+
+  for (const file of files) {
+    const fixture: FixtureCase = JSON.parse(await readFile(path.join(dir, file), 'utf8'));
+    const name = file.slice(0, -EXPECTED_SUFFIX.length);
+    if (getFixtureName(fixture.url) !== name) {
+      failures.push(`${file}: url から求めたファイル名 ${getFixtureName(fixture.url)} と一致しません`);
+      continue;
+    }
+
+    let markdown: string;
+    try {
+      markdown = await source.fetchMarkdown(fixture.url);
+    } catch (err) {
+      failures.push(`${file}: ${err instanceof Error ? err.message : String(err)}`);
+      continue;
+    }
+
+    if (fixture.expectedSubjects) {
+      const count = tally.get(SUBJECT_LIST)!;
+      const actual = extractSubjectList(markdown, fixture.url);
+      for (const want of fixture.expectedSubjects) {
+        count.total++;
+        const got = actual.find((l) => l.url === want.url);
+        if (JSON.stringify(got) === JSON.stringify(want)) {
+          count.passed++;
+        } else {
+          failures.push(
+            `${name}\n    ${want.subjectName}: 期待 ${JSON.stringify(want)}\n` +
+            `    ${' '.repeat(want.subjectName.length)}  実際 ${JSON.stringify(got)}`
+          );
+        }
+      }
+      for (const extra of actual.filter((l) => !fixture.expectedSubjects!.some((want) => want.url === l.url))) {
+        failures.push(`${name}\n    余分な科目: ${JSON.stringify(extra)}`);
+      }
+    }
+    if (!fixture.expected) continue;
+
+    const actual = quietly(() => extractSyllabusDetail(markdown, fixture.url));
+    for (const field of FIELDS) {
+      if (!(field in fixture.expected)) continue;
+      const count = tally.get(field)!;
+      count.total++;
+      const want = JSON.stringify(fixture.expected[field]);
+      const got = JSON.stringify(actual[field]);
+      if (want === got) {
+        count.passed++;
+      } else {
+        failures.push(`${name}\n    ${field}: 期待 ${want}\n    ${' '.repeat(field.length)}  実際 ${got}`);
+      }
+    }
+  }
+
+  console.log(`シラバス抽出フィクスチャ: ${files.length}件 (${dir})\n`);
+  for (const [field, { passed, total }] of tally) {
+    if (total === 0) continue;
+    const rate = Math.round((passed / total) * 100);
+    console.log(`  ${field.padEnd(20)} ${String(passed).padStart(3)}/${total}  ${rate}%`);
+  }
+
+  if (failures.length > 0) {
+    console.log(`\n不一致 ${failures.length}件:`);
+    failures.forEach((failure) => console.log(`  ${failure}`));
+    process.exit(1);
+  }
+  console.log('\nすべて一致しました');
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,76 @@
+/**
+ * scripts/testHelpers.ts
+ *
+ * scripts/check*.ts のテストで共通に使うデータと実行処理
+ *
+ * 各スクリプトは TestCase の配列だけを書き、runCases に渡す。
+ * 結果は1件ごとに ✓ / ✗ で表示し、1件でも失敗すれば終了コード 1。
+ */
+
+import { createTerm } from '../lib/termArchive';
+import type { AppConfig, Subject } from '../lib/types';
+
+// ─────────────────────────────────────────────
+// データ
+// ─────────────────────────────────────────────
+
+/** 試験 100% ・合格点 60・欠課上限 10 の2単位の講義（overrides で上書き） */
+export function makeSubject(overrides: Partial<Subject> = {}): Subject {
+  return {
+    id: 'math',
+    name: '数学',
+    instructor: '',
+    courseType: 'required',
+    classType: 'lecture',
+    credits: 2,
+    passingGrade: 60,
+    evaluationCriteria: [{ id: 'exam', name: '試験', weight: 100, maxPoints: 100 }],
+    grades: [],
+    absences: 0,
+    absenceRecords: [],
+    absenceThreshold: 10,
+    classesPerSemester: 30,
+    semester: 'spring',
+    academicYear: 2026,
+    ...overrides,
+  };
+}
+
+/** 2026年度前期（2年生）だけの AppConfig */
+export function makeConfig(subjects: Subject[] = []): AppConfig {
+  const term = createTerm(2026, 'spring', 2);
+  term.timetable.subjects = subjects;
+  return {
+    schemaVersion: 3,
+    schoolInfo: { schoolName: '', department: '', grade: 2, semester: 'spring', academicYear: 2026 },
+    terms: [term],
+    activeTermId: term.id,
+    calendars: [],
+    classesPerSemester: 30,
+    onboardingComplete: true,
+  };
+}
+
+// ─────────────────────────────────────────────
+// 実行
+// ─────────────────────────────────────────────
+
+/** [ケース名, 失敗時に例外を投げる関数] */
+export type TestCase = [string, () => void];
+
+/** ケースを順に実行して結果を表示する（失敗があれば終了コード 1） */
+export function runCases(title: string, cases: TestCase[]): void {
+  let failed = 0;
+  for (const [name, run] of cases) {
+    try {
+      run();
+      console.log(`  ✓ ${name}`);
+    } catch (err) {
+      failed++;
+      console.log(`  ✗ ${name}\n    ${err instanceof Error ? err.message.replace(/\n/g, '\n    ') : String(err)}`);
+    }
+  }
+
+  console.log(`\n${title}: ${cases.length - failed}/${cases.length} 件成功`);
+  if (failed > 0) process.exit(1);
+}